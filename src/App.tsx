@@ -1,7 +1,16 @@
 import { useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { useAppDispatch } from './store/hooks';
-import { checkSession } from './store/slices/authSlice';
+import {
+  createBrowserRouter,
+  createRoutesFromElements,
+  RouterProvider,
+  Route,
+  Navigate,
+  Outlet,
+} from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from './store/hooks';
+import { checkSession, watchAuthState } from './store/slices/authSlice';
+import { api } from './store/api/baseApi';
+import { useSessionExpiryRedirect } from './hooks/useSessionExpiryRedirect';
 import { Navbar } from './components/Navbar';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Register } from './pages/Register';
@@ -11,6 +20,100 @@ import { BlogList } from './pages/BlogList';
 import { BlogView } from './pages/BlogView';
 import { BlogCreate } from './pages/BlogCreate';
 import { BlogEdit } from './pages/BlogEdit';
+import { UserProfile } from './pages/UserProfile';
+import { ProfileSettings } from './pages/ProfileSettings';
+import { MyPosts } from './pages/MyPosts';
+import { ModerationQueue } from './pages/ModerationQueue';
+import { ResetPassword } from './pages/ResetPassword';
+import { AccountSettings } from './pages/AccountSettings';
+import { AuthCallback } from './pages/AuthCallback';
+
+// Shell shared by every page
+const Layout = () => {
+  useSessionExpiryRedirect();
+
+  return (
+    <div style={styles.app}>
+      <Navbar />
+      <main style={styles.main}>
+        <Outlet />
+      </main>
+    </div>
+  );
+};
+
+// A data router, so editors can block navigation away from unsaved changes
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route element={<Layout />}>
+      <Route path="/" element={<Navigate to="/blogs" replace />} />
+      <Route path="/register" element={<Register />} />
+      <Route path="/login" element={<Login />} />
+      <Route path="/reset-password" element={<ResetPassword />} />
+      <Route path="/auth/callback" element={<AuthCallback />} />
+      <Route
+        path="/logout"
+        element={
+          <ProtectedRoute>
+            <Logout />
+          </ProtectedRoute>
+        }
+      />
+      <Route path="/blogs" element={<BlogList />} />
+      <Route path="/blogs/:id" element={<BlogView />} />
+      <Route path="/tags/:slug" element={<BlogList />} />
+      <Route
+        path="/blogs/create"
+        element={
+          <ProtectedRoute permission="blog:create">
+            <BlogCreate />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/blogs/edit/:id"
+        element={
+          <ProtectedRoute>
+            <BlogEdit />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/my-posts"
+        element={
+          <ProtectedRoute permission="blog:create">
+            <MyPosts />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/account"
+        element={
+          <ProtectedRoute>
+            <AccountSettings />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/moderation"
+        element={
+          <ProtectedRoute permission="content:moderate">
+            <ModerationQueue />
+          </ProtectedRoute>
+        }
+      />
+      <Route path="/users/:id" element={<UserProfile />} />
+      <Route
+        path="/settings"
+        element={
+          <ProtectedRoute>
+            <ProfileSettings />
+          </ProtectedRoute>
+        }
+      />
+    </Route>
+  )
+);
 
 function App() {
   const dispatch = useAppDispatch();
@@ -18,48 +121,19 @@ function App() {
   useEffect(() => {
     // Check if user is already logged in
     dispatch(checkSession());
+
+    // Then follow token refreshes, expiry and sign-ins/outs in other tabs
+    return dispatch(watchAuthState());
   }, [dispatch]);
 
-  return (
-    <BrowserRouter>
-      <div style={styles.app}>
-        <Navbar />
-        <main style={styles.main}>
-          <Routes>
-            <Route path="/" element={<Navigate to="/blogs" replace />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/logout"
-              element={
-                <ProtectedRoute>
-                  <Logout />
-                </ProtectedRoute>
-              }
-            />
-            <Route path="/blogs" element={<BlogList />} />
-            <Route path="/blogs/:id" element={<BlogView />} />
-            <Route
-              path="/blogs/create"
-              element={
-                <ProtectedRoute>
-                  <BlogCreate />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/blogs/edit/:id"
-              element={
-                <ProtectedRoute>
-                  <BlogEdit />
-                </ProtectedRoute>
-              }
-            />
-          </Routes>
-        </main>
-      </div>
-    </BrowserRouter>
-  );
+  // Which drafts and hidden comments the user sees depends on who they are;
+  // cached posts and comments are refetched when that changes
+  const { user } = useAppSelector((state) => state.auth);
+  useEffect(() => {
+    dispatch(api.util.invalidateTags(['Blog', 'Comment']));
+  }, [dispatch, user?.id, user?.role]);
+
+  return <RouterProvider router={router} />;
 }
 
 const styles: { [key: string]: React.CSSProperties } = {
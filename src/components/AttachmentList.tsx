@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { CommentAttachment } from '../lib/supabase';
+import { attachmentIcon, formatFileSize, isImageAttachment } from '../lib/attachments';
+import { Lightbox } from './Lightbox';
+
+// A comment's attachments: images inline (opening in the lightbox), other files as links
+export const AttachmentList = ({ attachments }: { attachments: CommentAttachment[] }) => {
+  const [open, setOpen] = useState<number | null>(null);
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((attachment) => !isImageAttachment(attachment));
+
+  return (
+    <div style={styles.container}>
+      {images.length > 0 && (
+        <div style={styles.images}>
+          {images.map((image, i) => (
+            <button
+              key={image.path ?? image.url}
+              type="button"
+              onClick={() => setOpen(i)}
+              title={image.name}
+              style={styles.imageButton}
+            >
+              <img src={image.url} alt={image.name} loading="lazy" style={styles.image} />
+            </button>
+          ))}
+        </div>
+      )}
+      {files.length > 0 && (
+        <ul style={styles.files}>
+          {files.map((file) => (
+            <li key={file.path ?? file.url}>
+              <a href={file.url} target="_blank" rel="noopener noreferrer" style={styles.fileLink}>
+                <span aria-hidden>{attachmentIcon(file.type)}</span> {file.name}
+              </a>
+              <span style={styles.fileMeta}>
+                {file.size !== null && formatFileSize(file.size)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {open !== null && (
+        <Lightbox
+          images={images.map((image) => ({ url: image.url, alt: image.name }))}
+          index={open}
+          onIndexChange={setOpen}
+          onClose={() => setOpen(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+    marginTop: '0.5rem',
+    padding: '0.5rem',
+    backgroundColor: '#f5f5f5',
+    borderRadius: '4px',
+  },
+  images: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '0.5rem',
+  },
+  imageButton: {
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    cursor: 'zoom-in',
+  },
+  image: {
+    display: 'block',
+    maxWidth: '100%',
+    maxHeight: '200px',
+    borderRadius: '4px',
+  },
+  files: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+  },
+  fileLink: {
+    color: '#333',
+    textDecoration: 'underline',
+  },
+  fileMeta: {
+    marginLeft: '0.5rem',
+    color: '#999',
+    fontSize: '0.8rem',
+  },
+};
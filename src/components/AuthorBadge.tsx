@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom';
+import { useAppSelector } from '../store/hooks';
+import { displayName } from '../store/slices/profileSlice';
+import { Avatar } from './Avatar';
+
+interface AuthorBadgeProps {
+  userId: string;
+  size?: number;
+}
+
+// Author avatar and name linking to their profile. The profile itself is
+// loaded by the page via fetchProfiles.
+export const AuthorBadge = ({ userId, size = 24 }: AuthorBadgeProps) => {
+  const profile = useAppSelector((state) => state.profiles.byId[userId]);
+  const name = displayName(profile, userId);
+
+  return (
+    <Link to={`/users/${userId}`} style={styles.badge}>
+      <Avatar url={profile?.avatar_url} name={name} size={size} />
+      <span style={styles.name}>{name}</span>
+    </Link>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  badge: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    color: '#333',
+    textDecoration: 'none',
+  },
+  name: {
+    fontWeight: '500',
+    fontSize: '0.875rem',
+  },
+};
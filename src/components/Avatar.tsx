@@ -0,0 +1,37 @@
+interface AvatarProps {
+  url: string | null | undefined;
+  name: string;
+  size?: number;
+}
+
+export const Avatar = ({ url, name, size = 32 }: AvatarProps) => {
+  const dimensions = { width: `${size}px`, height: `${size}px` };
+
+  if (url) {
+    return <img src={url} alt={name} style={{ ...styles.avatar, ...dimensions }} />;
+  }
+
+  // No avatar uploaded: show the first letter of the name instead
+  return (
+    <span style={{ ...styles.avatar, ...styles.initial, ...dimensions, fontSize: `${size * 0.45}px` }}>
+      {name.charAt(0).toUpperCase()}
+    </span>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  avatar: {
+    display: 'inline-block',
+    flexShrink: 0,
+    borderRadius: '50%',
+    objectFit: 'cover',
+  },
+  initial: {
+    display: 'inline-flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#ccc',
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+};
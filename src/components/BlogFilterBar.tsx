@@ -0,0 +1,177 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { BlogFilters, BlogSort } from '../lib/repositories/types';
+import { fetchAuthors, displayName } from '../store/slices/profileSlice';
+
+interface BlogFilterBarProps {
+  filters: BlogFilters;
+  onChange: (filters: BlogFilters) => void;
+}
+
+const SORT_LABELS: Record<BlogSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  oldest: 'Oldest',
+  most_commented: 'Most commented',
+  most_liked: 'Most liked',
+};
+
+export const BlogFilterBar = ({ filters, onChange }: BlogFilterBarProps) => {
+  const dispatch = useAppDispatch();
+  const { authorIds, byId } = useAppSelector((state) => state.profiles);
+  const [search, setSearch] = useState(filters.search ?? '');
+
+  useEffect(() => {
+    dispatch(fetchAuthors());
+  }, [dispatch]);
+
+  // Follow the URL when it changes from outside (back/forward, shared links)
+  useEffect(() => {
+    setSearch(filters.search ?? '');
+  }, [filters.search]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const query = search.trim() || undefined;
+    // "Best match" only makes sense while searching
+    const sort = !query && filters.sort === 'relevance' ? undefined : filters.sort;
+    onChange({ ...filters, search: query, sort });
+  };
+
+  const hasFilters = !!(filters.search || filters.userId || filters.from || filters.to || filters.sort);
+
+  return (
+    <form onSubmit={handleSearch} style={styles.bar}>
+      <div style={styles.searchRow}>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search posts..."
+          aria-label="Search posts"
+          style={styles.searchInput}
+        />
+        <button type="submit" style={styles.searchButton}>
+          Search
+        </button>
+      </div>
+      <div style={styles.filterRow}>
+        <label style={styles.label}>
+          Author
+          <select
+            value={filters.userId ?? ''}
+            onChange={(e) => onChange({ ...filters, userId: e.target.value || undefined })}
+            style={styles.select}
+          >
+            <option value="">Anyone</option>
+            {authorIds.map((id) => (
+              <option key={id} value={id}>
+                {displayName(byId[id], id)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={styles.label}>
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            style={styles.select}
+          />
+        </label>
+        <label style={styles.label}>
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            style={styles.select}
+          />
+        </label>
+        <label style={styles.label}>
+          Sort
+          <select
+            value={filters.sort ?? (filters.search ? 'relevance' : 'newest')}
+            onChange={(e) => onChange({ ...filters, sort: e.target.value as BlogSort })}
+            style={styles.select}
+          >
+            {(Object.keys(SORT_LABELS) as BlogSort[])
+              .filter((sort) => sort !== 'relevance' || filters.search)
+              .map((sort) => (
+                <option key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </option>
+              ))}
+          </select>
+        </label>
+        {hasFilters && (
+          <button type="button" onClick={() => onChange({})} style={styles.clearButton}>
+            Clear filters
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  bar: {
+    marginBottom: '2rem',
+    padding: '1rem',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  searchRow: {
+    display: 'flex',
+    gap: '0.5rem',
+    marginBottom: '1rem',
+  },
+  searchInput: {
+    flex: 1,
+    padding: '0.75rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '1rem',
+  },
+  searchButton: {
+    padding: '0.75rem 1.5rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+  filterRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'flex-end',
+    gap: '1rem',
+  },
+  label: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  select: {
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+  },
+  clearButton: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#ccc',
+    color: '#333',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, screen } from '@testing-library/react';
+import { CommentForm } from './CommentForm';
+import { commentApi, selectReplyIds } from '../store/api/commentApi';
+import { CommentAttachment } from '../lib/supabase';
+import { renderRoutes } from '../test/utils';
+import { READER, testSeed } from '../test/fixtures';
+
+const saved: CommentAttachment = {
+  url: 'https://example.com/notes.txt',
+  path: `comments/${READER.id}/notes.txt`,
+  name: 'notes.txt',
+  size: 100,
+  type: 'text/plain',
+};
+
+const seed = () =>
+  testSeed({
+    comments: [{ id: 'mine', blog_id: 'blog-1', user_id: READER.id, content: 'Original', attachments: [saved] }],
+  });
+
+// The form next to the post's cached thread, as on the post's page
+const renderForm = async (form: JSX.Element) => {
+  const rendered = await renderRoutes([{ path: '/blogs/:id', element: form }], {
+    path: '/blogs/blog-1',
+    seed: seed(),
+    signedInAs: READER.id,
+  });
+  await rendered.store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+  const thread = () => commentApi.endpoints.getComments.select('blog-1')(rendered.store.getState()).data;
+  return { ...rendered, thread };
+};
+
+describe('CommentForm', () => {
+  it('uploads the attached files and posts the comment', async () => {
+    const { thread, user } = await renderForm(<CommentForm blogId="blog-1" />);
+
+    await user.type(screen.getByPlaceholderText('Write a comment...'), 'See attached');
+    await user.upload(
+      screen.getByLabelText('Attach up to 5 files'),
+      new File(['hello'], 'report.txt', { type: 'text/plain' })
+    );
+    expect(screen.getByText('report.txt')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+
+    await vi.waitFor(() => expect(screen.getByPlaceholderText('Write a comment...')).toHaveValue(''));
+    await vi.waitFor(() => expect(selectReplyIds(thread(), null)).toHaveLength(2));
+    const [id] = selectReplyIds(thread(), null);
+    expect(thread()?.byId[id]).toMatchObject({
+      content: 'See attached',
+      attachments: [
+        { name: 'report.txt', type: 'text/plain', size: 5, path: expect.stringMatching(`^comments/${READER.id}/`) },
+      ],
+    });
+    expect(screen.queryByText('report.txt')).not.toBeInTheDocument();
+  });
+
+  it('takes back a comment that failed, keeping its text, and posts it again on retry', async () => {
+    const { thread, repositories, user } = await renderForm(<CommentForm blogId="blog-1" />);
+    vi.spyOn(repositories.comments, 'create').mockRejectedValueOnce(new Error('Network request failed'));
+
+    await user.type(screen.getByPlaceholderText('Write a comment...'), 'Try again');
+    await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("Your comment couldn't be posted: Network request failed");
+    expect(selectReplyIds(thread(), null)).toEqual(['mine']);
+    expect(screen.getByPlaceholderText('Write a comment...')).toHaveValue('Try again');
+    await user.click(screen.getByRole('button', { name: 'Retry' }));
+
+    await vi.waitFor(() => expect(screen.queryByRole('alert')).not.toBeInTheDocument());
+    await vi.waitFor(() => expect(selectReplyIds(thread(), null)).toHaveLength(2));
+    expect(thread()?.byId[selectReplyIds(thread(), null)[0]].content).toBe('Try again');
+    expect(screen.getByPlaceholderText('Write a comment...')).toHaveValue('');
+  });
+
+  it('shows a notice for each comment that failed', async () => {
+    const { repositories, user } = await renderForm(<CommentForm blogId="blog-1" />);
+    vi.spyOn(repositories.comments, 'create').mockRejectedValue(new Error('Network request failed'));
+
+    await user.type(screen.getByPlaceholderText('Write a comment...'), 'First');
+    await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+    await screen.findByRole('alert');
+    await user.type(screen.getByPlaceholderText('Write a comment...'), ' and second');
+    await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+
+    await vi.waitFor(() => expect(screen.getAllByRole('alert')).toHaveLength(2));
+    await user.click(screen.getAllByRole('button', { name: 'Dismiss' })[0]);
+    expect(screen.getAllByRole('alert')).toHaveLength(1);
+  });
+
+  it('shows why the content filters refused a comment, keeping its text, without offering a retry', async () => {
+    const { user } = await renderForm(<CommentForm blogId="blog-1" />);
+    const textarea = screen.getByPlaceholderText('Write a comment...');
+
+    await user.type(textarea, 'Same again');
+    await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+    await vi.waitFor(() => expect(textarea).toHaveValue(''));
+    await user.type(textarea, 'Same again');
+    await user.click(screen.getByRole('button', { name: 'Post Comment' }));
+
+    expect(await screen.findByText('You already posted this comment.')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+    expect(textarea).toHaveValue('Same again');
+  });
+
+  it('shows why a file was refused', async () => {
+    await renderForm(<CommentForm blogId="blog-1" />);
+
+    // Past the picker's own filter, as when dropping a file on it
+    fireEvent.change(screen.getByLabelText('Attach up to 5 files'), {
+      target: { files: [new File(['x'], 'script.sh', { type: 'application/x-sh' })] },
+    });
+
+    expect(screen.getByText(/script\.sh/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Remove' })).not.toBeInTheDocument();
+  });
+
+  it('edits a comment and deletes the upload of a removed attachment', async () => {
+    const onCancel = vi.fn();
+    const { thread, repositories, user } = await renderForm(
+      <CommentForm
+        blogId="blog-1"
+        editingCommentId="mine"
+        initialContent="Original"
+        initialAttachments={[saved]}
+        onCancel={onCancel}
+      />
+    );
+    const remove = vi.spyOn(repositories.storage, 'remove');
+
+    const textarea = screen.getByPlaceholderText('Write a comment...');
+    expect(textarea).toHaveValue('Original');
+    await user.clear(textarea);
+    await user.type(textarea, 'Edited');
+    await user.click(screen.getByRole('button', { name: 'Remove' }));
+    await user.click(screen.getByRole('button', { name: 'Update Comment' }));
+
+    await vi.waitFor(() => expect(onCancel).toHaveBeenCalled());
+    await vi.waitFor(() => expect(thread()?.byId.mine).toMatchObject({ content: 'Edited', attachments: [] }));
+    expect(remove).toHaveBeenCalledWith([saved.path]);
+  });
+
+  it('closes as soon as the edit is sent', async () => {
+    const onCancel = vi.fn();
+    const { thread, repositories, user } = await renderForm(
+      <CommentForm blogId="blog-1" editingCommentId="mine" initialContent="Original" onCancel={onCancel} />
+    );
+    vi.spyOn(repositories.comments, 'update').mockReturnValue(new Promise(() => {}));
+
+    await user.type(screen.getByPlaceholderText('Write a comment...'), ' and more');
+    await user.click(screen.getByRole('button', { name: 'Update Comment' }));
+
+    expect(onCancel).toHaveBeenCalled();
+    expect(thread()?.byId.mine.content).toBe('Original and more');
+  });
+
+  it('keeps the attachments when only the text changed', async () => {
+    const { thread, repositories, user } = await renderForm(
+      <CommentForm blogId="blog-1" editingCommentId="mine" initialContent="Original" initialAttachments={[saved]} />
+    );
+    const update = vi.spyOn(repositories.comments, 'update');
+
+    await user.type(screen.getByPlaceholderText('Write a comment...'), ' and more');
+    await user.click(screen.getByRole('button', { name: 'Update Comment' }));
+
+    await vi.waitFor(() => expect(thread()?.byId.mine.content).toBe('Original and more'));
+    expect(update.mock.calls[0][1]).not.toHaveProperty('attachments');
+    expect(thread()?.byId.mine.attachments).toEqual([saved]);
+  });
+});
@@ -1,112 +1,190 @@
-import { useState, FormEvent, ChangeEvent } from 'react';
-import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { createComment, updateComment, clearError } from '../store/slices/commentSlice';
-import { supabase } from '../lib/supabase';
+import { useState, useMemo, useRef, FormEvent, ChangeEvent } from 'react';
+import { useAppSelector } from '../store/hooks';
+import { selectFailedComments, selectRequest } from '../store/slices/requestSlice';
+import {
+  CreateCommentArgs,
+  UpdateCommentArgs,
+  useCreateCommentMutation,
+  useUpdateCommentMutation,
+} from '../store/api/commentApi';
+import { RetryNotice } from './RetryNotice';
+import { CommentAttachment } from '../lib/supabase';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  AttachmentItem,
+  addAttachmentFiles,
+  attachmentIcon,
+  attachmentItemsFrom,
+  attachmentsChanged,
+  buildAttachments,
+  formatFileSize,
+  uploadAttachment,
+} from '../lib/attachments';
+import { commentDraftKey, CommentDraft } from '../lib/draftStore';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import { useBeforeUnload } from '../hooks/useUnsavedChangesPrompt';
+import { useUploads } from '../hooks/useUploads';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { DraftRestoreBanner } from './DraftRestoreBanner';
 
 interface CommentFormProps {
   blogId: string;
+  parentId?: string | null; // set when replying to a comment
   editingCommentId?: string | null;
   initialContent?: string;
-  initialFileUrl?: string | null;
+  initialAttachments?: CommentAttachment[];
   onCancel?: () => void;
 }
 
+const NO_ATTACHMENTS: CommentAttachment[] = [];
+
+// A picked or saved attachment: a thumbnail for images, the file's icon otherwise
+const AttachmentPreview = ({ item }: { item: AttachmentItem }) => {
+  const fileUrl = useObjectUrl(item.file?.type.startsWith('image/') ? item.file : null);
+  const name = item.attachment?.name ?? item.file?.name ?? '';
+  const type = item.attachment?.type ?? item.file?.type ?? '';
+  const size = item.attachment?.size ?? item.file?.size ?? null;
+  const imageUrl = type.startsWith('image/') ? (item.attachment?.url ?? fileUrl) : null;
+
+  return (
+    <>
+      {imageUrl ? (
+        <img src={imageUrl} alt="" style={styles.preview} />
+      ) : (
+        <span style={styles.previewIcon} aria-hidden>
+          {attachmentIcon(type)}
+        </span>
+      )}
+      <span style={styles.previewName}>{name}</span>
+      {size !== null && <span style={styles.previewSize}>{formatFileSize(size)}</span>}
+    </>
+  );
+};
+
 export const CommentForm = ({
   blogId,
+  parentId = null,
   editingCommentId,
   initialContent = '',
-  initialFileUrl = null,
+  initialAttachments = NO_ATTACHMENTS,
   onCancel,
 }: CommentFormProps) => {
   const [content, setContent] = useState(initialContent);
-  const [file, setFile] = useState<File | null>(null);
-  const [filePreview, setFilePreview] = useState<string | null>(initialFileUrl);
-  const [uploading, setUploading] = useState(false);
+  const [attachments, setAttachments] = useState(() => attachmentItemsFrom(initialAttachments));
+  const uploads = useUploads(uploadAttachment);
+  const [heldNotice, setHeldNotice] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [postRequestId, setPostRequestId] = useState<string | null>(null); // the latest new comment sent
+  const contentRef = useRef(content);
+  contentRef.current = content;
 
-  const dispatch = useAppDispatch();
-  const { loading, error } = useAppSelector((state) => state.comments);
+  // Comments and edits show in the thread at once. A new comment's text, and
+  // its draft, stay in the form until the server has saved it; an edit's form
+  // closes at once and the comment offers a failed edit for retry.
+  const [createComment] = useCreateCommentMutation();
+  const [updateComment] = useUpdateCommentMutation();
   const { user } = useAppSelector((state) => state.auth);
+  const failedComments = useAppSelector((state) => selectFailedComments(state, parentId ?? blogId));
+  // Why the content filters refused the latest comment; fixing the text is the only way through
+  const refusal = useAppSelector((state) => {
+    if (!postRequestId) return null;
+    const request = selectRequest(state, 'createComment', postRequestId);
+    return request.refused ? request.error : null;
+  });
+
+  const draft = useMemo<CommentDraft>(() => ({ content, attachments }), [content, attachments]);
+  const isDirty = content !== initialContent || attachmentsChanged(attachments, initialAttachments);
+  const draftTarget = editingCommentId ? `edit-${editingCommentId}` : parentId ? `reply-${parentId}` : 'new';
+  const { savedDraft, restoreDraft, discardDraft, clearDraft } = useDraftAutosave(
+    user ? commentDraftKey(user.id, blogId, draftTarget) : null,
+    draft,
+    isDirty
+  );
+  useBeforeUnload(isDirty);
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setFilePreview(reader.result as string);
-      };
-      reader.readAsDataURL(selectedFile);
-    }
+    const added = addAttachmentFiles(attachments, Array.from(e.target.files ?? []));
+    e.target.value = ''; // picking the same file again still fires onChange
+    uploads.setError(added.rejected);
+    setAttachments(added.items);
   };
 
-  const removeFile = () => {
-    setFile(null);
-    setFilePreview(null);
+  const handleRestoreDraft = () => {
+    const restored = restoreDraft();
+    if (!restored) return;
+    setContent(restored.content);
+    // Drafts from before multiple attachments keep the saved ones
+    if (restored.attachments) setAttachments(restored.attachments);
   };
 
-  const uploadFile = async (): Promise<string | null> => {
-    if (!file || !user) return initialFileUrl;
+  const removeAttachment = (key: string) => {
+    uploads.clearError();
+    setAttachments(attachments.filter((item) => item.key !== key));
+  };
 
-    try {
-      setUploading(true);
-      const fileExt = file.name.split('.').pop();
-      const fileName = `comments/${user.id}/${Date.now()}.${fileExt}`;
+  const reset = () => {
+    setContent('');
+    setAttachments([]);
+  };
 
-      const { error: uploadError } = await supabase.storage
-        .from('blog-images')
-        .upload(fileName, file);
+  // Unless the text was changed while it was being saved
+  const handleSaved = async (savedContent: string) => {
+    if (contentRef.current !== savedContent) return;
+    reset();
+    onCancel?.();
+    await clearDraft();
+  };
 
-      if (uploadError) throw uploadError;
+  const saveComment = async (arg: CreateCommentArgs) => {
+    const request = createComment(arg);
+    setPostRequestId(request.requestId);
+    const result = await request;
+    if (!result.data) return;
+    setHeldNotice(!!result.data.held_reason);
+    await handleSaved(arg.content);
+  };
 
-      const { data } = supabase.storage.from('blog-images').getPublicUrl(fileName);
-      return data.publicUrl;
-    } catch (error) {
-      console.error('Error uploading file:', error);
-      return initialFileUrl;
-    } finally {
-      setUploading(false);
-    }
+  // The draft is kept until the edit is saved, for reopening the form after a failure
+  const saveEdit = async (arg: UpdateCommentArgs) => {
+    onCancel?.();
+    const result = await updateComment(arg);
+    if (result.data) await clearDraft();
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    dispatch(clearError());
-
-    let fileUrl: string | null = initialFileUrl;
-    if (file) {
-      fileUrl = await uploadFile();
-    } else if (!filePreview && initialFileUrl) {
-      // File was removed
-      fileUrl = null;
-    }
+    setHeldNotice(false);
+
+    const files = attachments.flatMap((item) => (item.file ? [item.file] : []));
+    const uploaded = files.length > 0 && user ? await uploads.uploadAll(files, `comments/${user.id}`) : [];
+    if (!uploaded) return; // the form shows why
+
+    const built = buildAttachments(attachments, uploaded);
+    const changed = attachmentsChanged(attachments, initialAttachments);
+    // Sending it again after a failure doesn't upload the files twice
+    if (uploaded.length > 0) setAttachments(attachmentItemsFrom(built));
 
     if (editingCommentId) {
-      // Update existing comment
-      const result = await dispatch(updateComment({ id: editingCommentId, content, fileUrl }));
-      if (updateComment.fulfilled.match(result)) {
-        setContent('');
-        setFile(null);
-        setFilePreview(null);
-        onCancel?.();
-      }
-    } else {
-      // Create new comment
-      const result = await dispatch(createComment({ blogId, content, fileUrl }));
-      if (createComment.fulfilled.match(result)) {
-        setContent('');
-        setFile(null);
-        setFilePreview(null);
-      }
+      // Attachments are left out when unchanged
+      await saveEdit({ id: editingCommentId, blogId, content, attachments: changed ? built : undefined });
+      return;
     }
+    setSubmitting(true);
+    await saveComment({ blogId, content, attachments: built, parentId });
+    setSubmitting(false);
   };
 
   return (
     <form onSubmit={handleSubmit} style={styles.form}>
+      {savedDraft && (
+        <DraftRestoreBanner savedAt={savedDraft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+      )}
       <div style={styles.formGroup}>
         <textarea
           value={content}
           onChange={(e) => setContent(e.target.value)}
-          placeholder="Write a comment..."
+          placeholder={parentId ? 'Write a reply...' : 'Write a comment...'}
           required
           rows={3}
           style={styles.textarea}
@@ -115,36 +193,68 @@ export const CommentForm = ({
       <div style={styles.formGroup}>
         <input
           type="file"
-          id="comment-file"
-          accept="image/*"
+          id={`comment-file-${editingCommentId ?? parentId ?? blogId}`}
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES}
           onChange={handleFileChange}
+          disabled={attachments.length >= MAX_ATTACHMENTS}
+          aria-label={`Attach up to ${MAX_ATTACHMENTS} files`}
           style={styles.fileInput}
         />
-        {filePreview && (
-          <div style={styles.previewContainer}>
-            {filePreview.startsWith('data:') || filePreview.startsWith('http') ? (
-              <img src={filePreview} alt="Preview" style={styles.preview} />
-            ) : (
-              <a href={filePreview} target="_blank" rel="noopener noreferrer" style={styles.fileLink}>
-                View attached file
-              </a>
-            )}
-            <button type="button" onClick={removeFile} style={styles.removeButton}>
-              Remove
-            </button>
-          </div>
+        {attachments.length > 0 && (
+          <ul style={styles.previewContainer}>
+            {attachments.map((item) => (
+              <li key={item.key} style={styles.previewItem}>
+                <AttachmentPreview item={item} />
+                <button type="button" onClick={() => removeAttachment(item.key)} style={styles.removeButton}>
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
         )}
       </div>
-      {error && <p style={styles.error}>{error}</p>}
+      {/* The comment shows failed replies and edits once their form is closed */}
+      {editingCommentId ? (
+        <RetryNotice
+          operation="updateComment"
+          id={editingCommentId}
+          message="Your edit couldn't be saved"
+          onRetry={saveEdit}
+        />
+      ) : (
+        failedComments.map((requestId) => (
+          <RetryNotice
+            key={requestId}
+            operation="createComment"
+            id={requestId}
+            message={parentId ? "Your reply couldn't be posted" : "Your comment couldn't be posted"}
+            onRetry={saveComment}
+          />
+        ))
+      )}
+      {refusal && <p style={styles.error}>{refusal}</p>}
+      {uploads.error && <p style={styles.error}>{uploads.error}</p>}
+      {heldNotice && (
+        <p style={styles.notice}>Your comment was posted and will be visible once a moderator approves it.</p>
+      )}
       <div style={styles.actions}>
         <button
           type="submit"
-          disabled={loading || uploading}
+          disabled={uploads.uploading || submitting}
           style={styles.submitButton}
         >
-          {uploading ? 'Uploading...' : loading ? 'Saving...' : editingCommentId ? 'Update Comment' : 'Post Comment'}
+          {uploads.uploading
+            ? uploads.progressLabel
+            : submitting
+              ? 'Saving...'
+              : editingCommentId
+              ? 'Update Comment'
+              : parentId
+                ? 'Post Reply'
+                : 'Post Comment'}
         </button>
-        {editingCommentId && (
+        {(editingCommentId || parentId) && (
           <button type="button" onClick={onCancel} style={styles.cancelButton}>
             Cancel
           </button>
@@ -179,22 +289,43 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '0.875rem',
   },
   previewContainer: {
-    marginTop: '0.5rem',
+    listStyle: 'none',
+    margin: '0.5rem 0 0',
     padding: '0.5rem',
     backgroundColor: '#f5f5f5',
     borderRadius: '4px',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+  },
+  previewItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
   },
   preview: {
-    maxWidth: '100%',
-    maxHeight: '200px',
+    width: '48px',
+    height: '48px',
+    objectFit: 'cover',
     borderRadius: '4px',
-    marginBottom: '0.5rem',
   },
-  fileLink: {
+  previewIcon: {
+    width: '48px',
+    textAlign: 'center',
+    fontSize: '1.5rem',
+  },
+  previewName: {
+    flex: 1,
+    minWidth: 0,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
     color: '#333',
-    textDecoration: 'underline',
-    display: 'block',
-    marginBottom: '0.5rem',
+    fontSize: '0.875rem',
+  },
+  previewSize: {
+    color: '#999',
+    fontSize: '0.8rem',
   },
   removeButton: {
     padding: '0.25rem 0.5rem',
@@ -210,6 +341,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '0.875rem',
     marginBottom: '0.5rem',
   },
+  notice: {
+    color: '#856404',
+    fontSize: '0.875rem',
+    marginBottom: '0.5rem',
+  },
   actions: {
     display: 'flex',
     gap: '0.5rem',
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import { UserEvent } from '@testing-library/user-event';
+import { CommentThreadItem } from './CommentItem';
+import { commentApi } from '../store/api/commentApi';
+import { renderRoutes } from '../test/utils';
+import { READER, testSeed } from '../test/fixtures';
+
+const failure = new Error('Network request failed');
+
+const seed = () =>
+  testSeed({
+    comments: [
+      { id: 'first', blog_id: 'blog-1', user_id: READER.id, content: 'First' },
+      { id: 'reply', blog_id: 'blog-1', user_id: READER.id, content: 'A reply', parent_id: 'first' },
+    ],
+  });
+
+// A thread from the post's cached comments, as on the post's page
+const renderThread = async () => {
+  const rendered = await renderRoutes(
+    [{ path: '/blogs/:id', element: <CommentThreadItem blogId="blog-1" id="first" /> }],
+    { path: '/blogs/blog-1', seed: seed(), signedInAs: READER.id }
+  );
+  await rendered.store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+  await screen.findByText('A reply');
+  return rendered;
+};
+
+const editFirst = async (user: UserEvent, added: string) => {
+  const [editFirstButton] = screen.getAllByRole('button', { name: 'Edit' });
+  await user.click(editFirstButton);
+  await user.type(screen.getByPlaceholderText('Write a comment...'), added);
+  await user.click(screen.getByRole('button', { name: 'Update Comment' }));
+};
+
+describe('CommentItem', () => {
+  it('shows the edited text while the edit is being saved', async () => {
+    const { repositories, user } = await renderThread();
+    let saved: () => void = () => {};
+    const update = repositories.comments.update.bind(repositories.comments);
+    vi.spyOn(repositories.comments, 'update').mockImplementationOnce(
+      (...args) => new Promise((resolve) => (saved = () => resolve(update(...args))))
+    );
+
+    await editFirst(user, ' and more');
+
+    expect(screen.queryByPlaceholderText('Write a comment...')).not.toBeInTheDocument();
+    expect(screen.getByText('First and more')).toBeInTheDocument();
+    await vi.waitFor(() => expect(repositories.comments.update).toHaveBeenCalled());
+    expect(screen.getByText('Saving...')).toBeInTheDocument();
+    saved();
+    await vi.waitFor(() => expect(screen.queryByText('Saving...')).not.toBeInTheDocument());
+    expect(screen.getByText('First and more')).toBeInTheDocument();
+  });
+
+  it('takes back an edit that failed and sends it again on retry', async () => {
+    const { repositories, user } = await renderThread();
+    vi.spyOn(repositories.comments, 'update').mockRejectedValueOnce(failure);
+
+    await editFirst(user, ' and more');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("Your edit couldn't be saved: Network request failed");
+    expect(screen.getByText('First')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Retry' }));
+    await vi.waitFor(() => expect(screen.getByText('First and more')).toBeInTheDocument());
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('offers no retry for an edit the content filters refused', async () => {
+    const { user } = await renderThread();
+    const [, editReply] = screen.getAllByRole('button', { name: 'Edit' });
+    await user.click(editReply);
+    const textarea = screen.getByPlaceholderText('Write a comment...');
+    await user.clear(textarea);
+    await user.type(textarea, 'First');
+    await user.click(screen.getByRole('button', { name: 'Update Comment' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('You already posted this comment.');
+    expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+    expect(screen.getByText('A reply')).toBeInTheDocument();
+  });
+
+  it("keeps a reply's failure through hiding and showing the replies", async () => {
+    const { repositories, user } = await renderThread();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.spyOn(repositories.comments, 'remove').mockRejectedValue(failure);
+
+    const [, deleteReply] = screen.getAllByRole('button', { name: 'Delete' });
+    await user.click(deleteReply);
+    expect(await screen.findByRole('alert')).toHaveTextContent("The comment couldn't be deleted");
+
+    await user.click(screen.getByRole('button', { name: 'Hide replies' }));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Show 1 reply' }));
+    expect(screen.getByRole('alert')).toHaveTextContent("The comment couldn't be deleted");
+    expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+  });
+});
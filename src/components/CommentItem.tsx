@@ -1,33 +1,81 @@
 import { useState } from 'react';
-import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { deleteComment } from '../store/slices/commentSlice';
+import { useAppSelector } from '../store/hooks';
+import {
+  useCreateCommentMutation,
+  useDeleteCommentMutation,
+  useGetCommentsQuery,
+  useUpdateCommentMutation,
+  isTemporary,
+  selectReplyIds,
+} from '../store/api/commentApi';
+import { selectFailedComments, selectIsDeleting, selectIsSaving } from '../store/slices/requestSlice';
+import { Comment } from '../lib/supabase';
 import { CommentForm } from './CommentForm';
+import { AuthorBadge } from './AuthorBadge';
+import { ReactionBar } from './ReactionBar';
+import { ReportButton } from './ReportButton';
+import { AttachmentList } from './AttachmentList';
+import { RetryNotice } from './RetryNotice';
+import { canModify, hasPermission } from '../lib/permissions';
+
+// Replies deeper than this are rendered without further indentation
+export const DEFAULT_MAX_REPLY_DEPTH = 4;
 
 interface CommentItemProps {
-  comment: {
-    id: string;
-    blog_id: string;
-    user_id: string;
-    content: string;
-    file_url: string | null;
-    created_at: string;
-    updated_at: string;
-  };
+  comment: Comment;
+  depth?: number;
+  maxDepth?: number;
 }
 
-export const CommentItem = ({ comment }: CommentItemProps) => {
+export const CommentItem = ({ comment, depth = 0, maxDepth = DEFAULT_MAX_REPLY_DEPTH }: CommentItemProps) => {
   const [isEditing, setIsEditing] = useState(false);
-  const dispatch = useAppDispatch();
-  const { user } = useAppSelector((state) => state.auth);
+  const [isReplying, setIsReplying] = useState(false);
+  const [collapsed, setCollapsed] = useState(false);
+  const { user, isAuthenticated } = useAppSelector((state) => state.auth);
+  const { replyIds } = useGetCommentsQuery(comment.blog_id, {
+    selectFromResult: ({ data }) => ({ replyIds: selectReplyIds(data, comment.id) }),
+  });
+  const [createComment] = useCreateCommentMutation();
+  const [updateComment] = useUpdateCommentMutation();
+  const [deleteComment] = useDeleteCommentMutation();
+  const deleting = useAppSelector((state) => selectIsDeleting(state, comment.id));
+  const saving = useAppSelector((state) => selectIsSaving(state, comment.id));
+  const failedReplies = useAppSelector((state) => selectFailedComments(state, comment.id));
 
-  const isOwner = user && comment.user_id === user.id;
+  // Shown before the server has saved it, so there is nothing to act on yet
+  const posting = isTemporary(comment.id);
+  const isDeleted = !!comment.deleted_at;
+  const canEdit = !posting && !isDeleted && canModify(user, 'comment', 'update', comment);
+  const canDelete = !posting && !isDeleted && canModify(user, 'comment', 'delete', comment);
+  const canReport =
+    !posting && !isDeleted && hasPermission(user, 'content:report') && comment.user_id !== user?.id;
 
   const handleDelete = async () => {
     if (window.confirm('Are you sure you want to delete this comment?')) {
-      await dispatch(deleteComment(comment.id));
+      await deleteComment({ id: comment.id, blogId: comment.blog_id });
     }
   };
 
+  const replies = replyIds.length > 0 && (
+    <div style={depth < maxDepth ? styles.replies : undefined}>
+      <button onClick={() => setCollapsed(!collapsed)} style={styles.toggleButton}>
+        {collapsed
+          ? `Show ${replyIds.length} ${replyIds.length === 1 ? 'reply' : 'replies'}`
+          : 'Hide replies'}
+      </button>
+      {!collapsed &&
+        replyIds.map((replyId) => (
+          <CommentThreadItem
+            key={replyId}
+            blogId={comment.blog_id}
+            id={replyId}
+            depth={depth + 1}
+            maxDepth={maxDepth}
+          />
+        ))}
+    </div>
+  );
+
   if (isEditing) {
     return (
       <div style={styles.comment}>
@@ -35,55 +83,116 @@ export const CommentItem = ({ comment }: CommentItemProps) => {
           blogId={comment.blog_id}
           editingCommentId={comment.id}
           initialContent={comment.content}
-          initialFileUrl={comment.file_url}
+          initialAttachments={comment.attachments}
           onCancel={() => setIsEditing(false)}
         />
+        {replies}
       </div>
     );
   }
 
   return (
-    <div style={styles.comment}>
+    <div style={posting || saving || deleting ? { ...styles.comment, ...styles.pending } : styles.comment}>
       <div style={styles.commentHeader}>
         <div style={styles.commentMeta}>
-          <span style={styles.commentAuthor}>User {comment.user_id.substring(0, 8)}</span>
+          {isDeleted ? (
+            <span style={styles.commentAuthor}>[deleted]</span>
+          ) : (
+            <AuthorBadge userId={comment.user_id} />
+          )}
           <span style={styles.commentDate}>
             {new Date(comment.created_at).toLocaleString()}
-            {comment.updated_at !== comment.created_at && ' (edited)'}
+            {!isDeleted && comment.updated_at !== comment.created_at && ' (edited)'}
           </span>
+          {(posting || saving) && <span style={styles.pendingLabel}>{posting ? 'Posting...' : 'Saving...'}</span>}
+          {comment.hidden_at && (
+            <span style={styles.hiddenLabel}>
+              {comment.held_reason ? 'Awaiting moderator approval' : 'Hidden by a moderator'}
+            </span>
+          )}
         </div>
-        {isOwner && (
+        {(canEdit || canDelete) && (
           <div style={styles.commentActions}>
-            <button onClick={() => setIsEditing(true)} style={styles.editButton}>
-              Edit
-            </button>
-            <button onClick={handleDelete} style={styles.deleteButton}>
-              Delete
-            </button>
+            {canEdit && (
+              <button onClick={() => setIsEditing(true)} style={styles.editButton}>
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button onClick={handleDelete} disabled={deleting} style={styles.deleteButton}>
+                {deleting ? 'Deleting...' : 'Delete'}
+              </button>
+            )}
           </div>
         )}
       </div>
-      <div style={styles.commentContent}>{comment.content}</div>
-      {comment.file_url && (
-        <div style={styles.fileContainer}>
-          {comment.file_url.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
-            <img src={comment.file_url} alt="Comment attachment" style={styles.commentImage} />
-          ) : (
-            <a
-              href={comment.file_url}
-              target="_blank"
-              rel="noopener noreferrer"
-              style={styles.fileLink}
-            >
-              📎 View attached file
-            </a>
+      {isDeleted ? (
+        <div style={styles.deletedContent}>[deleted]</div>
+      ) : (
+        <div style={styles.commentContent}>{comment.content}</div>
+      )}
+      {comment.attachments.length > 0 && !isDeleted && <AttachmentList attachments={comment.attachments} />}
+      <RetryNotice
+        operation="updateComment"
+        id={comment.id}
+        message="Your edit couldn't be saved"
+        onRetry={updateComment}
+      />
+      <RetryNotice
+        operation="deleteComment"
+        id={comment.id}
+        message="The comment couldn't be deleted"
+        onRetry={deleteComment}
+      />
+      {!posting && !isDeleted && (
+        <div style={styles.commentFooter}>
+          <ReactionBar target={{ blogId: comment.blog_id, commentId: comment.id }} />
+          {isAuthenticated && !isReplying && (
+            <button onClick={() => setIsReplying(true)} style={styles.replyButton}>
+              Reply
+            </button>
           )}
+          {canReport && <ReportButton blogId={comment.blog_id} commentId={comment.id} />}
+        </div>
+      )}
+      {isReplying ? (
+        <div style={styles.replyForm}>
+          <CommentForm
+            blogId={comment.blog_id}
+            parentId={comment.id}
+            onCancel={() => setIsReplying(false)}
+          />
         </div>
+      ) : (
+        failedReplies.map((requestId) => (
+          <RetryNotice
+            key={requestId}
+            operation="createComment"
+            id={requestId}
+            message="Your reply couldn't be posted"
+            onRetry={createComment}
+          />
+        ))
       )}
+      {replies}
     </div>
   );
 };
 
+// Looks up a comment in its post's cached thread so each level of the thread
+// only re-renders when its own data changes
+export const CommentThreadItem = ({
+  blogId,
+  id,
+  ...props
+}: Omit<CommentItemProps, 'comment'> & { blogId: string; id: string }) => {
+  const { comment } = useGetCommentsQuery(blogId, {
+    selectFromResult: ({ data }) => ({ comment: data?.byId[id] }),
+  });
+  if (!comment) return null;
+  return <CommentItem comment={comment} {...props} />;
+};
+
 const styles: { [key: string]: React.CSSProperties } = {
   comment: {
     padding: '1rem',
@@ -140,19 +249,52 @@ const styles: { [key: string]: React.CSSProperties } = {
     whiteSpace: 'pre-wrap',
     marginBottom: '0.5rem',
   },
-  fileContainer: {
-    marginTop: '0.5rem',
-    padding: '0.5rem',
-    backgroundColor: '#f5f5f5',
-    borderRadius: '4px',
+  deletedContent: {
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: '0.5rem',
   },
-  commentImage: {
-    maxWidth: '100%',
-    maxHeight: '300px',
-    borderRadius: '4px',
+  pending: {
+    opacity: 0.6,
   },
-  fileLink: {
+  pendingLabel: {
+    fontSize: '0.75rem',
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  hiddenLabel: {
+    fontSize: '0.75rem',
+    color: '#856404',
+  },
+  commentFooter: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1rem',
+  },
+  replyButton: {
+    padding: '0.25rem 0',
+    backgroundColor: 'transparent',
+    color: '#666',
+    border: 'none',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  replyForm: {
+    marginTop: '0.75rem',
+  },
+  replies: {
+    marginTop: '0.75rem',
+    paddingLeft: '1rem',
+    borderLeft: '2px solid #e0e0e0',
+  },
+  toggleButton: {
+    padding: '0.25rem 0',
+    marginBottom: '0.5rem',
+    backgroundColor: 'transparent',
     color: '#333',
-    textDecoration: 'underline',
+    border: 'none',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+    cursor: 'pointer',
   },
 };
@@ -0,0 +1,56 @@
+interface DraftRestoreBannerProps {
+  savedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const DraftRestoreBanner = ({ savedAt, onRestore, onDiscard }: DraftRestoreBannerProps) => (
+  <div style={styles.banner}>
+    <span>You have unsaved changes from {new Date(savedAt).toLocaleString()}.</span>
+    <div style={styles.actions}>
+      <button type="button" onClick={onRestore} style={styles.restoreButton}>
+        Restore
+      </button>
+      <button type="button" onClick={onDiscard} style={styles.discardButton}>
+        Discard
+      </button>
+    </div>
+  </div>
+);
+
+const styles: { [key: string]: React.CSSProperties } = {
+  banner: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '1rem',
+    marginBottom: '1rem',
+    padding: '0.75rem 1rem',
+    backgroundColor: '#fff3cd',
+    color: '#856404',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+  },
+  actions: {
+    display: 'flex',
+    gap: '0.5rem',
+  },
+  restoreButton: {
+    padding: '0.25rem 0.75rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  discardButton: {
+    padding: '0.25rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#856404',
+    border: '1px solid #856404',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,222 @@
+import { ChangeEvent } from 'react';
+import { DEFAULT_IMAGE_UPLOAD_OPTIONS } from '../lib/imageUpload';
+import { GalleryItem, MAX_GALLERY_IMAGES, addGalleryFiles, moveItem } from '../lib/gallery';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface GalleryEditorProps {
+  id: string;
+  items: GalleryItem[];
+  onChange: (items: GalleryItem[]) => void;
+  onError: (error: string | null) => void; // why picked files were left out
+}
+
+const GalleryThumbnail = ({ item }: { item: GalleryItem }) => {
+  const fileUrl = useObjectUrl(item.file);
+  const src = item.image ? (item.image.thumbnail_url ?? item.image.url) : fileUrl;
+  return src ? <img src={src} alt="" style={styles.thumbnail} /> : <div style={styles.thumbnail} />;
+};
+
+// Pick, order and describe a post's images. The first one is the cover.
+export const GalleryEditor = ({ id, items, onChange, onError }: GalleryEditorProps) => {
+  const move = (from: number, to: number) => onChange(moveItem(items, from, to));
+  const { itemProps, dragging, over } = useDragReorder(move);
+
+  const update = (key: string, changes: Partial<Pick<GalleryItem, 'caption' | 'alt'>>) =>
+    onChange(items.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+
+  const remove = (key: string) => {
+    onError(null);
+    onChange(items.filter((item) => item.key !== key));
+  };
+
+  const handleFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const added = addGalleryFiles(items, Array.from(e.target.files ?? []));
+    e.target.value = ''; // picking the same file again still fires onChange
+    onError(added.rejected);
+    onChange(added.items);
+  };
+
+  return (
+    <div>
+      <input
+        type="file"
+        id={id}
+        multiple
+        accept={DEFAULT_IMAGE_UPLOAD_OPTIONS.allowedTypes.join(',')}
+        onChange={handleFiles}
+        disabled={items.length >= MAX_GALLERY_IMAGES}
+        style={styles.fileInput}
+      />
+      <p style={styles.hint}>
+        {items.length} of {MAX_GALLERY_IMAGES} images. Drag to reorder; the first image is the cover.
+      </p>
+      {items.length > 0 && (
+        <ol style={styles.list}>
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              {...itemProps(index)}
+              style={{
+                ...styles.item,
+                ...(dragging === index && styles.dragging),
+                ...(over === index && dragging !== index && styles.over),
+              }}
+            >
+              <span style={styles.handle} aria-hidden>
+                ⠿
+              </span>
+              <div style={styles.preview}>
+                <GalleryThumbnail item={item} />
+                {index === 0 && <span style={styles.cover}>Cover</span>}
+              </div>
+              <div style={styles.fields}>
+                <input
+                  type="text"
+                  value={item.caption}
+                  onChange={(e) => update(item.key, { caption: e.target.value })}
+                  placeholder="Caption (optional)"
+                  aria-label={`Caption for image ${index + 1}`}
+                  style={styles.input}
+                />
+                <input
+                  type="text"
+                  value={item.alt}
+                  onChange={(e) => update(item.key, { alt: e.target.value })}
+                  placeholder="Alt text: describe the image for screen readers"
+                  aria-label={`Alt text for image ${index + 1}`}
+                  style={styles.input}
+                />
+              </div>
+              {/* Buttons as well as dragging, for keyboards and touch screens */}
+              <div style={styles.actions}>
+                <button
+                  type="button"
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move image ${index + 1} up`}
+                  style={styles.moveButton}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === items.length - 1}
+                  aria-label={`Move image ${index + 1} down`}
+                  style={styles.moveButton}
+                >
+                  ↓
+                </button>
+                <button type="button" onClick={() => remove(item.key)} style={styles.removeButton}>
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  fileInput: {
+    width: '100%',
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+  },
+  hint: {
+    margin: '0.5rem 0',
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    backgroundColor: '#fff',
+  },
+  dragging: {
+    opacity: 0.5,
+  },
+  over: {
+    borderColor: '#1565c0',
+    backgroundColor: '#e3f2fd',
+  },
+  handle: {
+    color: '#999',
+    cursor: 'grab',
+    fontSize: '1.25rem',
+  },
+  preview: {
+    position: 'relative',
+    flexShrink: 0,
+  },
+  thumbnail: {
+    display: 'block',
+    width: '96px',
+    height: '72px',
+    objectFit: 'cover',
+    borderRadius: '4px',
+    backgroundColor: '#f5f5f5',
+  },
+  cover: {
+    position: 'absolute',
+    left: '4px',
+    bottom: '4px',
+    padding: '0 0.25rem',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    color: '#fff',
+    borderRadius: '2px',
+    fontSize: '0.75rem',
+  },
+  fields: {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+    minWidth: 0,
+  },
+  input: {
+    width: '100%',
+    padding: '0.4rem 0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.9rem',
+    boxSizing: 'border-box',
+  },
+  actions: {
+    display: 'flex',
+    gap: '0.25rem',
+  },
+  moveButton: {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#eee',
+    color: '#333',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  removeButton: {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#d32f2f',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+};
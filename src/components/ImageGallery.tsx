@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { GalleryImage } from '../lib/supabase';
+import { ProgressiveImage } from './ProgressiveImage';
+import { Lightbox } from './Lightbox';
+
+interface ImageGalleryProps {
+  images: GalleryImage[];
+  fallbackAlt: string; // for images saved without alt text, e.g. the post title
+}
+
+// A post's images: the cover, then a strip of thumbnails. Any of them opens the lightbox.
+export const ImageGallery = ({ images, fallbackAlt }: ImageGalleryProps) => {
+  const [open, setOpen] = useState<number | null>(null);
+  if (images.length === 0) return null;
+
+  const [cover, ...rest] = images;
+  const altOf = (image: GalleryImage) => image.alt || fallbackAlt;
+
+  return (
+    <div style={styles.gallery}>
+      <figure style={styles.figure}>
+        <button type="button" onClick={() => setOpen(0)} aria-label="View full size" style={styles.imageButton}>
+          <ProgressiveImage src={cover.url} placeholder={cover.placeholder} alt={altOf(cover)} style={styles.cover} />
+        </button>
+        {cover.caption && <figcaption style={styles.caption}>{cover.caption}</figcaption>}
+      </figure>
+      {rest.length > 0 && (
+        <ul style={styles.strip}>
+          {rest.map((image, i) => (
+            <li key={image.path ?? image.url}>
+              <button
+                type="button"
+                onClick={() => setOpen(i + 1)}
+                title={image.caption || undefined}
+                style={styles.thumbnailButton}
+              >
+                <img
+                  src={image.thumbnail_url ?? image.url}
+                  alt={altOf(image)}
+                  loading="lazy"
+                  style={styles.thumbnail}
+                />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {open !== null && (
+        <Lightbox
+          images={images.map((image) => ({ url: image.url, alt: altOf(image), caption: image.caption }))}
+          index={open}
+          onIndexChange={setOpen}
+          onClose={() => setOpen(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  gallery: {
+    marginBottom: '1rem',
+  },
+  figure: {
+    margin: 0,
+  },
+  imageButton: {
+    display: 'block',
+    width: '100%',
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    cursor: 'zoom-in',
+  },
+  thumbnailButton: {
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    cursor: 'zoom-in',
+  },
+  cover: {
+    width: '100%',
+    maxHeight: '400px',
+    objectFit: 'cover',
+    borderRadius: '8px',
+  },
+  caption: {
+    marginTop: '0.5rem',
+    color: '#666',
+    fontSize: '0.9rem',
+    textAlign: 'center',
+  },
+  strip: {
+    listStyle: 'none',
+    margin: '0.75rem 0 0',
+    padding: 0,
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '0.5rem',
+  },
+  thumbnail: {
+    display: 'block',
+    width: '120px',
+    height: '90px',
+    objectFit: 'cover',
+    borderRadius: '4px',
+  },
+};
@@ -0,0 +1,144 @@
+import { useEffect } from 'react';
+
+export interface LightboxImage {
+  url: string;
+  alt: string;
+  caption?: string;
+}
+
+interface LightboxProps {
+  images: LightboxImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// Full-screen carousel over a set of images. Arrow keys move between them
+// (wrapping around), Escape or a click on the backdrop closes it.
+export const Lightbox = ({ images, index, onIndexChange, onClose }: LightboxProps) => {
+  const count = images.length;
+  const image = images[index];
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') onIndexChange((index - 1 + count) % count);
+      else if (e.key === 'ArrowRight') onIndexChange((index + 1) % count);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [index, count, onIndexChange, onClose]);
+
+  // Keep the page behind from scrolling while open
+  useEffect(() => {
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  if (!image) return null;
+
+  return (
+    <div role="dialog" aria-modal="true" aria-label="Image viewer" onClick={onClose} style={styles.backdrop}>
+      <button type="button" onClick={onClose} aria-label="Close" style={styles.closeButton}>
+        ×
+      </button>
+      {count > 1 && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onIndexChange((index - 1 + count) % count);
+          }}
+          aria-label="Previous image"
+          style={{ ...styles.navButton, left: '1rem' }}
+        >
+          ‹
+        </button>
+      )}
+      <figure onClick={(e) => e.stopPropagation()} style={styles.figure}>
+        <img src={image.url} alt={image.alt} style={styles.image} />
+        <figcaption style={styles.caption}>
+          {image.caption}
+          {count > 1 && (
+            <span style={styles.counter}>
+              {index + 1} / {count}
+            </span>
+          )}
+        </figcaption>
+      </figure>
+      {count > 1 && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onIndexChange((index + 1) % count);
+          }}
+          aria-label="Next image"
+          style={{ ...styles.navButton, right: '1rem' }}
+        >
+          ›
+        </button>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    zIndex: 1000,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.9)',
+  },
+  figure: {
+    margin: 0,
+    maxWidth: '90vw',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+  },
+  image: {
+    maxWidth: '90vw',
+    maxHeight: '80vh',
+    objectFit: 'contain',
+  },
+  caption: {
+    marginTop: '0.75rem',
+    color: '#eee',
+    textAlign: 'center',
+    display: 'flex',
+    gap: '1rem',
+  },
+  counter: {
+    color: '#aaa',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: '1rem',
+    right: '1rem',
+    background: 'none',
+    border: 'none',
+    color: '#fff',
+    fontSize: '2rem',
+    cursor: 'pointer',
+  },
+  navButton: {
+    position: 'absolute',
+    top: '50%',
+    transform: 'translateY(-50%)',
+    background: 'rgba(255,255,255,0.15)',
+    border: 'none',
+    borderRadius: '50%',
+    width: '3rem',
+    height: '3rem',
+    color: '#fff',
+    fontSize: '2rem',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { renderMarkdown } from '../lib/markdown';
+
+interface MarkdownContentProps {
+  source: string;
+  style?: React.CSSProperties;
+}
+
+export const MarkdownContent = ({ source, style }: MarkdownContentProps) => {
+  // renderMarkdown sanitizes its output, so injecting it is safe
+  const html = useMemo(() => renderMarkdown(source), [source]);
+
+  return <div className="markdown-body" style={style} dangerouslySetInnerHTML={{ __html: html }} />;
+};
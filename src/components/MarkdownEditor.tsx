@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { MarkdownContent } from './MarkdownContent';
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  rows?: number;
+}
+
+type EditorMode = 'split' | 'write' | 'preview';
+
+export const MarkdownEditor = ({ id, value, onChange, required, rows = 16 }: MarkdownEditorProps) => {
+  const [mode, setMode] = useState<EditorMode>('split');
+
+  return (
+    <div style={styles.editor}>
+      <div style={styles.toolbar}>
+        {(['write', 'split', 'preview'] as EditorMode[]).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => setMode(m)}
+            style={mode === m ? { ...styles.tab, ...styles.activeTab } : styles.tab}
+          >
+            {m === 'write' ? 'Write' : m === 'split' ? 'Split' : 'Preview'}
+          </button>
+        ))}
+        <span style={styles.hint}>Markdown supported</span>
+      </div>
+      <div style={styles.panes}>
+        {mode !== 'preview' && (
+          <textarea
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            required={required}
+            rows={rows}
+            style={styles.textarea}
+          />
+        )}
+        {mode !== 'write' && (
+          <div style={styles.preview}>
+            {value.trim() ? (
+              <MarkdownContent source={value} />
+            ) : (
+              <p style={styles.empty}>Nothing to preview</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  editor: {
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    overflow: 'hidden',
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.25rem',
+    padding: '0.5rem',
+    backgroundColor: '#f5f5f5',
+    borderBottom: '1px solid #ddd',
+  },
+  tab: {
+    padding: '0.25rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: '1px solid transparent',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  activeTab: {
+    backgroundColor: '#fff',
+    borderColor: '#ddd',
+  },
+  hint: {
+    marginLeft: 'auto',
+    color: '#999',
+    fontSize: '0.75rem',
+  },
+  panes: {
+    display: 'flex',
+    minHeight: '300px',
+  },
+  textarea: {
+    flex: 1,
+    minWidth: 0,
+    padding: '0.75rem',
+    border: 'none',
+    fontSize: '1rem',
+    fontFamily: 'source-code-pro, Menlo, Monaco, Consolas, monospace',
+    resize: 'vertical',
+    boxSizing: 'border-box',
+    outline: 'none',
+  },
+  preview: {
+    flex: 1,
+    minWidth: 0,
+    padding: '0.75rem',
+    borderLeft: '1px solid #eee',
+    overflowY: 'auto',
+  },
+  empty: {
+    color: '#999',
+  },
+};
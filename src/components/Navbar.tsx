@@ -1,6 +1,9 @@
 import { Link } from 'react-router-dom';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
 import { logoutUser } from '../store/slices/authSlice';
+import { displayName } from '../store/slices/profileSlice';
+import { hasPermission } from '../lib/permissions';
+import { Avatar } from './Avatar';
 
 export const Navbar = () => {
   const { isAuthenticated, user } = useAppSelector((state) => state.auth);
@@ -22,10 +25,30 @@ export const Navbar = () => {
               <Link to="/blogs" style={styles.link}>
                 Blogs
               </Link>
-              <Link to="/blogs/create" style={styles.link}>
-                Create Blog
+              {hasPermission(user, 'blog:create') && (
+                <>
+                  <Link to="/blogs/create" style={styles.link}>
+                    Create Blog
+                  </Link>
+                  <Link to="/my-posts" style={styles.link}>
+                    My Posts
+                  </Link>
+                </>
+              )}
+              {hasPermission(user, 'content:moderate') && (
+                <Link to="/moderation" style={styles.link}>
+                  Moderation
+                </Link>
+              )}
+              <Link to="/settings" style={styles.link}>
+                Settings
               </Link>
-              <span style={styles.user}>{user?.email}</span>
+              {user && (
+                <Link to={`/users/${user.id}`} style={styles.user}>
+                  <Avatar url={user.profile?.avatar_url} name={displayName(user.profile, user.id)} size={28} />
+                  {user.profile?.display_name || user.email}
+                </Link>
+              )}
               <Link to="/logout" style={styles.link} onClick={handleLogout}>
                 Logout
               </Link>
@@ -80,7 +103,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     transition: 'background-color 0.2s',
   },
   user: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
     color: '#ccc',
     fontSize: '0.9rem',
+    textDecoration: 'none',
   },
 };
@@ -0,0 +1,60 @@
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { signInWithProvider } from '../store/slices/authSlice';
+import { ENABLED_OAUTH_PROVIDERS, OAUTH_PROVIDER_LABELS } from '../lib/oauth';
+
+interface OAuthButtonsProps {
+  next?: string; // where to go once signed in
+}
+
+// "Continue with ..." buttons for the configured OAuth providers, if any
+export const OAuthButtons = ({ next }: OAuthButtonsProps) => {
+  const dispatch = useAppDispatch();
+  const { oauth } = useAppSelector((state) => state.auth);
+
+  if (ENABLED_OAUTH_PROVIDERS.length === 0) return null;
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.divider}>or</div>
+      {ENABLED_OAUTH_PROVIDERS.map((provider) => (
+        <button
+          key={provider}
+          type="button"
+          onClick={() => dispatch(signInWithProvider({ provider, next }))}
+          disabled={oauth.pending}
+          style={styles.button}
+        >
+          Continue with {OAUTH_PROVIDER_LABELS[provider]}
+        </button>
+      ))}
+      {oauth.error && <p style={styles.error}>{oauth.error}</p>}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+    marginTop: '1rem',
+  },
+  divider: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: '0.875rem',
+  },
+  button: {
+    padding: '0.75rem',
+    backgroundColor: '#fff',
+    color: '#333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+  error: {
+    color: '#d32f2f',
+    fontSize: '0.875rem',
+  },
+};
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+
+interface ProgressiveImageProps {
+  src: string;
+  placeholder: string | null; // tiny data URL from the upload pipeline
+  alt: string;
+  style?: React.CSSProperties; // sizing of the image, also applied to the placeholder
+}
+
+// Show the blurred placeholder, at the image's aspect ratio, until the full image has loaded
+export const ProgressiveImage = ({ src, placeholder, alt, style }: ProgressiveImageProps) => {
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const loading = !!placeholder && loadedSrc !== src;
+
+  return (
+    <div style={styles.wrapper}>
+      {loading && <img src={placeholder} alt="" aria-hidden style={{ ...style, ...styles.placeholder }} />}
+      <img
+        src={src}
+        alt={alt}
+        onLoad={() => setLoadedSrc(src)}
+        style={{ ...style, ...(loading ? styles.hidden : styles.shown) }}
+      />
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  wrapper: {
+    position: 'relative',
+    overflow: 'hidden',
+  },
+  placeholder: {
+    display: 'block',
+    filter: 'blur(20px)',
+  },
+  hidden: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    height: '100%',
+    opacity: 0,
+  },
+  shown: {
+    display: 'block',
+    opacity: 1,
+    transition: 'opacity 0.3s',
+  },
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { act, screen } from '@testing-library/react';
+import { useLocation } from 'react-router-dom';
+import { ProtectedRoute } from './ProtectedRoute';
+import { AuthRedirectState, redirectTarget } from '../lib/redirect';
+import { checkSession } from '../store/slices/authSlice';
+import { renderRoutes } from '../test/utils';
+import { AUTHOR, READER } from '../test/fixtures';
+
+// Shows where Login would send the user back to
+const LoginStub = () => {
+  const location = useLocation();
+  return <p>Login page, back to {redirectTarget(location.state as AuthRedirectState | null)}</p>;
+};
+
+const routes = [
+  { path: '/login', element: <LoginStub /> },
+  {
+    path: '/blogs/create',
+    element: (
+      <ProtectedRoute role="author">
+        <p>Create form</p>
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/moderation',
+    element: (
+      <ProtectedRoute permission="content:moderate">
+        <p>Moderation queue</p>
+      </ProtectedRoute>
+    ),
+  },
+];
+
+describe('ProtectedRoute', () => {
+  it('redirects signed-out users to login, remembering the page', async () => {
+    await renderRoutes(routes, { path: '/blogs/create?from=nav' });
+
+    expect(await screen.findByText('Login page, back to /blogs/create?from=nav')).toBeInTheDocument();
+    expect(screen.queryByText('Create form')).not.toBeInTheDocument();
+  });
+
+  it('renders the page for users with the required role', async () => {
+    await renderRoutes(routes, { path: '/blogs/create', signedInAs: AUTHOR.id });
+
+    expect(screen.getByText('Create form')).toBeInTheDocument();
+  });
+
+  it('denies access without the required role', async () => {
+    await renderRoutes(routes, { path: '/blogs/create', signedInAs: READER.id });
+
+    expect(screen.getByText('Access denied')).toBeInTheDocument();
+    expect(screen.queryByText('Create form')).not.toBeInTheDocument();
+  });
+
+  it('denies access without the required permission', async () => {
+    await renderRoutes(routes, { path: '/moderation', signedInAs: AUTHOR.id });
+
+    expect(screen.getByText('Access denied')).toBeInTheDocument();
+  });
+
+  it('waits for the stored session before deciding', async () => {
+    const { store } = await renderRoutes(routes, {
+      path: '/blogs/create',
+      signedInAs: AUTHOR.id,
+      sessionChecked: false,
+    });
+
+    expect(screen.getByText('Loading...')).toBeInTheDocument();
+    expect(screen.queryByText(/Login page/)).not.toBeInTheDocument();
+
+    await act(() => store.dispatch(checkSession()));
+    expect(screen.getByText('Create form')).toBeInTheDocument();
+  });
+});
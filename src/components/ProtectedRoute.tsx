@@ -1,16 +1,58 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAppSelector } from '../store/hooks';
+import { Role } from '../lib/supabase';
+import { hasRole, hasPermission, Permission } from '../lib/permissions';
+import { AuthRedirectState } from '../lib/redirect';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  role?: Role; // minimum role, e.g. 'moderator'
+  permission?: Permission;
 }
 
-export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { isAuthenticated } = useAppSelector((state) => state.auth);
+export const ProtectedRoute = ({ children, role, permission }: ProtectedRouteProps) => {
+  const { isAuthenticated, initialized, user } = useAppSelector((state) => state.auth);
+  const location = useLocation();
+
+  // Wait for the stored session before deciding, so a reload doesn't bounce to /login
+  if (!initialized) {
+    return (
+      <div style={styles.container}>
+        <p style={styles.message}>Loading...</p>
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Login brings the user back here afterwards
+    const state: AuthRedirectState = { from: location };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  if ((role && !hasRole(user, role)) || (permission && !hasPermission(user, permission))) {
+    return (
+      <div style={styles.container}>
+        <h1 style={styles.title}>Access denied</h1>
+        <p style={styles.message}>You don't have permission to view this page.</p>
+      </div>
+    );
   }
 
   return <>{children}</>;
 };
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '800px',
+    margin: '0 auto',
+    padding: '2rem',
+    textAlign: 'center',
+  },
+  title: {
+    marginBottom: '1rem',
+    color: '#333',
+  },
+  message: {
+    color: '#666',
+  },
+};
@@ -0,0 +1,116 @@
+import { toDateTimeInput } from '../lib/blogStatus';
+
+interface PublishControlsProps {
+  scheduleAt: string; // datetime-local value
+  onScheduleAtChange: (value: string) => void;
+  busy: boolean;
+  busyLabel: string;
+  publishLabel: string;
+  onCancel: () => void;
+}
+
+// Save draft / Schedule / Publish buttons for the blog editors. Each is a
+// submit button; the form reads which one was used with getPublishIntent.
+export const PublishControls = ({
+  scheduleAt,
+  onScheduleAtChange,
+  busy,
+  busyLabel,
+  publishLabel,
+  onCancel,
+}: PublishControlsProps) => {
+  const canSchedule = !!scheduleAt && new Date(scheduleAt) > new Date();
+
+  return (
+    <div style={styles.controls}>
+      <div style={styles.schedule}>
+        <label htmlFor="publishAt" style={styles.label}>
+          Schedule for
+        </label>
+        <input
+          type="datetime-local"
+          id="publishAt"
+          value={scheduleAt}
+          min={toDateTimeInput(new Date().toISOString())}
+          onChange={(e) => onScheduleAtChange(e.target.value)}
+          style={styles.input}
+        />
+      </div>
+      <div style={styles.actions}>
+        <button type="submit" name="intent" value="publish" disabled={busy} style={styles.publishButton}>
+          {busy ? busyLabel : publishLabel}
+        </button>
+        <button
+          type="submit"
+          name="intent"
+          value="schedule"
+          disabled={busy || !canSchedule}
+          title={canSchedule ? undefined : 'Pick a future date first'}
+          style={styles.secondaryButton}
+        >
+          Schedule
+        </button>
+        <button type="submit" name="intent" value="draft" disabled={busy} style={styles.secondaryButton}>
+          Save draft
+        </button>
+        <button type="button" onClick={onCancel} style={styles.cancelButton}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  controls: {
+    marginTop: '2rem',
+  },
+  schedule: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.75rem',
+    marginBottom: '1rem',
+  },
+  label: {
+    color: '#333',
+    fontWeight: '500',
+  },
+  input: {
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.9rem',
+  },
+  actions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '1rem',
+  },
+  publishButton: {
+    padding: '0.75rem 2rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+  secondaryButton: {
+    padding: '0.75rem 1.5rem',
+    backgroundColor: '#fff',
+    color: '#333',
+    border: '1px solid #333',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+  cancelButton: {
+    padding: '0.75rem 2rem',
+    backgroundColor: '#ccc',
+    color: '#333',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+};
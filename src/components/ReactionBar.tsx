@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { toggleReaction, selectReactionCounts, selectMyReactions } from '../store/slices/reactionSlice';
+import { REACTION_TYPES, REACTION_EMOJI, ReactionTarget } from '../lib/reactions';
+
+interface ReactionBarProps {
+  target: ReactionTarget;
+  style?: React.CSSProperties;
+}
+
+export const ReactionBar = ({ target, style }: ReactionBarProps) => {
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const counts = useAppSelector((state) => selectReactionCounts(state, target));
+  const mine = useAppSelector((state) => selectMyReactions(state, target));
+  const [showAll, setShowAll] = useState(false);
+
+  // Like is always offered; other reactions show once used, or from the picker
+  const visible = REACTION_TYPES.filter(
+    (type) => showAll || type === 'like' || (counts[type] ?? 0) > 0 || mine.includes(type)
+  );
+
+  return (
+    <div style={{ ...styles.bar, ...style }}>
+      {visible.map((type) => {
+        const active = mine.includes(type);
+        return (
+          <button
+            key={type}
+            onClick={() => dispatch(toggleReaction({ target, type }))}
+            disabled={!isAuthenticated}
+            title={isAuthenticated ? type : 'Log in to react'}
+            aria-pressed={active}
+            style={{ ...styles.reaction, ...(active && styles.active) }}
+          >
+            {REACTION_EMOJI[type]} {counts[type] ?? 0}
+          </button>
+        );
+      })}
+      {isAuthenticated && visible.length < REACTION_TYPES.length && (
+        <button onClick={() => setShowAll(true)} title="More reactions" style={styles.reaction}>
+          +
+        </button>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  bar: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '0.5rem',
+  },
+  reaction: {
+    padding: '0.2rem 0.6rem',
+    backgroundColor: '#f5f5f5',
+    color: '#333',
+    border: '1px solid #e0e0e0',
+    borderRadius: '999px',
+    fontSize: '0.8rem',
+    cursor: 'pointer',
+  },
+  active: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#1565c0',
+    color: '#1565c0',
+  },
+};
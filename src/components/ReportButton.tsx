@@ -0,0 +1,113 @@
+import { useState, FormEvent } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { reportContent } from '../store/slices/moderationSlice';
+
+const REASONS = ['Spam', 'Harassment or hate', 'Inappropriate content', 'Other'];
+
+interface ReportButtonProps {
+  blogId: string;
+  commentId?: string;
+}
+
+// "Report" link that opens a small form asking for the reason
+export const ReportButton = ({ blogId, commentId }: ReportButtonProps) => {
+  const dispatch = useAppDispatch();
+  const { reporting } = useAppSelector((state) => state.moderation);
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState(REASONS[0]);
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const text = details.trim() ? `${reason}: ${details.trim()}` : reason;
+    const result = await dispatch(reportContent({ blogId, commentId, reason: text }));
+    if (reportContent.fulfilled.match(result)) {
+      setSent(true);
+      setOpen(false);
+    } else {
+      setError(result.payload as string);
+    }
+  };
+
+  if (sent) {
+    return <span style={styles.sent}>Reported, thanks</span>;
+  }
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={styles.link}>
+        Report
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={styles.form}>
+      <select value={reason} onChange={(e) => setReason(e.target.value)} style={styles.input}>
+        {REASONS.map((r) => (
+          <option key={r} value={r}>
+            {r}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        placeholder="Details (optional)"
+        maxLength={400}
+        style={styles.input}
+      />
+      <button type="submit" disabled={reporting} style={styles.submitButton}>
+        {reporting ? 'Sending...' : 'Send report'}
+      </button>
+      <button type="button" onClick={() => setOpen(false)} style={styles.link}>
+        Cancel
+      </button>
+      {error && <span style={styles.error}>{error}</span>}
+    </form>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  link: {
+    padding: '0.25rem 0',
+    backgroundColor: 'transparent',
+    color: '#666',
+    border: 'none',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  form: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '0.5rem',
+  },
+  input: {
+    padding: '0.25rem 0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+  },
+  submitButton: {
+    padding: '0.25rem 0.5rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+  },
+  sent: {
+    color: '#666',
+    fontSize: '0.75rem',
+  },
+  error: {
+    color: '#d32f2f',
+    fontSize: '0.75rem',
+  },
+};
@@ -0,0 +1,79 @@
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { Operation, OperationArgs, requestDismissed, selectRequest } from '../store/slices/requestSlice';
+
+interface RetryNoticeProps<O extends Operation> {
+  operation: O;
+  id: string;
+  message: string; // what didn't go through
+  onRetry: (arg: OperationArgs[O]) => void;
+}
+
+// Shown while the latest `operation` on `id` has failed; retrying sends it again
+// as it was, as a new request. Refused requests can only be dismissed.
+export const RetryNotice = <O extends Operation>({ operation, id, message, onRetry }: RetryNoticeProps<O>) => {
+  const dispatch = useAppDispatch();
+  const request = useAppSelector((state) => selectRequest(state, operation, id));
+  const { arg } = request;
+
+  if (request.status !== 'failed' || arg === null) return null;
+
+  const handleRetry = () => {
+    dispatch(requestDismissed({ operation, id }));
+    onRetry(arg);
+  };
+
+  return (
+    <div role="alert" style={styles.notice}>
+      <span>
+        {message}: {request.error}
+      </span>
+      <div style={styles.actions}>
+        {!request.refused && (
+          <button type="button" onClick={handleRetry} style={styles.retryButton}>
+            Retry
+          </button>
+        )}
+        <button type="button" onClick={() => dispatch(requestDismissed({ operation, id }))} style={styles.dismissButton}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  notice: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '1rem',
+    marginBottom: '0.5rem',
+    padding: '0.5rem 0.75rem',
+    backgroundColor: '#fdecea',
+    color: '#d32f2f',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+  },
+  actions: {
+    display: 'flex',
+    gap: '0.5rem',
+  },
+  retryButton: {
+    padding: '0.25rem 0.75rem',
+    backgroundColor: '#d32f2f',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  dismissButton: {
+    padding: '0.25rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#d32f2f',
+    border: '1px solid #d32f2f',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,199 @@
+import { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  fetchRevisions,
+  restoreRevision,
+  setCompare,
+  clearRevisions,
+  selectRevisionDiff,
+  CURRENT_VERSION,
+} from '../store/slices/revisionSlice';
+import { fetchProfiles } from '../store/slices/profileSlice';
+import { useGetBlogQuery } from '../store/api/blogApi';
+import { BlogRevision } from '../lib/supabase';
+import { AuthorBadge } from './AuthorBadge';
+
+interface RevisionHistoryProps {
+  blogId: string;
+  canRestore: boolean;
+}
+
+export const RevisionHistory = ({ blogId, canRestore }: RevisionHistoryProps) => {
+  const dispatch = useAppDispatch();
+  const { revisions, compare, loading, restoring, error } = useAppSelector((state) => state.revisions);
+  const { data: currentBlog } = useGetBlogQuery(blogId);
+  const diff = useAppSelector(selectRevisionDiff);
+
+  useEffect(() => {
+    dispatch(fetchRevisions(blogId));
+    return () => {
+      dispatch(clearRevisions());
+    };
+  }, [dispatch, blogId]);
+
+  useEffect(() => {
+    const editorIds = revisions.flatMap((revision) => (revision.editor_id ? [revision.editor_id] : []));
+    if (editorIds.length > 0) {
+      dispatch(fetchProfiles(editorIds));
+    }
+  }, [dispatch, revisions]);
+
+  const handleRestore = (revision: BlogRevision) => {
+    if (window.confirm('Restore this version? The current version will be kept in the history.')) {
+      dispatch(restoreRevision(revision));
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return <p style={styles.muted}>Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p style={styles.muted}>This post has not been edited yet.</p>;
+  }
+
+  // Pick the "from" (older) and "to" (newer) side of the diff per row
+  const renderCompareInputs = (versionId: string) => (
+    <>
+      <input
+        type="radio"
+        name="diff-from"
+        aria-label="Compare from"
+        checked={compare.fromId === versionId}
+        onChange={() => dispatch(setCompare({ ...compare, fromId: versionId }))}
+      />
+      <input
+        type="radio"
+        name="diff-to"
+        aria-label="Compare to"
+        checked={compare.toId === versionId}
+        onChange={() => dispatch(setCompare({ ...compare, toId: versionId }))}
+      />
+    </>
+  );
+
+  return (
+    <div>
+      {error && <p style={styles.error}>{error}</p>}
+      <ul style={styles.list}>
+        <li style={styles.row}>
+          {renderCompareInputs(CURRENT_VERSION)}
+          <span style={styles.label}>Current version</span>
+          {currentBlog && (
+            <span style={styles.muted}>{new Date(currentBlog.updated_at).toLocaleString()}</span>
+          )}
+        </li>
+        {revisions.map((revision) => (
+          <li key={revision.id} style={styles.row}>
+            {renderCompareInputs(revision.id)}
+            <span style={styles.label}>{revision.title}</span>
+            <span style={styles.muted}>replaced {new Date(revision.created_at).toLocaleString()} by</span>
+            {revision.editor_id ? (
+              <AuthorBadge userId={revision.editor_id} size={20} />
+            ) : (
+              <span style={styles.muted}>unknown</span>
+            )}
+            {canRestore && (
+              <button
+                onClick={() => handleRestore(revision)}
+                disabled={restoring}
+                style={styles.restoreButton}
+              >
+                Restore
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {diff && (
+        <div style={styles.diff}>
+          {diff.title && (
+            <div style={styles.titleDiff}>
+              <div style={styles.removed}>- {diff.title.from}</div>
+              <div style={styles.added}>+ {diff.title.to}</div>
+            </div>
+          )}
+          {diff.lines.every((line) => line.type === 'same') ? (
+            <p style={styles.muted}>No changes to the content.</p>
+          ) : (
+            <pre style={styles.lines}>
+              {diff.lines.map((line, index) => (
+                <div key={index} style={line.type === 'added' ? styles.added : line.type === 'removed' ? styles.removed : undefined}>
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  list: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 1rem',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '0.5rem',
+    padding: '0.5rem 0',
+    borderBottom: '1px solid #eee',
+    fontSize: '0.875rem',
+  },
+  label: {
+    color: '#333',
+    fontWeight: '500',
+  },
+  muted: {
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  restoreButton: {
+    marginLeft: 'auto',
+    padding: '0.25rem 0.75rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  diff: {
+    border: '1px solid #eee',
+    borderRadius: '4px',
+    overflow: 'hidden',
+  },
+  titleDiff: {
+    padding: '0.5rem 0',
+    borderBottom: '1px solid #eee',
+    fontWeight: '500',
+  },
+  lines: {
+    margin: 0,
+    padding: '0.5rem 0',
+    fontSize: '0.875rem',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+  },
+  added: {
+    padding: '0 0.75rem',
+    backgroundColor: '#e6ffed',
+    color: '#22863a',
+  },
+  removed: {
+    padding: '0 0.75rem',
+    backgroundColor: '#ffeef0',
+    color: '#b31d28',
+  },
+  error: {
+    color: '#d32f2f',
+    marginBottom: '1rem',
+  },
+};
@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom';
+import { Tag } from '../lib/supabase';
+
+interface TagChipsProps {
+  tags: Tag[];
+  style?: React.CSSProperties;
+}
+
+export const TagChips = ({ tags, style }: TagChipsProps) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <div style={{ ...styles.chips, ...style }}>
+      {tags.map((tag) => (
+        <Link key={tag.id} to={`/tags/${tag.slug}`} style={styles.chip}>
+          #{tag.name}
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  chips: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '0.5rem',
+  },
+  chip: {
+    padding: '0.125rem 0.5rem',
+    backgroundColor: '#eee',
+    color: '#333',
+    borderRadius: '12px',
+    fontSize: '0.75rem',
+    textDecoration: 'none',
+  },
+};
@@ -0,0 +1,76 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { fetchTags } from '../store/slices/blogSlice';
+
+interface TagCloudProps {
+  activeSlug?: string;
+  limit?: number;
+}
+
+// Popular tags sized by how many posts use them
+export const TagCloud = ({ activeSlug, limit = 30 }: TagCloudProps) => {
+  const dispatch = useAppDispatch();
+  const { tags } = useAppSelector((state) => state.blogs);
+
+  useEffect(() => {
+    dispatch(fetchTags());
+  }, [dispatch]);
+
+  const shown = tags.filter((tag) => tag.post_count > 0).slice(0, limit);
+  if (shown.length === 0) return null;
+
+  const max = Math.max(...shown.map((tag) => tag.post_count));
+
+  return (
+    <aside style={styles.cloud}>
+      <h2 style={styles.title}>Tags</h2>
+      <div style={styles.tags}>
+        {shown.map((tag) => (
+          <Link
+            key={tag.id}
+            to={`/tags/${tag.slug}`}
+            style={{
+              ...styles.tag,
+              ...(tag.slug === activeSlug ? styles.activeTag : {}),
+              fontSize: `${0.75 + (tag.post_count / max) * 0.5}rem`,
+            }}
+          >
+            #{tag.name} <span style={styles.count}>{tag.post_count}</span>
+          </Link>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  cloud: {
+    padding: '1.5rem',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  title: {
+    marginBottom: '1rem',
+    color: '#333',
+    fontSize: '1.1rem',
+  },
+  tags: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '0.5rem',
+  },
+  tag: {
+    color: '#333',
+    textDecoration: 'none',
+  },
+  activeTag: {
+    fontWeight: 'bold',
+    textDecoration: 'underline',
+  },
+  count: {
+    color: '#999',
+    fontSize: '0.75rem',
+  },
+};
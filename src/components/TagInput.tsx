@@ -0,0 +1,175 @@
+import { useEffect, useState, KeyboardEvent } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { fetchTags } from '../store/slices/blogSlice';
+import { normalizeTagName, slugify, MAX_TAGS_PER_POST } from '../lib/tags';
+
+interface TagInputProps {
+  id: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Chip-style tag entry with suggestions from the existing tag catalogue
+export const TagInput = ({ id, value, onChange }: TagInputProps) => {
+  const dispatch = useAppDispatch();
+  const { tags: catalogue } = useAppSelector((state) => state.blogs);
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    dispatch(fetchTags());
+  }, [dispatch]);
+
+  const selectedSlugs = value.map(slugify);
+  const inputSlug = slugify(input);
+  const suggestions = inputSlug
+    ? catalogue
+        .filter((tag) => tag.slug.includes(inputSlug) && !selectedSlugs.includes(tag.slug))
+        .slice(0, 8)
+    : [];
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name);
+    const slug = slugify(tag);
+    if (slug && !selectedSlugs.includes(slug) && value.length < MAX_TAGS_PER_POST) {
+      // Reuse the catalogue's spelling when the tag already exists
+      const existing = catalogue.find((t) => t.slug === slug);
+      onChange([...value, existing?.name ?? tag]);
+    }
+    setInput('');
+  };
+
+  const removeTag = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (input.trim()) addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value.length - 1);
+    }
+  };
+
+  return (
+    <div style={styles.wrapper}>
+      <div style={styles.field}>
+        {value.map((tag, index) => (
+          <span key={tag} style={styles.chip}>
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(index)}
+              aria-label={`Remove tag ${tag}`}
+              style={styles.removeButton}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          id={id}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (input.trim()) addTag(input);
+          }}
+          placeholder={value.length < MAX_TAGS_PER_POST ? 'Add a tag and press Enter' : ''}
+          disabled={value.length >= MAX_TAGS_PER_POST}
+          style={styles.input}
+        />
+      </div>
+      {focused && suggestions.length > 0 && (
+        <ul style={styles.suggestions}>
+          {suggestions.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // mousedown fires before the input's blur, which would add the typed text instead
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+                style={styles.suggestion}
+              >
+                #{tag.name} <span style={styles.count}>{tag.post_count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  wrapper: {
+    position: 'relative',
+  },
+  field: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '0.5rem',
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+  },
+  chip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '0.25rem',
+    padding: '0.125rem 0.5rem',
+    backgroundColor: '#eee',
+    borderRadius: '12px',
+    fontSize: '0.875rem',
+  },
+  removeButton: {
+    backgroundColor: 'transparent',
+    border: 'none',
+    color: '#666',
+    fontSize: '1rem',
+    lineHeight: 1,
+    cursor: 'pointer',
+  },
+  input: {
+    flex: 1,
+    minWidth: '150px',
+    padding: '0.25rem',
+    border: 'none',
+    fontSize: '1rem',
+    outline: 'none',
+  },
+  suggestions: {
+    position: 'absolute',
+    top: '100%',
+    left: 0,
+    right: 0,
+    zIndex: 10,
+    margin: '0.25rem 0 0',
+    padding: '0.25rem 0',
+    listStyle: 'none',
+    backgroundColor: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  suggestion: {
+    width: '100%',
+    padding: '0.5rem 0.75rem',
+    backgroundColor: 'transparent',
+    border: 'none',
+    textAlign: 'left',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  count: {
+    color: '#999',
+    fontSize: '0.75rem',
+  },
+};
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  findOrphanedUploads,
+  deleteOrphanedUploads,
+  clearOrphanedUploads,
+} from '../store/slices/storageSlice';
+import { hasRole } from '../lib/permissions';
+import { formatFileSize } from '../lib/attachments';
+
+// Storage maintenance: find uploads nothing refers to any more and delete them
+export const UnusedUploads = () => {
+  const dispatch = useAppDispatch();
+  const { user } = useAppSelector((state) => state.auth);
+  const { orphans, checked, checking, deleting, error } = useAppSelector((state) => state.storage);
+  const [allUsers, setAllUsers] = useState(false);
+  const isAdmin = hasRole(user, 'admin');
+
+  useEffect(() => {
+    dispatch(clearOrphanedUploads());
+  }, [dispatch]);
+
+  if (!user) return null;
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${orphans.length} unused ${orphans.length === 1 ? 'file' : 'files'}?`)) {
+      dispatch(deleteOrphanedUploads(orphans.map((orphan) => orphan.path)));
+    }
+  };
+
+  return (
+    <div>
+      <p style={styles.hint}>
+        Images left behind by posts and comments that were changed or deleted. Uploads from the last day
+        are not included.
+      </p>
+      <div style={styles.actions}>
+        <button
+          onClick={() => dispatch(findOrphanedUploads(allUsers ? null : user.id))}
+          disabled={checking}
+          style={styles.button}
+        >
+          {checking ? 'Checking...' : 'Check for unused uploads'}
+        </button>
+        {isAdmin && (
+          <label style={styles.checkbox}>
+            <input type="checkbox" checked={allUsers} onChange={(e) => setAllUsers(e.target.checked)} /> All
+            users
+          </label>
+        )}
+      </div>
+      {error && <p style={styles.error}>{error}</p>}
+      {checked && orphans.length === 0 && <p style={styles.hint}>No unused uploads found.</p>}
+      {orphans.length > 0 && (
+        <>
+          <ul style={styles.list}>
+            {orphans.map((orphan) => (
+              <li key={orphan.path} style={styles.item}>
+                <span style={styles.path}>{orphan.path}</span>
+                <span style={styles.meta}>
+                  {orphan.size !== null && `${formatFileSize(orphan.size)} · `}
+                  {new Date(orphan.created_at).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button onClick={handleDelete} disabled={deleting} style={styles.deleteButton}>
+            {deleting ? 'Deleting...' : `Delete ${orphans.length} unused ${orphans.length === 1 ? 'file' : 'files'}`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  hint: {
+    marginBottom: '1rem',
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1rem',
+    marginBottom: '1rem',
+  },
+  button: {
+    padding: '0.4rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  checkbox: {
+    color: '#333',
+    fontSize: '0.875rem',
+  },
+  list: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 1rem',
+    maxHeight: '300px',
+    overflowY: 'auto',
+  },
+  item: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '1rem',
+    padding: '0.4rem 0',
+    borderBottom: '1px solid #eee',
+    fontSize: '0.875rem',
+  },
+  path: {
+    color: '#333',
+    fontFamily: 'monospace',
+    wordBreak: 'break-all',
+  },
+  meta: {
+    color: '#999',
+    whiteSpace: 'nowrap',
+  },
+  deleteButton: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#d32f2f',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  error: {
+    color: '#d32f2f',
+    marginBottom: '1rem',
+  },
+};
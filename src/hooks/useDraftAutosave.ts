@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { saveDraft, loadDraft, deleteDraft, StoredDraft } from '../lib/draftStore';
+
+const AUTOSAVE_DELAY = 1000;
+
+interface DraftAutosave<T> {
+  // Draft found when the editor opened, until restored or discarded
+  savedDraft: StoredDraft<T> | null;
+  restoreDraft: () => T | null;
+  discardDraft: () => void;
+  // Call after the content was saved to the server
+  clearDraft: () => Promise<void>;
+}
+
+// Debounced autosave of editor content to IndexedDB while `dirty` is true.
+// `key` is null until the user (and blog) are known.
+export const useDraftAutosave = <T>(key: string | null, value: T, dirty: boolean): DraftAutosave<T> => {
+  const [savedDraft, setSavedDraft] = useState<StoredDraft<T> | null>(null);
+  // Don't overwrite a stored draft before the user chose to restore or discard it
+  const [checked, setChecked] = useState(false);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  useEffect(() => {
+    setSavedDraft(null);
+    setChecked(false);
+    if (!key) return;
+
+    let cancelled = false;
+    loadDraft<T>(key)
+      .then((draft) => {
+        if (cancelled) return;
+        setSavedDraft(draft);
+        setChecked(!draft);
+      })
+      .catch((error) => {
+        console.error('Error loading draft:', error);
+        if (!cancelled) setChecked(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!key || !checked || !dirty) return;
+
+    const timer = setTimeout(() => {
+      saveDraft(key, value).catch((error) => console.error('Error saving draft:', error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [key, value, dirty, checked]);
+
+  const restoreDraft = useCallback(() => {
+    const data = savedDraft?.data ?? null;
+    setSavedDraft(null);
+    setChecked(true);
+    return data;
+  }, [savedDraft]);
+
+  const discardDraft = useCallback(() => {
+    setSavedDraft(null);
+    setChecked(true);
+    if (keyRef.current) {
+      deleteDraft(keyRef.current).catch((error) => console.error('Error deleting draft:', error));
+    }
+  }, []);
+
+  const clearDraft = useCallback(async () => {
+    // Stop a pending autosave from writing the draft back, then resume for
+    // editors that stay open (e.g. the comment form)
+    setChecked(false);
+    if (keyRef.current) {
+      await deleteDraft(keyRef.current).catch((error) => console.error('Error deleting draft:', error));
+    }
+    setSavedDraft(null);
+    setChecked(true);
+  }, []);
+
+  return { savedDraft, restoreDraft, discardDraft, clearDraft };
+};
@@ -0,0 +1,38 @@
+import { DragEvent, useState } from 'react';
+
+// Reorder a list by dragging its items (HTML5 drag and drop). Spread
+// `itemProps(index)` on each item; `onMove(from, to)` is called on drop.
+export const useDragReorder = (onMove: (from: number, to: number) => void) => {
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [over, setOver] = useState<number | null>(null);
+
+  const reset = () => {
+    setDragging(null);
+    setOver(null);
+  };
+
+  const itemProps = (index: number) => ({
+    draggable: true,
+    onDragStart: (e: DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      // Firefox doesn't start a drag without data
+      e.dataTransfer.setData('text/plain', String(index));
+      setDragging(index);
+    },
+    onDragOver: (e: DragEvent) => {
+      if (dragging === null) return; // files dragged in from outside
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setOver(index);
+    },
+    onDrop: (e: DragEvent) => {
+      if (dragging === null) return;
+      e.preventDefault();
+      onMove(dragging, index);
+      reset();
+    },
+    onDragEnd: reset,
+  });
+
+  return { itemProps, dragging, over };
+};
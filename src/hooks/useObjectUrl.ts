@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// A URL for previewing a picked file, revoked when the file changes or the component unmounts
+export const useObjectUrl = (file: File | null) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+};
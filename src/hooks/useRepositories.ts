@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { Repositories } from '../lib/repositories/types';
+
+// The repositories the store's thunks use, for components that reach storage
+// directly (uploads happen before the thunk that saves them). Provided in main.tsx.
+export const RepositoriesContext = createContext<Repositories | null>(null);
+
+export const useRepositories = () => {
+  const repositories = useContext(RepositoriesContext);
+  if (!repositories) throw new Error('useRepositories must be used inside RepositoriesContext.Provider');
+  return repositories;
+};
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { clearSessionExpired } from '../store/slices/authSlice';
+import { AuthRedirectState } from '../lib/redirect';
+
+// Send the user to log in again when their session ends under them, with
+// the page they were on so Login can bring them back to it
+export const useSessionExpiryRedirect = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const sessionExpired = useAppSelector((state) => state.auth.sessionExpired);
+
+  useEffect(() => {
+    if (!sessionExpired) return;
+    dispatch(clearSessionExpired());
+    if (location.pathname !== '/login') {
+      const state: AuthRedirectState = { from: location, sessionExpired: true };
+      navigate('/login', { state });
+    }
+  }, [dispatch, navigate, location, sessionExpired]);
+};
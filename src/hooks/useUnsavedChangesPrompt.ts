@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+const MESSAGE = 'You have unsaved changes. Leave this page anyway?';
+
+// Warn before closing the tab while there are unsaved changes
+export const useBeforeUnload = (dirty: boolean) => {
+  useEffect(() => {
+    if (!dirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+};
+
+// Also confirm in-app navigation. Only one blocker may be active per router,
+// so this is for page-level editors. Returns `allowNavigation`, to call right
+// before navigating away after a successful save.
+export const useUnsavedChangesPrompt = (dirty: boolean) => {
+  const dirtyRef = useRef(dirty);
+  dirtyRef.current = dirty;
+
+  useBeforeUnload(dirty);
+
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      dirtyRef.current && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+    if (window.confirm(MESSAGE)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker]);
+
+  return useCallback(() => {
+    dirtyRef.current = false;
+  }, []);
+};
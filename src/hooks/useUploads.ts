@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+import { StorageRepository } from '../lib/repositories/types';
+import { useRepositories } from './useRepositories';
+
+type Upload<T> = (
+  storage: StorageRepository,
+  file: File,
+  folder: string,
+  onProgress: (fraction: number) => void
+) => Promise<T>;
+
+// Upload state for a form that uploads several picked files when it is saved.
+// Files go one at a time, so progress reads "Uploading 2 of 3 (45%)...".
+export const useUploads = <T>(upload: Upload<T>) => {
+  const { storage } = useRepositories();
+  const [progress, setProgress] = useState<{ index: number; count: number; fraction: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves to the results in file order, or null when an upload failed and
+  // `error` says why. Files uploaded before the failure are left for
+  // find_orphaned_uploads, like any upload whose form was never saved.
+  const uploadAll = useCallback(
+    async (files: File[], folder: string): Promise<T[] | null> => {
+      setError(null);
+      const results: T[] = [];
+      try {
+        for (const [index, file] of files.entries()) {
+          setProgress({ index, count: files.length, fraction: 0 });
+          results.push(
+            await upload(storage, file, folder, (fraction) => setProgress({ index, count: files.length, fraction }))
+          );
+        }
+        return results;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        setError(files.length > 1 ? `${files[results.length].name}: ${message}` : message);
+        return null;
+      } finally {
+        setProgress(null);
+      }
+    },
+    [upload, storage]
+  );
+
+  const percent = `${Math.round((progress?.fraction ?? 0) * 100)}%`;
+
+  return {
+    uploadAll,
+    setError,
+    clearError: () => setError(null),
+    uploading: progress !== null,
+    progressLabel:
+      progress && progress.count > 1
+        ? `Uploading ${progress.index + 1} of ${progress.count} (${percent})...`
+        : `Uploading ${percent}...`,
+    error,
+  };
+};
@@ -0,0 +1,153 @@
+import { CommentAttachment } from './supabase';
+import {
+  COMMENT_IMAGE_UPLOAD_OPTIONS,
+  uniqueName,
+  uploadImage,
+  validateImage,
+} from './imageUpload';
+import { StorageRepository } from './repositories/types';
+
+// Files attached to comments. Images are processed like any other upload
+// (resized, metadata stripped); other documents are stored as picked.
+
+export const MAX_ATTACHMENTS = 5;
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const DOCUMENT_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+// For the file input's accept attribute. Extensions too, as some systems
+// don't report a MIME type for .md or .csv files.
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  ...COMMENT_IMAGE_UPLOAD_OPTIONS.allowedTypes,
+  ...DOCUMENT_TYPES,
+  '.md',
+  '.csv',
+].join(',');
+
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  md: 'text/markdown',
+  csv: 'text/csv',
+  txt: 'text/plain',
+};
+
+// MIME type of a picked file, guessed from its extension when the browser doesn't say
+const typeOf = (file: File) =>
+  file.type || TYPES_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() ?? ''] || '';
+
+export const isImageAttachment = (attachment: Pick<CommentAttachment, 'type'>) =>
+  attachment.type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Why a picked file can't be attached, or null when it can
+export const validateAttachment = (file: File): string | null => {
+  const type = typeOf(file);
+  if (COMMENT_IMAGE_UPLOAD_OPTIONS.allowedTypes.includes(type)) {
+    return validateImage(file, COMMENT_IMAGE_UPLOAD_OPTIONS);
+  }
+  if (!DOCUMENT_TYPES.includes(type)) {
+    return 'Attach images, PDFs, text, CSV, Markdown, ZIP or Office documents.';
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `Files must be smaller than ${formatFileSize(ATTACHMENT_MAX_BYTES)}.`;
+  }
+  return null;
+};
+
+export const attachmentIcon = (type: string) => {
+  if (type.startsWith('image/')) return '🖼️';
+  if (type === 'application/pdf') return '📕';
+  if (type === 'application/zip') return '🗜️';
+  if (type.includes('spreadsheet') || type.includes('excel') || type === 'text/csv') return '📊';
+  if (type.includes('presentation') || type.includes('powerpoint')) return '📽️';
+  if (type.startsWith('text/') || type.includes('word')) return '📝';
+  return '📎';
+};
+
+// Object names keep the original name readable, without characters storage rejects
+const safeName = (name: string) => name.replace(/[^A-Za-z0-9._-]+/g, '_').slice(-80);
+
+// Validate and upload one file under `folder`
+export const uploadAttachment = async (
+  storage: StorageRepository,
+  file: File,
+  folder: string,
+  onProgress: (fraction: number) => void
+): Promise<CommentAttachment> => {
+  const invalid = validateAttachment(file);
+  if (invalid) throw new Error(invalid);
+
+  const type = typeOf(file);
+  if (COMMENT_IMAGE_UPLOAD_OPTIONS.allowedTypes.includes(type)) {
+    const uploaded = await uploadImage(storage, file, folder, { options: COMMENT_IMAGE_UPLOAD_OPTIONS, onProgress });
+    return { url: uploaded.url, path: uploaded.path, name: file.name, size: uploaded.size, type: uploaded.type };
+  }
+
+  const path = `${folder}/${uniqueName()}-${safeName(file.name)}`;
+  const blob = file.type ? file : new Blob([file], { type });
+  onProgress(0);
+  const url = await storage.upload(path, blob, (loaded) => onProgress(file.size > 0 ? loaded / file.size : 1));
+  return { url, path, name: file.name, size: file.size, type };
+};
+
+// A comment's attachments as edited in a form: ones already saved and files
+// picked but not uploaded yet
+export interface AttachmentItem {
+  key: string;
+  attachment: CommentAttachment | null;
+  file: File | null;
+}
+
+let nextKey = 0;
+const newKey = () => `${Date.now()}-${nextKey++}`;
+
+export const attachmentItemsFrom = (attachments: CommentAttachment[]): AttachmentItem[] =>
+  attachments.map((attachment) => ({ key: newKey(), attachment, file: null }));
+
+// Add picked files after the existing items, up to MAX_ATTACHMENTS.
+// Returns the new list and why any files were left out.
+export const addAttachmentFiles = (items: AttachmentItem[], files: File[]) => {
+  const accepted: AttachmentItem[] = [];
+  let rejected: string | null = null;
+  for (const file of files) {
+    const invalid = validateAttachment(file);
+    if (invalid) {
+      rejected = `${file.name}: ${invalid}`;
+    } else if (items.length + accepted.length >= MAX_ATTACHMENTS) {
+      rejected = `A comment can have at most ${MAX_ATTACHMENTS} attachments.`;
+    } else {
+      accepted.push({ key: newKey(), attachment: null, file });
+    }
+  }
+  return { items: [...items, ...accepted], rejected };
+};
+
+// The attachments to save: `uploaded` holds the uploads of the picked files, in item order
+export const buildAttachments = (items: AttachmentItem[], uploaded: CommentAttachment[]) => {
+  const uploads = [...uploaded];
+  return items.flatMap((item) => {
+    if (item.attachment) return [item.attachment];
+    const upload = uploads.shift();
+    return upload ? [upload] : [];
+  });
+};
+
+export const attachmentsChanged = (items: AttachmentItem[], attachments: CommentAttachment[]) =>
+  items.length !== attachments.length ||
+  items.some((item, i) => item.file !== null || item.attachment?.path !== attachments[i].path);
@@ -0,0 +1,38 @@
+import type { BlogFilters, BlogSort } from './repositories/types';
+
+// BlogList keeps its search, filters and page in the URL query string so
+// results can be shared and survive a reload.
+
+const SORTS: BlogSort[] = ['relevance', 'newest', 'oldest', 'most_commented', 'most_liked'];
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface BlogListQuery extends BlogFilters {
+  page: number;
+}
+
+export const parseBlogListQuery = (params: URLSearchParams): BlogListQuery => {
+  const sort = params.get('sort') as BlogSort | null;
+  const from = params.get('from');
+  const to = params.get('to');
+  const page = Number(params.get('page'));
+
+  return {
+    search: params.get('q') || undefined,
+    userId: params.get('author') || undefined,
+    from: from && DATE.test(from) ? from : undefined,
+    to: to && DATE.test(to) ? to : undefined,
+    sort: sort && SORTS.includes(sort) ? sort : undefined,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+};
+
+export const toBlogListParams = (query: BlogListQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.userId) params.set('author', query.userId);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.page > 1) params.set('page', String(query.page));
+  return params;
+};
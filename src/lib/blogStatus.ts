@@ -0,0 +1,41 @@
+import type { FormEvent } from 'react';
+import { Blog, BlogStatus } from './supabase';
+
+export const BLOG_STATUSES: BlogStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+export const STATUS_LABELS: Record<BlogStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+// Statuses that make a post public once its publish_at has passed.
+// A scheduled post goes live on its own without a status change.
+export const LIVE_STATUSES: BlogStatus[] = ['published', 'scheduled'];
+
+export const isLive = (blog: Pick<Blog, 'status' | 'publish_at'>, now = new Date()) =>
+  LIVE_STATUSES.includes(blog.status) && !!blog.publish_at && new Date(blog.publish_at) <= now;
+
+// Status as readers see it: a scheduled post whose time has come is published
+export const effectiveStatus = (blog: Pick<Blog, 'status' | 'publish_at'>): BlogStatus =>
+  blog.status === 'scheduled' && isLive(blog) ? 'published' : blog.status;
+
+// The editor action buttons, one per way of saving a post
+export type PublishIntent = 'draft' | 'schedule' | 'publish';
+
+export const getPublishIntent = (e: FormEvent): PublishIntent => {
+  const submitter = (e.nativeEvent as SubmitEvent).submitter;
+  const intent = submitter?.getAttribute('value');
+  return intent === 'draft' || intent === 'schedule' ? intent : 'publish';
+};
+
+// ISO timestamp <-> value of an <input type="datetime-local"> in local time
+export const toDateTimeInput = (iso: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().substring(0, 16);
+};
+
+export const fromDateTimeInput = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
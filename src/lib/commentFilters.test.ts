@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blockedWordsRule,
+  createCommentFilters,
+  DEFAULT_COMMENT_FILTER_CONFIG,
+  FilterContext,
+  linkLimitRule,
+  parseBlockedWords,
+  rateLimitRule,
+  RecentComment,
+  repeatedMessageRule,
+  runCommentFilters,
+} from './commentFilters';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000).toISOString();
+
+const recent = (id: string, content: string, seconds: number): RecentComment => ({
+  id,
+  content,
+  created_at: secondsAgo(seconds),
+});
+
+const context = (recentComments: RecentComment[] = []): FilterContext => ({ now, recentComments });
+
+describe('commentFilters', () => {
+  describe('parseBlockedWords', () => {
+    it('reads the comma-separated VITE_BLOCKED_WORDS list', () => {
+      expect(parseBlockedWords(' spam, scam ,,')).toEqual(['spam', 'scam']);
+    });
+
+    it('is empty when the variable is not set', () => {
+      expect(parseBlockedWords(undefined)).toEqual([]);
+    });
+  });
+
+  describe('blockedWordsRule', () => {
+    const rule = blockedWordsRule(parseBlockedWords('spam,scam'));
+
+    it('rejects whole blocked words in any case', () => {
+      expect(rule({ content: 'Buy SPAM now' }, context())).toMatchObject({ action: 'reject' });
+      expect(rule({ content: 'Total scam.' }, context())).toMatchObject({ action: 'reject' });
+    });
+
+    it('passes words that only contain a blocked one', () => {
+      expect(rule({ content: 'Spammer tactics' }, context())).toEqual({ action: 'pass' });
+    });
+
+    it('passes everything when no words are blocked', () => {
+      expect(blockedWordsRule(parseBlockedWords(''))({ content: 'spam' }, context())).toEqual({ action: 'pass' });
+    });
+  });
+
+  describe('linkLimitRule', () => {
+    const rule = linkLimitRule(2);
+
+    it('holds comments with too many links', () => {
+      const content = 'https://a.example www.b.example http://c.example';
+      expect(rule({ content }, context())).toEqual({
+        action: 'hold',
+        reason: 'Comments can contain at most 2 links.',
+      });
+    });
+
+    it('passes comments up to the limit', () => {
+      expect(rule({ content: 'https://a.example and https://b.example' }, context())).toEqual({ action: 'pass' });
+    });
+  });
+
+  describe('repeatedMessageRule', () => {
+    const rule = repeatedMessageRule(10 * 60_000);
+
+    it('rejects the same text posted again within the window, ignoring case and spacing', () => {
+      expect(rule({ content: 'Great  post!' }, context([recent('1', 'great post!', 60)]))).toMatchObject({
+        action: 'reject',
+      });
+    });
+
+    it('passes text last posted before the window', () => {
+      expect(rule({ content: 'Great post!' }, context([recent('1', 'Great post!', 11 * 60)]))).toEqual({
+        action: 'pass',
+      });
+    });
+
+    it('does not compare an edited comment with itself', () => {
+      expect(rule({ content: 'Great post!', commentId: '1' }, context([recent('1', 'Great post!', 60)]))).toEqual({
+        action: 'pass',
+      });
+    });
+  });
+
+  describe('rateLimitRule', () => {
+    const rule = rateLimitRule(2);
+    const lastMinute = [recent('1', 'One', 10), recent('2', 'Two', 30)];
+
+    it('rejects new comments past the limit per minute', () => {
+      expect(rule({ content: 'Three' }, context(lastMinute))).toMatchObject({ action: 'reject' });
+    });
+
+    it('only counts the last minute', () => {
+      expect(rule({ content: 'Three' }, context([recent('1', 'One', 10), recent('2', 'Two', 61)]))).toEqual({
+        action: 'pass',
+      });
+    });
+
+    it('lets edits through', () => {
+      expect(rule({ content: 'Edited', commentId: '1' }, context(lastMinute))).toEqual({ action: 'pass' });
+    });
+  });
+
+  describe('runCommentFilters', () => {
+    const hold = () => ({ action: 'hold' as const, reason: 'held' });
+    const reject = () => ({ action: 'reject' as const, reason: 'rejected' });
+    const pass = () => ({ action: 'pass' as const });
+
+    it('lets a rejection win over a hold', () => {
+      expect(runCommentFilters([hold, reject], { content: '' }, context())).toEqual(reject());
+    });
+
+    it('returns the first hold when nothing rejects', () => {
+      expect(runCommentFilters([pass, hold], { content: '' }, context())).toEqual(hold());
+    });
+
+    it('passes when every rule does', () => {
+      expect(runCommentFilters([pass, pass], { content: '' }, context())).toEqual({ action: 'pass' });
+    });
+  });
+
+  describe('createCommentFilters', () => {
+    const { rules, lookbackMs } = createCommentFilters({ ...DEFAULT_COMMENT_FILTER_CONFIG, blockedWords: ['spam'] });
+
+    it('runs the configured rules together', () => {
+      expect(runCommentFilters(rules, { content: 'Nice post' }, context())).toEqual({ action: 'pass' });
+      expect(runCommentFilters(rules, { content: 'spam' }, context())).toMatchObject({ action: 'reject' });
+    });
+
+    it('looks back far enough for the repeat window and the rate limit', () => {
+      expect(lookbackMs).toBe(DEFAULT_COMMENT_FILTER_CONFIG.repeatWindowMs);
+      expect(createCommentFilters({ ...DEFAULT_COMMENT_FILTER_CONFIG, repeatWindowMs: 1000 }).lookbackMs).toBe(60_000);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+// Content filters run on every new or edited comment before it is saved.
+// Rules are plain functions of the comment and the author's recent comments,
+// so they can be tested without Supabase.
+
+export type FilterOutcome =
+  | { action: 'pass' }
+  | { action: 'reject'; reason: string } // shown to the author, nothing is saved
+  | { action: 'hold'; reason: string }; // saved, but hidden until a moderator approves it
+
+export interface CommentSubmission {
+  content: string;
+  commentId?: string | null; // set when editing
+}
+
+export interface RecentComment {
+  id: string;
+  content: string;
+  created_at: string;
+}
+
+export interface FilterContext {
+  now: Date;
+  recentComments: RecentComment[]; // the author's own comments within `lookbackMs`
+}
+
+export type CommentFilterRule = (submission: CommentSubmission, context: FilterContext) => FilterOutcome;
+
+const PASS: FilterOutcome = { action: 'pass' };
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+export const linkLimitRule =
+  (maxLinks: number, action: 'reject' | 'hold' = 'hold'): CommentFilterRule =>
+  ({ content }) => {
+    const links = content.match(URL_PATTERN)?.length ?? 0;
+    return links > maxLinks
+      ? { action, reason: `Comments can contain at most ${maxLinks} ${maxLinks === 1 ? 'link' : 'links'}.` }
+      : PASS;
+  };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match against the blocked list
+export const blockedWordsRule = (words: string[], action: 'reject' | 'hold' = 'reject'): CommentFilterRule => {
+  const list = words.map((word) => word.trim()).filter(Boolean);
+  if (list.length === 0) return () => PASS;
+  const pattern = new RegExp(`\\b(${list.map(escapeRegExp).join('|')})\\b`, 'i');
+  return ({ content }) =>
+    pattern.test(content) ? { action, reason: 'Your comment contains language that is not allowed.' } : PASS;
+};
+
+const normalize = (content: string) => content.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// The same text posted again within `windowMs`
+export const repeatedMessageRule =
+  (windowMs: number, action: 'reject' | 'hold' = 'reject'): CommentFilterRule =>
+  ({ content, commentId }, { now, recentComments }) => {
+    const text = normalize(content);
+    const repeated = recentComments.some(
+      (comment) =>
+        comment.id !== commentId &&
+        now.getTime() - new Date(comment.created_at).getTime() <= windowMs &&
+        normalize(comment.content) === text
+    );
+    return repeated ? { action, reason: 'You already posted this comment.' } : PASS;
+  };
+
+// At most `max` new comments per minute; edits don't count
+export const rateLimitRule =
+  (max: number): CommentFilterRule =>
+  ({ commentId }, { now, recentComments }) => {
+    if (commentId) return PASS;
+    const lastMinute = recentComments.filter(
+      (comment) => now.getTime() - new Date(comment.created_at).getTime() < 60_000
+    );
+    return lastMinute.length >= max
+      ? { action: 'reject', reason: `You can post at most ${max} comments per minute. Please wait a moment.` }
+      : PASS;
+  };
+
+// Run every rule. A rejection wins over a hold; otherwise the first hold is returned.
+export const runCommentFilters = (
+  rules: CommentFilterRule[],
+  submission: CommentSubmission,
+  context: FilterContext
+): FilterOutcome => {
+  const outcomes = rules.map((rule) => rule(submission, context));
+  return (
+    outcomes.find((outcome) => outcome.action === 'reject') ??
+    outcomes.find((outcome) => outcome.action === 'hold') ??
+    PASS
+  );
+};
+
+export interface CommentFilterConfig {
+  maxLinks: number;
+  blockedWords: string[];
+  repeatWindowMs: number;
+  maxPerMinute: number;
+}
+
+// VITE_BLOCKED_WORDS is a comma-separated list
+export const parseBlockedWords = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean);
+
+export const DEFAULT_COMMENT_FILTER_CONFIG: CommentFilterConfig = {
+  maxLinks: 2,
+  blockedWords: [],
+  repeatWindowMs: 10 * 60_000,
+  maxPerMinute: 5,
+};
+
+export const createCommentFilters = (config: CommentFilterConfig) => ({
+  rules: [
+    rateLimitRule(config.maxPerMinute),
+    repeatedMessageRule(config.repeatWindowMs),
+    blockedWordsRule(config.blockedWords),
+    linkLimitRule(config.maxLinks),
+  ],
+  // How far back the author's comments are needed
+  lookbackMs: Math.max(config.repeatWindowMs, 60_000),
+});
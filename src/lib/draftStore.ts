@@ -0,0 +1,71 @@
+// Local drafts of unsaved editor content, kept in IndexedDB so they survive
+// a closed tab or an expired session. Values may contain Files (images and
+// attachments picked but not uploaded yet).
+
+import { GalleryItem } from './gallery';
+import { AttachmentItem } from './attachments';
+
+const DB_NAME = 'blog-app';
+const STORE = 'drafts';
+
+export interface StoredDraft<T> {
+  data: T;
+  savedAt: string;
+}
+
+export interface BlogDraft {
+  title: string;
+  content: string;
+  tags: string[];
+  gallery: GalleryItem[]; // missing in drafts saved before galleries
+}
+
+export interface CommentDraft {
+  content: string;
+  attachments: AttachmentItem[]; // missing in drafts saved before multiple attachments
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<R> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as R);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Keys are scoped per user so drafts never leak between accounts on one browser
+export const blogDraftKey = (userId: string, blogId: string | null) =>
+  `${userId}:blog:${blogId ?? 'new'}`;
+
+export const commentDraftKey = (userId: string, blogId: string, target: string) =>
+  `${userId}:comment:${blogId}:${target}`;
+
+export const saveDraft = <T>(key: string, data: T) =>
+  run<IDBValidKey>('readwrite', (store) =>
+    store.put({ data, savedAt: new Date().toISOString() } satisfies StoredDraft<T>, key)
+  );
+
+export const loadDraft = async <T>(key: string): Promise<StoredDraft<T> | null> =>
+  (await run<StoredDraft<T> | undefined>('readonly', (store) => store.get(key))) ?? null;
+
+export const deleteDraft = (key: string) => run<undefined>('readwrite', (store) => store.delete(key));
@@ -0,0 +1,102 @@
+import { GalleryImage } from './supabase';
+import { DEFAULT_IMAGE_UPLOAD_OPTIONS, UploadedImage, uploadImage, validateImage } from './imageUpload';
+import { StorageRepository } from './repositories/types';
+
+// A post's gallery as edited in a form: images already uploaded and files
+// picked but not uploaded yet, in display order. The first one is the cover.
+
+export const MAX_GALLERY_IMAGES = 10;
+
+export interface GalleryItem {
+  key: string; // stable React key while reordering
+  image: GalleryImage | null; // already uploaded
+  file: File | null; // picked, uploaded when the form is saved
+  caption: string;
+  alt: string;
+}
+
+let nextKey = 0;
+const newKey = () => `${Date.now()}-${nextKey++}`;
+
+export const galleryItemsFrom = (gallery: GalleryImage[]): GalleryItem[] =>
+  gallery.map((image) => ({ key: newKey(), image, file: null, caption: image.caption, alt: image.alt }));
+
+export const newGalleryItem = (file: File): GalleryItem => ({
+  key: newKey(),
+  image: null,
+  file,
+  caption: '',
+  alt: '',
+});
+
+// Add picked files after the existing items, up to MAX_GALLERY_IMAGES.
+// Returns the new list and why any files were left out.
+export const addGalleryFiles = (items: GalleryItem[], files: File[]) => {
+  const accepted: GalleryItem[] = [];
+  let rejected: string | null = null;
+  for (const file of files) {
+    const invalid = validateImage(file, DEFAULT_IMAGE_UPLOAD_OPTIONS);
+    if (invalid) {
+      rejected = `${file.name}: ${invalid}`;
+    } else if (items.length + accepted.length >= MAX_GALLERY_IMAGES) {
+      rejected = `A post can have at most ${MAX_GALLERY_IMAGES} images.`;
+    } else {
+      accepted.push(newGalleryItem(file));
+    }
+  }
+  return { items: [...items, ...accepted], rejected };
+};
+
+// Move the item at `from` so it ends up at index `to`
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(Math.max(0, Math.min(to, moved.length)), 0, item);
+  return moved;
+};
+
+// Whether the edited items differ from the saved gallery (order, files or text)
+export const galleryChanged = (items: GalleryItem[], gallery: GalleryImage[]) =>
+  items.length !== gallery.length ||
+  items.some(
+    (item, i) =>
+      item.file !== null ||
+      item.image?.path !== gallery[i].path ||
+      item.caption !== gallery[i].caption ||
+      item.alt !== gallery[i].alt
+  );
+
+export const galleryImageFromUpload = (uploaded: UploadedImage, caption = '', alt = ''): GalleryImage => ({
+  url: uploaded.url,
+  thumbnail_url: uploaded.thumbnailUrl,
+  placeholder: uploaded.placeholder,
+  path: uploaded.path,
+  thumbnail_path: uploaded.thumbnailPath,
+  caption,
+  alt,
+});
+
+// The gallery to save: `uploaded` holds the uploads of the picked files, in item order
+export const buildGallery = (items: GalleryItem[], uploaded: UploadedImage[]): GalleryImage[] => {
+  const uploads = [...uploaded];
+  return items.flatMap((item) => {
+    const caption = item.caption.trim();
+    const alt = item.alt.trim();
+    if (item.image) return [{ ...item.image, caption, alt }];
+    const upload = uploads.shift();
+    return upload ? [galleryImageFromUpload(upload, caption, alt)] : [];
+  });
+};
+
+// Storage paths of a gallery's images and thumbnails
+export const galleryPaths = (gallery: GalleryImage[]) =>
+  gallery.flatMap((image) => [image.path, image.thumbnail_path]);
+
+// Gallery images get a thumbnail, for the thumbnail strip and the blog list
+export const uploadGalleryImage = (
+  storage: StorageRepository,
+  file: File,
+  folder: string,
+  onProgress: (fraction: number) => void
+) => uploadImage(storage, file, folder, { options: DEFAULT_IMAGE_UPLOAD_OPTIONS, onProgress });
@@ -0,0 +1,208 @@
+import { StorageRepository } from './repositories/types';
+
+// Every upload goes through here: the picked file is checked, decoded and
+// redrawn on a canvas (which drops EXIF/GPS metadata), scaled down, encoded
+// as WebP and sent to storage with progress reports.
+
+export const IMAGE_BUCKET = 'blog-images';
+
+export interface ImageUploadOptions {
+  allowedTypes: string[];
+  maxBytes: number; // of the picked file, before processing
+  maxWidth: number;
+  maxHeight: number;
+  quality: number; // WebP quality, 0-1
+  thumbnail: { width: number; height: number } | null; // bounding box, or no thumbnail
+}
+
+export const DEFAULT_IMAGE_UPLOAD_OPTIONS: ImageUploadOptions = {
+  // Animated GIFs are uploaded as their first frame
+  allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  maxBytes: 20 * 1024 * 1024,
+  maxWidth: 1920,
+  maxHeight: 1920,
+  quality: 0.82,
+  thumbnail: { width: 480, height: 480 },
+};
+
+export const COMMENT_IMAGE_UPLOAD_OPTIONS: ImageUploadOptions = {
+  ...DEFAULT_IMAGE_UPLOAD_OPTIONS,
+  maxWidth: 1280,
+  maxHeight: 1280,
+  thumbnail: null,
+};
+
+export const AVATAR_UPLOAD_OPTIONS: ImageUploadOptions = {
+  ...DEFAULT_IMAGE_UPLOAD_OPTIONS,
+  maxWidth: 256,
+  maxHeight: 256,
+  thumbnail: null,
+};
+
+// Width of the placeholder shown while the full image loads
+const PLACEHOLDER_WIDTH = 16;
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob | null;
+  placeholder: string; // tiny data URL, drawn blurred and stretched
+  width: number;
+  height: number;
+}
+
+export interface UploadedImage {
+  url: string;
+  path: string;
+  size: number; // bytes of the processed image
+  type: string; // its MIME type, WebP unless the browser can't encode it
+  thumbnailUrl: string | null;
+  thumbnailPath: string | null;
+  placeholder: string;
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Why a picked file can't be uploaded, or null when it can
+export const validateImage = (
+  file: File,
+  options: ImageUploadOptions = DEFAULT_IMAGE_UPLOAD_OPTIONS
+): string | null => {
+  if (!options.allowedTypes.includes(file.type)) {
+    return 'Please choose a JPEG, PNG, WebP or GIF image.';
+  }
+  if (file.size > options.maxBytes) {
+    return `Images must be smaller than ${formatMegabytes(options.maxBytes)}.`;
+  }
+  return null;
+};
+
+// Scale factor that fits width x height inside the box without enlarging
+export const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const drawScaled = (bitmap: ImageBitmap, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Your browser could not process this image.');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+// WebP, or JPEG in browsers that can't encode WebP
+const encode = async (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+  const webp = await canvasToBlob(canvas, 'image/webp', quality);
+  if (webp?.type === 'image/webp') return webp;
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality);
+  if (!jpeg) {
+    throw new Error('Your browser could not process this image.');
+  }
+  return jpeg;
+};
+
+export const processImage = async (
+  file: File,
+  options: ImageUploadOptions = DEFAULT_IMAGE_UPLOAD_OPTIONS
+): Promise<ProcessedImage> => {
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF orientation before the metadata is dropped
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('This file could not be read as an image.');
+  }
+
+  try {
+    const size = fitWithin(bitmap.width, bitmap.height, options.maxWidth, options.maxHeight);
+    const image = await encode(drawScaled(bitmap, size.width, size.height), options.quality);
+
+    let thumbnail: Blob | null = null;
+    if (options.thumbnail) {
+      const thumbSize = fitWithin(bitmap.width, bitmap.height, options.thumbnail.width, options.thumbnail.height);
+      thumbnail = await encode(drawScaled(bitmap, thumbSize.width, thumbSize.height), options.quality);
+    }
+
+    const placeholderSize = fitWithin(bitmap.width, bitmap.height, PLACEHOLDER_WIDTH, PLACEHOLDER_WIDTH);
+    const placeholder = drawScaled(bitmap, placeholderSize.width, placeholderSize.height).toDataURL(
+      'image/webp',
+      0.5
+    );
+
+    return { image, thumbnail, placeholder, ...size };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Delete uploaded objects, e.g. an image that was replaced. Best effort: the
+// change that made them unused has already been saved, and whatever is left
+// behind shows up in find_orphaned_uploads.
+export const deleteUploads = async (storage: StorageRepository, paths: (string | null | undefined)[]) => {
+  const existing = paths.filter((path): path is string => !!path);
+  if (existing.length === 0) return;
+
+  try {
+    await storage.remove(existing);
+  } catch (error) {
+    console.warn('Could not delete unused uploads:', error instanceof Error ? error.message : error);
+  }
+};
+
+const extensionFor = (blob: Blob) => (blob.type === 'image/webp' ? 'webp' : 'jpg');
+
+// Unique object name within a folder; several files may be uploaded in the same millisecond
+export const uniqueName = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Validate, process and upload an image under `folder` (e.g. the user's id).
+// onProgress gets the fraction of bytes sent, across the image and its thumbnail.
+export const uploadImage = async (
+  storage: StorageRepository,
+  file: File,
+  folder: string,
+  {
+    options = DEFAULT_IMAGE_UPLOAD_OPTIONS,
+    onProgress,
+  }: { options?: ImageUploadOptions; onProgress?: (fraction: number) => void } = {}
+): Promise<UploadedImage> => {
+  const invalid = validateImage(file, options);
+  if (invalid) throw new Error(invalid);
+
+  const { image, thumbnail, placeholder } = await processImage(file, options);
+
+  const total = image.size + (thumbnail?.size ?? 0);
+  const sent = { image: 0, thumbnail: 0 };
+  const report = () => onProgress?.(total > 0 ? (sent.image + sent.thumbnail) / total : 1);
+  onProgress?.(0);
+
+  const base = `${folder}/${uniqueName()}`;
+  const path = `${base}.${extensionFor(image)}`;
+  const thumbnailPath = thumbnail ? `${base}-thumb.${extensionFor(thumbnail)}` : null;
+
+  const [url, thumbnailUrl] = await Promise.all([
+    storage.upload(path, image, (loaded) => {
+      sent.image = loaded;
+      report();
+    }),
+    thumbnail && thumbnailPath
+      ? storage.upload(thumbnailPath, thumbnail, (loaded) => {
+          sent.thumbnail = loaded;
+          report();
+        })
+      : null,
+  ]);
+
+  return { url, path, size: image.size, type: image.type, thumbnailUrl, thumbnailPath, placeholder };
+};
@@ -0,0 +1,33 @@
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// CommonMark + GFM (tables, fenced code, strikethrough, autolinks)
+const markdown = new Marked({ gfm: true, breaks: false, async: false });
+
+// Open external links in a new tab without giving the target access to window.opener
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')?.startsWith('http')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+// Render Markdown to HTML that is safe to inject into the page.
+// Scripts, event handlers and javascript: URLs are stripped by DOMPurify.
+export const renderMarkdown = (source: string): string => {
+  const html = markdown.parse(source, { async: false });
+  return DOMPurify.sanitize(html, { USE_PROFILES: { html: true } });
+};
+
+// Plain text of the rendered Markdown, used for excerpts and previews
+export const markdownToPlainText = (source: string): string => {
+  // Separate block elements so "# Title\n\nBody" becomes "Title Body", not "TitleBody"
+  const html = renderMarkdown(source).replace(/<\/(p|h[1-6]|li|pre|blockquote|tr|td|th)>/g, '$& ');
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+export const markdownExcerpt = (source: string, length = 150): string => {
+  const text = markdownToPlainText(source);
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+};
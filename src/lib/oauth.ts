@@ -0,0 +1,20 @@
+// OAuth sign-in providers. Which ones are offered comes from configuration,
+// e.g. VITE_OAUTH_PROVIDERS=github,google; dev environments can leave it empty.
+
+export type OAuthProvider = 'github' | 'google';
+
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  github: 'GitHub',
+  google: 'Google',
+};
+
+const isOAuthProvider = (name: string): name is OAuthProvider => name in OAUTH_PROVIDER_LABELS;
+
+export const ENABLED_OAUTH_PROVIDERS: OAuthProvider[] = (import.meta.env.VITE_OAUTH_PROVIDERS ?? '')
+  .split(',')
+  .map((name) => name.trim().toLowerCase())
+  .filter(isOAuthProvider);
+
+// Where the provider sends the user back to; `next` is where to go from there
+export const oauthCallbackUrl = (next?: string) =>
+  `${window.location.origin}/auth/callback${next ? `?next=${encodeURIComponent(next)}` : ''}`;
@@ -0,0 +1,58 @@
+import { Role, User } from './supabase';
+
+export const ROLES: Role[] = ['reader', 'author', 'moderator', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  reader: 'Reader',
+  author: 'Author',
+  moderator: 'Moderator',
+  admin: 'Admin',
+};
+
+// `:own` permissions apply to the user's own posts or comments, `:any` to everyone's
+export type Permission =
+  | 'content:report'
+  | 'content:moderate'
+  | 'comment:create'
+  | 'comment:update:own'
+  | 'comment:delete:own'
+  | 'comment:update:any'
+  | 'comment:delete:any'
+  | 'blog:create'
+  | 'blog:update:own'
+  | 'blog:delete:own'
+  | 'blog:update:any'
+  | 'blog:delete:any';
+
+// Each role also has every permission of the roles before it in ROLES.
+// The database policies in supabase/migrations enforce the same rules.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  reader: ['content:report', 'comment:create', 'comment:update:own', 'comment:delete:own'],
+  author: ['blog:create', 'blog:update:own', 'blog:delete:own'],
+  moderator: ['content:moderate', 'comment:update:any', 'comment:delete:any'],
+  admin: ['blog:update:any', 'blog:delete:any'],
+};
+
+export const hasRole = (user: Pick<User, 'role'> | null, required: Role) =>
+  !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+
+export const hasPermission = (user: Pick<User, 'role'> | null, permission: Permission) =>
+  !!user &&
+  ROLES.slice(0, ROLES.indexOf(user.role) + 1).some((role) => ROLE_PERMISSIONS[role].includes(permission));
+
+// Hidden content stays visible to its author and to moderators
+export const canSeeHidden = (user: Pick<User, 'id' | 'role'> | null, resource: { user_id: string }) =>
+  !!user && (resource.user_id === user.id || hasPermission(user, 'content:moderate'));
+
+type Action = 'update' | 'delete';
+
+// Whether the user may update/delete a specific post or comment
+export const canModify = (
+  user: Pick<User, 'id' | 'role'> | null,
+  kind: 'blog' | 'comment',
+  action: Action,
+  resource: { user_id: string }
+) =>
+  !!user &&
+  (hasPermission(user, `${kind}:${action}:any`) ||
+    (resource.user_id === user.id && hasPermission(user, `${kind}:${action}:own`)));
@@ -0,0 +1,20 @@
+import { ReactionType } from './supabase';
+
+export const REACTION_TYPES: ReactionType[] = ['like', 'love', 'laugh', 'celebrate', 'sad'];
+
+export const REACTION_EMOJI: Record<ReactionType, string> = {
+  like: '👍',
+  love: '❤️',
+  laugh: '😂',
+  celebrate: '🎉',
+  sad: '😢',
+};
+
+// What a reaction is attached to: a post, or one of its comments
+export interface ReactionTarget {
+  blogId: string;
+  commentId?: string | null;
+}
+
+export const reactionTargetKey = ({ blogId, commentId }: ReactionTarget) =>
+  commentId ? `comment:${commentId}` : `blog:${blogId}`;
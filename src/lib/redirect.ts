@@ -0,0 +1,37 @@
+import { Location } from 'react-router-dom';
+
+// Where Login and Register go when there is nowhere to return to
+export const DEFAULT_REDIRECT = '/blogs';
+
+// Navigation state Login and Register receive from ProtectedRoute and
+// useSessionExpiryRedirect
+export interface AuthRedirectState {
+  from?: Pick<Location, 'pathname' | 'search' | 'hash'>;
+  sessionExpired?: boolean;
+}
+
+// Pages that would send a freshly logged-in user straight back to auth
+const AUTH_PATHS = ['/login', '/register', '/logout', '/auth/callback', '/reset-password'];
+
+// Only follow paths within this app. Absolute URLs and protocol-relative ones
+// such as "//evil.example" or "/\evil.example" fall back to the default.
+export const safeRedirectPath = (path: unknown, fallback = DEFAULT_REDIRECT): string => {
+  if (typeof path !== 'string' || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return fallback;
+  }
+  try {
+    const url = new URL(path, window.location.origin);
+    if (url.origin !== window.location.origin || AUTH_PATHS.includes(url.pathname)) {
+      return fallback;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return fallback;
+  }
+};
+
+// The page to return to after logging in, from the navigation state
+export const redirectTarget = (state: unknown): string => {
+  const from = (state as AuthRedirectState | null)?.from;
+  return safeRedirectPath(from && `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`);
+};
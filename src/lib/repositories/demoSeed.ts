@@ -0,0 +1,67 @@
+import { MemorySeed } from './memory';
+
+// Data for running the app without a Supabase project. Log in as
+// admin@example.com, author@example.com or reader@example.com, password "password".
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+export const DEMO_SEED: MemorySeed = {
+  users: [
+    { id: 'demo-admin', email: 'admin@example.com', password: 'password', role: 'admin', profile: { display_name: 'Ada Admin' } },
+    { id: 'demo-author', email: 'author@example.com', password: 'password', role: 'author', profile: { display_name: 'Alex Author' } },
+    { id: 'demo-reader', email: 'reader@example.com', password: 'password', role: 'reader', profile: { display_name: 'Riley Reader' } },
+  ],
+  blogs: [
+    {
+      id: 'demo-blog-1',
+      title: 'Welcome to the demo',
+      content:
+        'This blog is running without a backend: posts, comments and accounts live in memory and are reset on reload.\n\nLog in with one of the demo accounts to write posts and comments.',
+      user_id: 'demo-admin',
+      tags: ['Meta'],
+      created_at: daysAgo(3),
+    },
+    {
+      id: 'demo-blog-2',
+      title: 'Getting started with Redux Toolkit',
+      content:
+        'Slices keep a piece of state together with the reducers that update it, and createAsyncThunk handles the pending, fulfilled and rejected states of a request.',
+      user_id: 'demo-author',
+      tags: ['Redux', 'React'],
+      created_at: daysAgo(2),
+    },
+    {
+      id: 'demo-blog-3',
+      title: 'Notes on React hooks',
+      content: 'Effects synchronise a component with something outside React; most state derived from props needs no effect at all.',
+      user_id: 'demo-author',
+      tags: ['React'],
+      created_at: daysAgo(1),
+    },
+    {
+      id: 'demo-blog-4',
+      title: 'An unfinished draft',
+      content: 'Only its author sees this one, on their dashboard.',
+      user_id: 'demo-author',
+      status: 'draft',
+      created_at: daysAgo(1),
+    },
+  ],
+  comments: [
+    {
+      id: 'demo-comment-1',
+      blog_id: 'demo-blog-2',
+      user_id: 'demo-reader',
+      content: 'Thanks, this cleared up thunks for me.',
+      created_at: daysAgo(1),
+    },
+    {
+      id: 'demo-comment-2',
+      blog_id: 'demo-blog-2',
+      user_id: 'demo-author',
+      parent_id: 'demo-comment-1',
+      content: 'Glad it helped!',
+      created_at: daysAgo(0.5),
+    },
+  ],
+};
@@ -0,0 +1,936 @@
+import { AuthChangeEvent, Session, User as AuthUser, UserIdentity } from '@supabase/supabase-js';
+import {
+  Blog,
+  BlogRevision,
+  Comment,
+  GalleryImage,
+  ModerationAction,
+  OrphanedUpload,
+  Profile,
+  Reaction,
+  ReactionCount,
+  ReactionType,
+  Report,
+  Role,
+  Tag,
+} from '../supabase';
+import { isLive } from '../blogStatus';
+import { canModify, canSeeHidden, hasRole } from '../permissions';
+import { ReactionTarget } from '../reactions';
+import {
+  AuthRepository,
+  BlogFilters,
+  BlogRepository,
+  CommentChangeHandlers,
+  CommentRepository,
+  ModerationRepository,
+  NewTag,
+  ProfileRepository,
+  ReactionRepository,
+  Repositories,
+  RevisionRepository,
+  StorageRepository,
+} from './types';
+
+// Repositories over plain in-memory data, for tests and for running the app
+// without a Supabase project. They follow the database's rules: row-level
+// security (what each user may see and change), the triggers (cover image,
+// comment and like counts, revisions), the moderation functions and the
+// messages Supabase fails with. Nothing is
+// persisted; every call to createMemoryRepositories starts from the seed.
+
+export interface MemoryUser {
+  id: string;
+  email: string;
+  password: string;
+  role: Role;
+  profile?: Partial<Profile>;
+}
+
+export interface MemorySeed {
+  users?: MemoryUser[];
+  // Missing columns get their defaults; tags are given by name
+  blogs?: (Partial<Omit<Blog, 'tags'>> & Pick<Blog, 'id' | 'title' | 'user_id'> & { tags?: string[] })[];
+  comments?: (Partial<Comment> & Pick<Comment, 'id' | 'blog_id' | 'user_id' | 'content'>)[];
+  signedInAs?: string; // user id with a session from the start
+}
+
+export interface MemoryOptions {
+  now?: () => Date; // the clock, e.g. to test scheduled posts or rate limits
+}
+
+// What Supabase reports in the same situations
+export const MEMORY_ERRORS = {
+  notFound: 'Cannot coerce the result to a single JSON object',
+  rowLevelSecurity: (table: string) => `new row violates row-level security policy for table "${table}"`,
+  invalidCredentials: 'Invalid login credentials',
+  userExists: 'User already registered',
+  noSession: 'Auth session missing!',
+  objectExists: 'The resource already exists',
+  duplicate: (constraint: string) => `duplicate key value violates unique constraint "${constraint}"`,
+};
+
+type StoredBlog = Omit<Blog, 'tags'>;
+
+interface StoredObject {
+  blob: Blob;
+  owner: string | null;
+  created_at: string;
+}
+
+const searchTerms = (search: string) => search.toLowerCase().split(/\s+/).filter(Boolean);
+
+const occurrences = (text: string, term: string) => text.toLowerCase().split(term).length - 1;
+
+// Stand-in for ts_rank: every term must match, title matches count double
+const searchRank = (blog: StoredBlog, terms: string[]) => {
+  const counts = terms.map((term) => 2 * occurrences(blog.title, term) + occurrences(blog.content, term));
+  return counts.every((count) => count > 0) ? counts.reduce((sum, count) => sum + count, 0) : 0;
+};
+
+const withCover = (blog: StoredBlog): StoredBlog => {
+  const cover: GalleryImage | undefined = blog.gallery[0];
+  return {
+    ...blog,
+    image_url: cover?.url ?? null,
+    thumbnail_url: cover?.thumbnail_url ?? null,
+    image_placeholder: cover?.placeholder ?? null,
+    image_path: cover?.path ?? null,
+    thumbnail_path: cover?.thumbnail_path ?? null,
+  };
+};
+
+// Delete the rows matching `predicate`, in place
+const removeWhere = <T>(rows: T[], predicate: (row: T) => boolean) => {
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (predicate(rows[i])) rows.splice(i, 1);
+  }
+};
+
+// Unnamed profiles last, as with `nulls last`
+const byDisplayName = (a: Profile, b: Profile) =>
+  Number(a.display_name === null) - Number(b.display_name === null) ||
+  (a.display_name ?? '').localeCompare(b.display_name ?? '');
+
+// Owner of an object under <user id>/, comments/<user id>/ or avatars/<user id>/
+const ownerFromPath = (path: string) => {
+  const parts = path.split('/');
+  return parts[0] === 'comments' || parts[0] === 'avatars' ? parts[1] : parts[0];
+};
+
+export const createMemoryRepositories = (seed: MemorySeed = {}, { now = () => new Date() }: MemoryOptions = {}): Repositories => {
+  const timestamp = () => now().toISOString();
+  const newId = () => crypto.randomUUID();
+
+  const users = (seed.users ?? []).map((user) => ({ ...user }));
+  const tags: Tag[] = [];
+  const blogTags: { blog_id: string; tag_id: string }[] = [];
+  const revisions: BlogRevision[] = [];
+  const reactions: Reaction[] = [];
+  const reports: Report[] = [];
+  const moderationActions: ModerationAction[] = [];
+  const objects = new Map<string, StoredObject>();
+
+  const blogs = new Map<string, StoredBlog>();
+  const comments = new Map<string, Comment>();
+
+  let sessionUser: MemoryUser | null = users.find((user) => user.id === seed.signedInAs) ?? null;
+
+  const authListeners = new Set<(event: AuthChangeEvent, session: Session | null) => void>();
+  const blogListeners = new Set<(blog: Blog) => void>();
+  const commentListeners = new Set<{ blogId: string; handlers: CommentChangeHandlers }>();
+
+  // Realtime events arrive after the change's own response, as they do from Supabase
+  const later = (notify: () => void) => setTimeout(notify, 0);
+
+  const currentUser = () =>
+    sessionUser ? { id: sessionUser.id, role: sessionUser.role } : null;
+
+  const requireSession = () => {
+    if (!sessionUser) throw new Error(MEMORY_ERRORS.noSession);
+    return sessionUser;
+  };
+
+  // Tags
+
+  const tagsOf = (blogId: string) =>
+    blogTags
+      .filter((link) => link.blog_id === blogId)
+      .map((link) => tags.find((tag) => tag.id === link.tag_id))
+      .filter((tag): tag is Tag => !!tag);
+
+  const saveTags = (blogId: string, newTags: NewTag[]) => {
+    removeWhere(blogTags, (link) => link.blog_id === blogId);
+    for (const { slug, name } of newTags) {
+      // Existing tags keep their original name
+      let tag = tags.find((t) => t.slug === slug);
+      if (!tag) {
+        tag = { id: newId(), slug, name };
+        tags.push(tag);
+      }
+      blogTags.push({ blog_id: blogId, tag_id: tag.id });
+    }
+  };
+
+  // Blogs
+
+  const withTags = (blog: StoredBlog): Blog => ({ ...blog, tags: tagsOf(blog.id) });
+
+  // The select policies: live posts are public, authors see their own, and
+  // moderators see everything; hidden posts only their author and moderators
+  const canSeeBlog = (blog: StoredBlog) => {
+    const user = currentUser();
+    const canSeeUnlisted = canSeeHidden(user, blog);
+    return (isLive(blog, now()) || canSeeUnlisted) && (!blog.hidden_at || canSeeUnlisted);
+  };
+
+  const getBlog = (id: string) => {
+    const blog = blogs.get(id);
+    if (!blog || !canSeeBlog(blog)) throw new Error(MEMORY_ERRORS.notFound);
+    return withTags(blog);
+  };
+
+  const dateOf = (blog: StoredBlog, filters: BlogFilters) =>
+    (filters.statuses ? blog.created_at : blog.publish_at) ?? '';
+
+  const matchesFilters = (blog: StoredBlog, filters: BlogFilters) => {
+    if (filters.statuses) {
+      if (!filters.statuses.includes(blog.status)) return false;
+    } else if (!isLive(blog, now()) || blog.hidden_at) {
+      return false;
+    }
+    const date = dateOf(blog, filters);
+    if (filters.tag && !tagsOf(blog.id).some((tag) => tag.slug === filters.tag)) return false;
+    if (filters.userId && blog.user_id !== filters.userId) return false;
+    if (filters.from && date < new Date(`${filters.from}T00:00:00`).toISOString()) return false;
+    if (filters.to && date > new Date(`${filters.to}T23:59:59.999`).toISOString()) return false;
+    return true;
+  };
+
+  // Its tags, revisions, comments, reactions and reports go with it, as with the foreign keys' cascades
+  const deleteBlog = (id: string) => {
+    blogs.delete(id);
+    removeWhere(blogTags, (link) => link.blog_id === id);
+    removeWhere(revisions, (revision) => revision.blog_id === id);
+    removeWhere(reactions, (reaction) => reaction.blog_id === id);
+    removeWhere(reports, (report) => report.blog_id === id);
+    [...comments.values()].filter((comment) => comment.blog_id === id).forEach((comment) => comments.delete(comment.id));
+  };
+
+  const notifyIfPublished = (blog: StoredBlog, before: StoredBlog | null) => {
+    if (isLive(blog, now()) && !(before && isLive(before, now()))) {
+      const published = withTags(blog);
+      later(() => blogListeners.forEach((listener) => listener(published)));
+    }
+  };
+
+  const blogRepository: BlogRepository = {
+    list: async ({ page, limit, ...filters }) => {
+      const terms = searchTerms(filters.search ?? '');
+      const byDateDesc = (a: StoredBlog, b: StoredBlog) => dateOf(b, filters).localeCompare(dateOf(a, filters));
+
+      let matches = [...blogs.values()].filter((blog) => canSeeBlog(blog) && matchesFilters(blog, filters));
+      if (terms.length > 0) {
+        const ranks = new Map(matches.map((blog) => [blog.id, searchRank(blog, terms)]));
+        matches = matches
+          .filter((blog) => ranks.get(blog.id)! > 0)
+          .sort((a, b) => ranks.get(b.id)! - ranks.get(a.id)! || b.created_at.localeCompare(a.created_at));
+      }
+
+      switch (filters.sort) {
+        case 'oldest':
+          matches.sort((a, b) => byDateDesc(b, a));
+          break;
+        case 'most_commented':
+          matches.sort((a, b) => b.comment_count - a.comment_count || byDateDesc(a, b));
+          break;
+        case 'most_liked':
+          matches.sort((a, b) => b.like_count - a.like_count || byDateDesc(a, b));
+          break;
+        case 'relevance':
+          if (terms.length === 0) matches.sort(byDateDesc);
+          break;
+        default:
+          matches.sort(byDateDesc);
+      }
+
+      const from = (page - 1) * limit;
+      return { blogs: matches.slice(from, from + limit).map(withTags), total: matches.length };
+    },
+
+    get: async (id) => getBlog(id),
+
+    listTags: async () =>
+      tags
+        .map((tag) => ({
+          ...tag,
+          post_count: blogTags.filter((link) => {
+            const blog = blogs.get(link.blog_id);
+            return link.tag_id === tag.id && !!blog && isLive(blog, now());
+          }).length,
+        }))
+        .sort((a, b) => b.post_count - a.post_count || a.name.localeCompare(b.name)),
+
+    create: async (input, newTags) => {
+      const user = currentUser();
+      if (!user || user.id !== input.user_id || !hasRole(user, 'author')) {
+        throw new Error(MEMORY_ERRORS.rowLevelSecurity('blogs'));
+      }
+
+      const created = timestamp();
+      const blog = withCover({
+        ...input,
+        id: newId(),
+        image_url: null,
+        thumbnail_url: null,
+        image_placeholder: null,
+        image_path: null,
+        thumbnail_path: null,
+        comment_count: 0,
+        like_count: 0,
+        hidden_at: null,
+        created_at: created,
+        updated_at: created,
+      });
+      blogs.set(blog.id, blog);
+      saveTags(blog.id, newTags);
+      notifyIfPublished(blog, null);
+      return getBlog(blog.id);
+    },
+
+    update: async (id, changes, newTags) => {
+      const before = blogs.get(id);
+      // Like an update filtered by row-level security, a blog the user may not change is left as it is
+      if (before && canModify(currentUser(), 'blog', 'update', before)) {
+        const blog = withCover({ ...before, ...changes });
+        blogs.set(id, blog);
+        if (
+          blog.title !== before.title ||
+          blog.content !== before.content ||
+          JSON.stringify(blog.gallery) !== JSON.stringify(before.gallery)
+        ) {
+          revisions.push({
+            id: newId(),
+            blog_id: id,
+            editor_id: currentUser()?.id ?? null,
+            title: before.title,
+            content: before.content,
+            gallery: before.gallery,
+            image_url: before.image_url,
+            thumbnail_url: before.thumbnail_url,
+            image_placeholder: before.image_placeholder,
+            image_path: before.image_path,
+            thumbnail_path: before.thumbnail_path,
+            image_deleted: false,
+            created_at: timestamp(),
+          });
+        }
+        if (newTags) saveTags(id, newTags);
+        notifyIfPublished(blog, before);
+      }
+      return getBlog(id);
+    },
+
+    remove: async (id) => {
+      const blog = blogs.get(id);
+      if (blog && canModify(currentUser(), 'blog', 'delete', blog)) deleteBlog(id);
+    },
+
+    galleries: async (id) => ({
+      current: getBlog(id).gallery,
+      revisions: revisions.filter((revision) => revision.blog_id === id).map((revision) => revision.gallery),
+    }),
+
+    subscribeToNewBlogs: (onPublished) => {
+      blogListeners.add(onPublished);
+      return () => {
+        blogListeners.delete(onPublished);
+      };
+    },
+  };
+
+  // Comments
+
+  const notifyComment = (blogId: string, notify: (handlers: CommentChangeHandlers) => void) =>
+    later(() =>
+      commentListeners.forEach((listener) => {
+        if (listener.blogId === blogId) notify(listener.handlers);
+      })
+    );
+
+  const canSeeComment = (comment: Comment) => !comment.hidden_at || canSeeHidden(currentUser(), comment);
+
+  const getComment = (id: string) => {
+    const comment = comments.get(id);
+    if (!comment || !canSeeComment(comment)) throw new Error(MEMORY_ERRORS.notFound);
+    return comment;
+  };
+
+  const adjustCommentCount = (blogId: string, delta: number) => {
+    const blog = blogs.get(blogId);
+    if (blog) blogs.set(blogId, { ...blog, comment_count: blog.comment_count + delta });
+  };
+
+  const saveComment = (comment: Comment) => {
+    comments.set(comment.id, comment);
+    notifyComment(comment.blog_id, (handlers) => handlers.onUpsert(comment));
+  };
+
+  // Replies, reactions and reports go with their comment, as with the foreign keys' cascades
+  const deleteThread = (comment: Comment) => {
+    [...comments.values()].filter((reply) => reply.parent_id === comment.id).forEach(deleteThread);
+    comments.delete(comment.id);
+    removeWhere(reactions, (reaction) => reaction.comment_id === comment.id);
+    removeWhere(reports, (report) => report.comment_id === comment.id);
+    adjustCommentCount(comment.blog_id, -1);
+    notifyComment(comment.blog_id, (handlers) => handlers.onDelete(comment.id));
+  };
+
+  const commentRepository: CommentRepository = {
+    list: async (blogId, { userId, canSeeAllHidden }) =>
+      [...comments.values()]
+        .filter(
+          (comment) =>
+            comment.blog_id === blogId &&
+            (!comment.hidden_at || canSeeAllHidden || (!!userId && comment.user_id === userId))
+        )
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+
+    get: async (id) => getComment(id),
+
+    recentByUser: async (userId, since) =>
+      [...comments.values()]
+        .filter((comment) => comment.user_id === userId && comment.created_at >= since)
+        .map(({ id, content, created_at }) => ({ id, content, created_at })),
+
+    attachments: async (id) => getComment(id).attachments,
+
+    countReplies: async (id) => [...comments.values()].filter((comment) => comment.parent_id === id).length,
+
+    create: async (input) => {
+      if (!sessionUser || sessionUser.id !== input.user_id || !blogs.has(input.blog_id)) {
+        throw new Error(MEMORY_ERRORS.rowLevelSecurity('comments'));
+      }
+
+      const created = timestamp();
+      const comment: Comment = { ...input, id: newId(), deleted_at: null, created_at: created, updated_at: created };
+      saveComment(comment);
+      adjustCommentCount(comment.blog_id, 1);
+      return comment;
+    },
+
+    update: async (id, changes) => {
+      const before = comments.get(id);
+      // The update matches no row the user may change, so .single() finds nothing
+      if (!before || !canModify(currentUser(), 'comment', 'update', before)) {
+        throw new Error(MEMORY_ERRORS.notFound);
+      }
+
+      const comment: Comment = { ...before, ...changes };
+      // A deleted comment's placeholder keeps no attachments
+      if (comment.deleted_at) comment.attachments = [];
+      saveComment(comment);
+      return getComment(id);
+    },
+
+    remove: async (id) => {
+      const comment = comments.get(id);
+      if (comment && canModify(currentUser(), 'comment', 'delete', comment)) deleteThread(comment);
+    },
+
+    subscribe: (blogId, handlers) => {
+      const listener = { blogId, handlers };
+      commentListeners.add(listener);
+      return () => {
+        commentListeners.delete(listener);
+      };
+    },
+  };
+
+  // Auth
+
+  const authUserFor = (user: MemoryUser): AuthUser => ({
+    id: user.id,
+    email: user.email,
+    aud: 'authenticated',
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: {},
+    created_at: user.profile?.created_at ?? timestamp(),
+  });
+
+  const sessionFor = (user: MemoryUser): Session => ({
+    access_token: `memory-${user.id}`,
+    refresh_token: `memory-${user.id}`,
+    expires_in: 3600,
+    expires_at: Math.floor(now().getTime() / 1000) + 3600,
+    token_type: 'bearer',
+    user: authUserFor(user),
+  });
+
+  // The user's profile row, null when they have none yet
+  const profileOf = (user: MemoryUser): Profile | null =>
+    user.profile
+      ? {
+          id: user.id,
+          display_name: null,
+          bio: null,
+          avatar_url: null,
+          avatar_path: null,
+          created_at: timestamp(),
+          updated_at: timestamp(),
+          ...user.profile,
+        }
+      : null;
+
+  const emitAuth = (event: AuthChangeEvent) => {
+    const session = sessionUser ? sessionFor(sessionUser) : null;
+    later(() => authListeners.forEach((listener) => listener(event, session)));
+  };
+
+  const identityFor = (user: MemoryUser): UserIdentity => ({
+    id: user.id,
+    user_id: user.id,
+    identity_id: `${user.id}-email`,
+    provider: 'email',
+    identity_data: { email: user.email },
+  });
+
+  const notAvailable = async () => {
+    throw new Error('Not available without a Supabase project');
+  };
+
+  const authRepository: AuthRepository = {
+    getSession: async () => (sessionUser ? sessionFor(sessionUser) : null),
+
+    loadUser: async (authUser) => {
+      const user = users.find((u) => u.id === authUser.id);
+      return {
+        id: authUser.id,
+        email: authUser.email ?? '',
+        role: user?.role ?? 'reader',
+        profile: user ? profileOf(user) : null,
+      };
+    },
+
+    // New accounts get an empty profile and the author role, as from
+    // handle_new_user, and are signed in straight away, as with email
+    // confirmation off
+    signUp: async (email, password) => {
+      if (users.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+        throw new Error(MEMORY_ERRORS.userExists);
+      }
+      const user: MemoryUser = { id: newId(), email, password, role: 'author', profile: {} };
+      users.push(user);
+      sessionUser = user;
+      emitAuth('SIGNED_IN');
+      return { user: authUserFor(user), session: sessionFor(user) };
+    },
+
+    signIn: async (email, password) => {
+      const user = users.find((u) => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
+      if (!user) throw new Error(MEMORY_ERRORS.invalidCredentials);
+      sessionUser = user;
+      emitAuth('SIGNED_IN');
+      return { user: authUserFor(user), session: sessionFor(user) };
+    },
+
+    signOut: async () => {
+      sessionUser = null;
+      emitAuth('SIGNED_OUT');
+    },
+
+    // No email is sent, but an unknown address isn't reported either
+    sendPasswordReset: async () => {},
+
+    sendMagicLink: async (email) => {
+      if (!users.some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+        throw new Error('Signups not allowed for otp');
+      }
+    },
+
+    // Changes straight away instead of after a confirmation link
+    updateEmail: async (email) => {
+      requireSession().email = email;
+      emitAuth('USER_UPDATED');
+    },
+
+    updatePassword: async (password) => {
+      requireSession().password = password;
+      emitAuth('USER_UPDATED');
+    },
+
+    signInWithProvider: notAvailable,
+
+    identities: async () => [identityFor(requireSession())],
+
+    linkIdentity: notAvailable,
+
+    unlinkIdentity: async () => {
+      requireSession();
+      throw new Error('User must have at least 1 identity after unlinking');
+    },
+
+    onAuthStateChange: (callback) => {
+      authListeners.add(callback);
+      return () => {
+        authListeners.delete(callback);
+      };
+    },
+  };
+
+  // Storage
+
+  const isReferenced = (path: string) =>
+    [...blogs.values()].some((blog) => blog.gallery.some((image) => image.path === path || image.thumbnail_path === path)) ||
+    revisions.some((revision) => revision.gallery.some((image) => image.path === path || image.thumbnail_path === path)) ||
+    [...comments.values()].some((comment) => comment.attachments.some((attachment) => attachment.path === path)) ||
+    users.some((user) => user.profile?.avatar_path === path);
+
+  const storageRepository: StorageRepository = {
+    upload: async (path, blob, onProgress) => {
+      if (objects.has(path)) throw new Error(MEMORY_ERRORS.objectExists);
+      objects.set(path, { blob, owner: sessionUser?.id ?? null, created_at: timestamp() });
+      onProgress(blob.size);
+      // Object URLs where the environment has them (browsers, not jsdom)
+      return typeof URL.createObjectURL === 'function' ? URL.createObjectURL(blob) : `memory://blog-images/${path}`;
+    },
+
+    remove: async (paths) => {
+      const user = currentUser();
+      const removable = paths.filter((path) => {
+        const object = objects.get(path);
+        return (
+          !!object &&
+          !!user &&
+          (object.owner === user.id ||
+            hasRole(user, 'admin') ||
+            (path.startsWith('comments/') && hasRole(user, 'moderator')))
+        );
+      });
+      removable.forEach((path) => objects.delete(path));
+      // Revisions using a deleted image can't be restored with their gallery
+      revisions.forEach((revision, i) => {
+        if (removable.some((path) => revision.image_path === path || revision.gallery.some((image) => image.path === path))) {
+          revisions[i] = { ...revision, image_deleted: true };
+        }
+      });
+      return removable;
+    },
+
+    findOrphaned: async (userId) => {
+      const user = currentUser();
+      if (!user || (userId !== user.id && !hasRole(user, 'admin'))) {
+        throw new Error("Only admins can check other users' uploads");
+      }
+      const dayAgo = new Date(now().getTime() - 24 * 60 * 60 * 1000).toISOString();
+      return [...objects.entries()]
+        .map(([path, object]): OrphanedUpload => ({
+          owner_id: ownerFromPath(path),
+          path,
+          size: object.blob.size,
+          created_at: object.created_at,
+        }))
+        .filter(
+          (orphan) =>
+            (userId === null || orphan.owner_id === userId) && orphan.created_at < dayAgo && !isReferenced(orphan.path)
+        )
+        .sort((a, b) => a.owner_id.localeCompare(b.owner_id) || a.created_at.localeCompare(b.created_at));
+    },
+  };
+
+  // Profiles
+
+  const profileRepository: ProfileRepository = {
+    list: async (ids) =>
+      users
+        .filter((user) => ids.includes(user.id))
+        .map(profileOf)
+        .filter((profile): profile is Profile => !!profile),
+
+    listAll: async (limit) =>
+      users
+        .map(profileOf)
+        .filter((profile): profile is Profile => !!profile)
+        .sort(byDisplayName)
+        .slice(0, limit),
+
+    avatarPath: async (userId) => users.find((user) => user.id === userId)?.profile?.avatar_path ?? null,
+
+    save: async (userId, changes) => {
+      if (!sessionUser || sessionUser.id !== userId) {
+        throw new Error(MEMORY_ERRORS.rowLevelSecurity('profiles'));
+      }
+      sessionUser.profile = { created_at: timestamp(), ...sessionUser.profile, ...changes };
+      return profileOf(sessionUser)!;
+    },
+  };
+
+  // Reactions
+
+  const adjustLikeCount = (reaction: Reaction, delta: number) => {
+    const blog = blogs.get(reaction.blog_id);
+    if (blog && reaction.type === 'like' && !reaction.comment_id) {
+      blogs.set(blog.id, { ...blog, like_count: blog.like_count + delta });
+    }
+  };
+
+  const findReaction = (userId: string, { blogId, commentId = null }: ReactionTarget, type: ReactionType) =>
+    reactions.find(
+      (reaction) =>
+        reaction.user_id === userId &&
+        reaction.blog_id === blogId &&
+        reaction.comment_id === commentId &&
+        reaction.type === type
+    );
+
+  const reactionRepository: ReactionRepository = {
+    counts: async (blogId) => {
+      const counts: ReactionCount[] = [];
+      for (const reaction of reactions.filter((r) => r.blog_id === blogId)) {
+        const row = counts.find((count) => count.comment_id === reaction.comment_id && count.type === reaction.type);
+        if (row) row.count++;
+        else counts.push({ blog_id: blogId, comment_id: reaction.comment_id, type: reaction.type, count: 1 });
+      }
+      return counts;
+    },
+
+    listByUser: async (blogId, userId) =>
+      reactions.filter((reaction) => reaction.blog_id === blogId && reaction.user_id === userId),
+
+    add: async (userId, target, type) => {
+      const commentId = target.commentId ?? null;
+      if (
+        !sessionUser ||
+        sessionUser.id !== userId ||
+        !blogs.has(target.blogId) ||
+        (commentId && comments.get(commentId)?.blog_id !== target.blogId)
+      ) {
+        throw new Error(MEMORY_ERRORS.rowLevelSecurity('reactions'));
+      }
+      if (findReaction(userId, target, type)) {
+        throw new Error(MEMORY_ERRORS.duplicate('reactions_user_id_blog_id_comment_id_type_key'));
+      }
+
+      const reaction: Reaction = {
+        id: newId(),
+        user_id: userId,
+        blog_id: target.blogId,
+        comment_id: commentId,
+        type,
+        created_at: timestamp(),
+      };
+      reactions.push(reaction);
+      adjustLikeCount(reaction, 1);
+    },
+
+    remove: async (userId, target, type) => {
+      // Only the user's own reactions match the delete policy
+      const reaction = sessionUser?.id === userId ? findReaction(userId, target, type) : undefined;
+      if (!reaction) return;
+      reactions.splice(reactions.indexOf(reaction), 1);
+      adjustLikeCount(reaction, -1);
+    },
+  };
+
+  // Revisions
+
+  const revisionRepository: RevisionRepository = {
+    // Visible to whoever can see the post
+    list: async (blogId) => {
+      const blog = blogs.get(blogId);
+      if (!blog || !canSeeBlog(blog)) return [];
+      return revisions.filter((revision) => revision.blog_id === blogId).reverse();
+    },
+  };
+
+  // Moderation
+
+  const isModerator = () => hasRole(currentUser(), 'moderator');
+
+  // As the moderation functions delete a comment: one with replies keeps a placeholder
+  const deleteModeratedComment = (comment: Comment, changes: Partial<Comment> = {}) => {
+    if ([...comments.values()].some((reply) => reply.parent_id === comment.id)) {
+      saveComment({
+        ...comment,
+        ...changes,
+        content: '',
+        attachments: [],
+        deleted_at: timestamp(),
+        updated_at: timestamp(),
+      });
+    } else {
+      deleteThread(comment);
+    }
+  };
+
+  const recordAction = (action: Omit<ModerationAction, 'id' | 'moderator_id' | 'created_at'>) => {
+    moderationActions.push({ id: newId(), moderator_id: currentUser()?.id ?? null, created_at: timestamp(), ...action });
+  };
+
+  const moderationRepository: ModerationRepository = {
+    report: async (input) => {
+      if (!sessionUser || sessionUser.id !== input.reporter_id || !blogs.has(input.blog_id)) {
+        throw new Error(MEMORY_ERRORS.rowLevelSecurity('reports'));
+      }
+      reports.push({ ...input, id: newId(), status: 'open', created_at: timestamp(), resolved_at: null, resolved_by: null });
+    },
+
+    // Only moderators see reports and the audit trail
+    openReports: async () => {
+      if (!isModerator()) return [];
+      return reports
+        .filter((report) => report.status === 'open')
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((report) => {
+          const blog = blogs.get(report.blog_id);
+          return {
+            ...report,
+            blog: blog
+              ? { id: blog.id, title: blog.title, content: blog.content, user_id: blog.user_id, hidden_at: blog.hidden_at }
+              : null,
+            comment: (report.comment_id && comments.get(report.comment_id)) || null,
+          };
+        });
+    },
+
+    heldComments: async () =>
+      [...comments.values()]
+        .filter((comment) => comment.held_reason && comment.hidden_at && canSeeComment(comment))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((comment) => {
+          const blog = blogs.get(comment.blog_id);
+          return { ...comment, blog: blog && canSeeBlog(blog) ? { id: blog.id, title: blog.title } : null };
+        }),
+
+    log: async (limit) =>
+      isModerator()
+        ? [...moderationActions]
+            .reverse()
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            .slice(0, limit)
+        : [],
+
+    moderateReport: async (reportId, decision) => {
+      if (!isModerator()) throw new Error('Only moderators can act on reports');
+      const report = reports.find((r) => r.id === reportId && r.status === 'open');
+      if (!report) throw new Error('Report not found or already handled');
+
+      const comment = report.comment_id ? comments.get(report.comment_id) : undefined;
+      const blog = blogs.get(report.blog_id);
+      if (decision === 'hide') {
+        if (comment) saveComment({ ...comment, hidden_at: timestamp() });
+        else if (!report.comment_id && blog) blogs.set(blog.id, { ...blog, hidden_at: timestamp() });
+      } else if (decision === 'delete') {
+        if (report.comment_id) {
+          if (comment) deleteModeratedComment(comment);
+        } else {
+          if (!hasRole(currentUser(), 'admin')) throw new Error('Only admins can delete posts');
+          deleteBlog(report.blog_id);
+        }
+      }
+
+      // Deleting the content also deletes its reports, so the entry doesn't link to them
+      recordAction({
+        report_id: decision === 'delete' ? null : report.id,
+        blog_id: report.blog_id,
+        comment_id: report.comment_id,
+        action: decision,
+        reason: report.reason,
+      });
+
+      // Hiding or deleting settles every open report on the same content
+      reports.forEach((r, i) => {
+        if (
+          r.id === report.id ||
+          (decision !== 'dismiss' &&
+            r.status === 'open' &&
+            r.blog_id === report.blog_id &&
+            r.comment_id === report.comment_id)
+        ) {
+          reports[i] = {
+            ...r,
+            status: decision === 'dismiss' ? 'dismissed' : 'resolved',
+            resolved_at: timestamp(),
+            resolved_by: currentUser()?.id ?? null,
+          };
+        }
+      });
+    },
+
+    moderateHeldComment: async (commentId, decision) => {
+      if (!isModerator()) throw new Error('Only moderators can review held comments');
+      const comment = comments.get(commentId);
+      if (!comment?.held_reason) throw new Error('Comment not found or not held');
+
+      if (decision === 'approve') {
+        saveComment({ ...comment, hidden_at: null, held_reason: null });
+      } else {
+        deleteModeratedComment(comment, { held_reason: null });
+      }
+      recordAction({
+        report_id: null,
+        blog_id: comment.blog_id,
+        comment_id: comment.id,
+        action: decision,
+        reason: comment.held_reason,
+      });
+    },
+  };
+
+  // Seed data
+
+  for (const { tags: tagNames = [], ...blog } of seed.blogs ?? []) {
+    const created = blog.created_at ?? timestamp();
+    const status = blog.status ?? 'published';
+    blogs.set(
+      blog.id,
+      withCover({
+        content: '',
+        gallery: [],
+        image_url: null,
+        thumbnail_url: null,
+        image_placeholder: null,
+        image_path: null,
+        thumbnail_path: null,
+        comment_count: 0,
+        like_count: 0,
+        status,
+        publish_at: status === 'draft' ? null : created,
+        hidden_at: null,
+        created_at: created,
+        updated_at: created,
+        ...blog,
+      })
+    );
+    saveTags(
+      blog.id,
+      tagNames.map((name) => ({ slug: name.toLowerCase(), name }))
+    );
+  }
+
+  for (const comment of seed.comments ?? []) {
+    const created = comment.created_at ?? timestamp();
+    comments.set(comment.id, {
+      parent_id: null,
+      attachments: [],
+      deleted_at: null,
+      hidden_at: null,
+      held_reason: null,
+      created_at: created,
+      updated_at: created,
+      ...comment,
+    });
+    adjustCommentCount(comment.blog_id, 1);
+  }
+
+  return {
+    blogs: blogRepository,
+    comments: commentRepository,
+    auth: authRepository,
+    storage: storageRepository,
+    profiles: profileRepository,
+    reactions: reactionRepository,
+    revisions: revisionRepository,
+    moderation: moderationRepository,
+  };
+};
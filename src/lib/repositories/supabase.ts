@@ -0,0 +1,620 @@
+import { SupabaseClient, User as AuthUser } from '@supabase/supabase-js';
+import {
+  Blog,
+  BlogRevision,
+  Comment,
+  CommentAttachment,
+  GalleryImage,
+  ModerationAction,
+  OrphanedUpload,
+  Profile,
+  Reaction,
+  ReactionCount,
+  Role,
+  TagWithCount,
+} from '../supabase';
+import { isLive, LIVE_STATUSES } from '../blogStatus';
+import { IMAGE_BUCKET } from '../imageUpload';
+import {
+  AuthRepository,
+  BlogFilters,
+  BlogRepository,
+  CommentRepository,
+  HeldComment,
+  ModerationRepository,
+  NewTag,
+  ProfileRepository,
+  ReactionRepository,
+  Repositories,
+  ReportWithContent,
+  RevisionRepository,
+  StorageRepository,
+} from './types';
+
+// Blogs are always loaded with their tags
+const BLOG_SELECT = '*, tags(*)';
+
+// Public lists are dated and ordered by when posts went live, dashboards by creation
+const dateColumn = (filters: BlogFilters) => (filters.statuses ? 'created_at' : 'publish_at');
+
+const createBlogRepository = (supabase: SupabaseClient): BlogRepository => {
+  // Base blogs query with filters applied. Searches go through the
+  // `search_blogs` function, which returns matches ranked by relevance.
+  // The count query is built the same way so pagination totals match.
+  const filteredBlogsQuery = (filters: BlogFilters, countOnly = false) => {
+    const options = countOnly ? { count: 'exact' as const, head: true } : undefined;
+    const search = filters.search?.trim();
+    // Filtering on a tag goes through a second, inner-joined embedding so the
+    // blog's own `tags` list still contains all of its tags
+    const columns: string = filters.tag ? `${BLOG_SELECT}, tag_filter:tags!inner(slug)` : BLOG_SELECT;
+
+    let query = search
+      ? supabase.rpc('search_blogs', { search_query: search }, options).select(columns)
+      : supabase.from('blogs').select(columns, options);
+
+    if (filters.statuses) {
+      query = query.in('status', filters.statuses);
+    } else {
+      // Hidden posts stay reachable by link for their author and moderators, but aren't listed
+      query = query
+        .in('status', LIVE_STATUSES)
+        .lte('publish_at', new Date().toISOString())
+        .is('hidden_at', null);
+    }
+
+    const date = dateColumn(filters);
+    if (filters.tag) query = query.eq('tag_filter.slug', filters.tag);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+    if (filters.from) query = query.gte(date, new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) query = query.lte(date, new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+    return query;
+  };
+
+  const get = async (id: string) => {
+    const { data, error } = await supabase.from('blogs').select(BLOG_SELECT).eq('id', id).single();
+
+    if (error) throw error;
+    return data as Blog;
+  };
+
+  // Replace a blog's tags, creating tags that don't exist yet
+  const saveTags = async (blogId: string, tags: NewTag[]) => {
+    const { error: deleteError } = await supabase.from('blog_tags').delete().eq('blog_id', blogId);
+
+    if (deleteError) throw deleteError;
+    if (tags.length === 0) return;
+
+    // Existing tags keep their original name
+    const { error: upsertError } = await supabase
+      .from('tags')
+      .upsert(tags, { onConflict: 'slug', ignoreDuplicates: true });
+
+    if (upsertError) throw upsertError;
+
+    const { data: savedTags, error: tagError } = await supabase
+      .from('tags')
+      .select('id')
+      .in('slug', tags.map((tag) => tag.slug));
+
+    if (tagError) throw tagError;
+
+    const { error: linkError } = await supabase
+      .from('blog_tags')
+      .insert((savedTags || []).map((tag) => ({ blog_id: blogId, tag_id: tag.id })));
+
+    if (linkError) throw linkError;
+  };
+
+  return {
+    list: async ({ page, limit, ...filters }) => {
+      const from = (page - 1) * limit;
+      const to = from + limit - 1;
+
+      // Get total count
+      const { count } = await filteredBlogsQuery(filters, true);
+
+      // Get paginated blogs
+      const date = dateColumn(filters);
+      let query = filteredBlogsQuery(filters);
+      switch (filters.sort) {
+        case 'oldest':
+          query = query.order(date, { ascending: true });
+          break;
+        case 'most_commented':
+          query = query.order('comment_count', { ascending: false }).order(date, { ascending: false });
+          break;
+        case 'most_liked':
+          query = query.order('like_count', { ascending: false }).order(date, { ascending: false });
+          break;
+        case 'relevance':
+          // search_blogs already returns rows by rank; without a search fall back to newest
+          if (!filters.search?.trim()) query = query.order(date, { ascending: false });
+          break;
+        default:
+          query = query.order(date, { ascending: false });
+      }
+      const { data, error } = await query.range(from, to);
+
+      if (error) throw error;
+
+      return {
+        blogs: ((data || []) as unknown as (Blog & { tag_filter?: unknown })[]).map((blog) => {
+          delete blog.tag_filter;
+          return blog as Blog;
+        }),
+        total: count || 0,
+      };
+    },
+
+    get,
+
+    listTags: async () => {
+      const { data, error } = await supabase
+        .from('tag_counts')
+        .select('*')
+        .order('post_count', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as TagWithCount[];
+    },
+
+    create: async (blog, tags) => {
+      // The cover image columns are filled in from the gallery by a trigger
+      const { data, error } = await supabase.from('blogs').insert([blog]).select('id').single();
+
+      if (error) throw error;
+
+      await saveTags(data.id, tags);
+      return get(data.id);
+    },
+
+    update: async (id, changes, tags) => {
+      // The replaced version is kept in blog_revisions by a database trigger
+      const { error } = await supabase.from('blogs').update(changes).eq('id', id);
+
+      if (error) throw error;
+
+      if (tags) await saveTags(id, tags);
+      return get(id);
+    },
+
+    remove: async (id) => {
+      const { error } = await supabase.from('blogs').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+
+    galleries: async (id) => {
+      const [{ data: blog, error: blogError }, { data: revisions, error: revisionsError }] = await Promise.all([
+        supabase.from('blogs').select('gallery').eq('id', id).single(),
+        supabase.from('blog_revisions').select('gallery').eq('blog_id', id),
+      ]);
+      if (blogError) throw blogError;
+      if (revisionsError) throw revisionsError;
+
+      return {
+        current: blog.gallery as GalleryImage[],
+        revisions: (revisions || []).map((revision) => revision.gallery as GalleryImage[]),
+      };
+    },
+
+    // Newly published posts, or drafts being published
+    subscribeToNewBlogs: (onPublished) => {
+      const channel = supabase
+        .channel('blogs:published')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'blogs' }, (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const blog = payload.new as Blog;
+          const before = payload.eventType === 'UPDATE' ? (payload.old as Blog) : null;
+          if (isLive(blog) && !(before?.status && isLive(before))) {
+            onPublished(blog);
+          }
+        })
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  };
+};
+
+const createCommentRepository = (supabase: SupabaseClient): CommentRepository => ({
+  list: async (blogId, { userId, canSeeAllHidden }) => {
+    let query = supabase.from('comments').select('*').eq('blog_id', blogId);
+    if (!userId) {
+      query = query.is('hidden_at', null);
+    } else if (!canSeeAllHidden) {
+      query = query.or(`hidden_at.is.null,user_id.eq.${userId}`);
+    }
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as Comment[];
+  },
+
+  get: async (id) => {
+    const { data, error } = await supabase.from('comments').select('*').eq('id', id).single();
+
+    if (error) throw error;
+    return data as Comment;
+  },
+
+  recentByUser: async (userId, since) => {
+    const { data, error } = await supabase
+      .from('comments')
+      .select('id, content, created_at')
+      .eq('user_id', userId)
+      .gte('created_at', since);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  attachments: async (id) => {
+    const { data, error } = await supabase.from('comments').select('attachments').eq('id', id).single();
+
+    if (error) throw error;
+    return data.attachments as CommentAttachment[];
+  },
+
+  countReplies: async (id) => {
+    const { count, error } = await supabase
+      .from('comments')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', id);
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  create: async (comment) => {
+    const { data, error } = await supabase.from('comments').insert([comment]).select().single();
+
+    if (error) throw error;
+    return data as Comment;
+  },
+
+  update: async (id, changes) => {
+    const { data, error } = await supabase.from('comments').update(changes).eq('id', id).select().single();
+
+    if (error) throw error;
+    return data as Comment;
+  },
+
+  remove: async (id) => {
+    const { error } = await supabase.from('comments').delete().eq('id', id);
+
+    if (error) throw error;
+  },
+
+  subscribe: (blogId, { onUpsert, onDelete }) => {
+    const channel = supabase
+      .channel(`comments:${blogId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comments', filter: `blog_id=eq.${blogId}` },
+        (payload) => onUpsert(payload.new as Comment)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'comments', filter: `blog_id=eq.${blogId}` },
+        (payload) => onUpsert(payload.new as Comment)
+      )
+      // Delete events can't be filtered; ids of other blogs' comments are simply not found
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'comments' }, (payload) => {
+        const { id } = payload.old as Partial<Comment>;
+        if (id) onDelete(id);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+});
+
+const createAuthRepository = (supabase: SupabaseClient): AuthRepository => ({
+  getSession: async () => {
+    const { data: { session }, error } = await supabase.auth.getSession();
+    if (error) throw error;
+    return session;
+  },
+
+  // Build the app user from the Supabase auth user and their profile row
+  loadUser: async (authUser: AuthUser) => {
+    const [{ data: profile, error }, { data: role, error: roleError }] = await Promise.all([
+      supabase.from('profiles').select('*').eq('id', authUser.id).maybeSingle(),
+      supabase.from('user_roles').select('role').eq('user_id', authUser.id).maybeSingle(),
+    ]);
+
+    if (error) throw error;
+    if (roleError) throw roleError;
+
+    return {
+      id: authUser.id,
+      email: authUser.email ?? '',
+      // Least privileged if the role row is missing
+      role: (role?.role as Role | undefined) ?? 'reader',
+      profile: (profile as Profile | null) ?? null,
+    };
+  },
+
+  signUp: async (email, password) => {
+    const { data, error } = await supabase.auth.signUp({ email, password });
+    if (error) throw error;
+    return { user: data.user, session: data.session };
+  },
+
+  signIn: async (email, password) => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return { user: data.user, session: data.session };
+  },
+
+  signOut: async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  },
+
+  sendPasswordReset: async (email, redirectTo) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+    if (error) throw error;
+  },
+
+  sendMagicLink: async (email, redirectTo) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: redirectTo,
+        shouldCreateUser: false, // accounts are only created through Register
+      },
+    });
+    if (error) throw error;
+  },
+
+  // Supabase emails a confirmation link; the address changes once it is followed
+  updateEmail: async (email, redirectTo) => {
+    const { error } = await supabase.auth.updateUser({ email }, { emailRedirectTo: redirectTo });
+    if (error) throw error;
+  },
+
+  updatePassword: async (password) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) throw error;
+  },
+
+  signInWithProvider: async (provider, redirectTo) => {
+    const { error } = await supabase.auth.signInWithOAuth({ provider, options: { redirectTo } });
+    if (error) throw error;
+  },
+
+  identities: async () => {
+    const { data, error } = await supabase.auth.getUserIdentities();
+    if (error) throw error;
+    return data.identities;
+  },
+
+  // Accounts with the same verified email are linked by Supabase automatically
+  linkIdentity: async (provider, redirectTo) => {
+    const { error } = await supabase.auth.linkIdentity({ provider, options: { redirectTo } });
+    if (error) throw error;
+  },
+
+  // Supabase refuses to remove the last way to log in
+  unlinkIdentity: async (identity) => {
+    const { error } = await supabase.auth.unlinkIdentity(identity);
+    if (error) throw error;
+  },
+
+  onAuthStateChange: (callback) => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      // Supabase holds its auth lock while calling this; query after it returns
+      setTimeout(() => callback(event, session), 0);
+    });
+    return () => subscription.unsubscribe();
+  },
+});
+
+const createStorageRepository = (supabase: SupabaseClient): StorageRepository => ({
+  // Uploads go through a signed URL, so progress can be followed with XHR
+  // (the storage client uses fetch, which doesn't report upload progress)
+  upload: async (path, blob, onProgress) => {
+    const { data, error } = await supabase.storage.from(IMAGE_BUCKET).createSignedUploadUrl(path);
+    if (error) throw error;
+
+    await new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('PUT', data.signedUrl);
+      xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+      xhr.setRequestHeader('content-type', blob.type);
+      xhr.setRequestHeader('cache-control', 'max-age=3600');
+      xhr.setRequestHeader('x-upsert', 'false');
+      xhr.upload.onprogress = (e) => onProgress(e.loaded);
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          onProgress(blob.size);
+          resolve();
+          return;
+        }
+        let message = `Upload failed (${xhr.status}).`;
+        try {
+          message = JSON.parse(xhr.responseText).message ?? message;
+        } catch {
+          // Not a JSON error body
+        }
+        reject(new Error(message));
+      };
+      xhr.onerror = () => reject(new Error('Upload failed. Check your connection and try again.'));
+      xhr.send(blob);
+    });
+
+    return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+
+  remove: async (paths) => {
+    const { data, error } = await supabase.storage.from(IMAGE_BUCKET).remove(paths);
+
+    if (error) throw error;
+    return data.map((object) => object.name);
+  },
+
+  findOrphaned: async (userId) => {
+    const { data, error } = await supabase.rpc('find_orphaned_uploads', { target_user: userId });
+
+    if (error) throw error;
+    return (data || []) as OrphanedUpload[];
+  },
+});
+
+const createProfileRepository = (supabase: SupabaseClient): ProfileRepository => ({
+  list: async (ids) => {
+    const { data, error } = await supabase.from('profiles').select('*').in('id', ids);
+
+    if (error) throw error;
+    return (data || []) as Profile[];
+  },
+
+  listAll: async (limit) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .order('display_name', { ascending: true, nullsFirst: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as Profile[];
+  },
+
+  avatarPath: async (userId) => {
+    const { data, error } = await supabase.from('profiles').select('avatar_path').eq('id', userId).maybeSingle();
+
+    if (error) throw error;
+    return data?.avatar_path ?? null;
+  },
+
+  save: async (userId, changes) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .upsert({ id: userId, ...changes })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Profile;
+  },
+});
+
+const createReactionRepository = (supabase: SupabaseClient): ReactionRepository => ({
+  counts: async (blogId) => {
+    const { data, error } = await supabase.from('reaction_counts').select('*').eq('blog_id', blogId);
+
+    if (error) throw error;
+    return (data || []) as ReactionCount[];
+  },
+
+  listByUser: async (blogId, userId) => {
+    const { data, error } = await supabase.from('reactions').select('*').eq('blog_id', blogId).eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []) as Reaction[];
+  },
+
+  add: async (userId, { blogId, commentId = null }, type) => {
+    const { error } = await supabase
+      .from('reactions')
+      .insert([{ user_id: userId, blog_id: blogId, comment_id: commentId, type }]);
+
+    if (error) throw error;
+  },
+
+  remove: async (userId, { blogId, commentId }, type) => {
+    let query = supabase.from('reactions').delete().eq('user_id', userId).eq('blog_id', blogId).eq('type', type);
+    query = commentId ? query.eq('comment_id', commentId) : query.is('comment_id', null);
+    const { error } = await query;
+
+    if (error) throw error;
+  },
+});
+
+const createRevisionRepository = (supabase: SupabaseClient): RevisionRepository => ({
+  list: async (blogId) => {
+    const { data, error } = await supabase
+      .from('blog_revisions')
+      .select('*')
+      .eq('blog_id', blogId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as BlogRevision[];
+  },
+});
+
+const createModerationRepository = (supabase: SupabaseClient): ModerationRepository => ({
+  report: async (report) => {
+    const { error } = await supabase.from('reports').insert([report]);
+
+    if (error) throw error;
+  },
+
+  openReports: async () => {
+    const { data, error } = await supabase
+      .from('reports')
+      .select('*, blog:blogs(id, title, content, user_id, hidden_at), comment:comments(*)')
+      .eq('status', 'open')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as unknown as ReportWithContent[];
+  },
+
+  heldComments: async () => {
+    const { data, error } = await supabase
+      .from('comments')
+      .select('*, blog:blogs(id, title)')
+      .not('held_reason', 'is', null)
+      .not('hidden_at', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as unknown as HeldComment[];
+  },
+
+  log: async (limit) => {
+    const { data, error } = await supabase
+      .from('moderation_actions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as ModerationAction[];
+  },
+
+  moderateReport: async (reportId, decision) => {
+    const { error } = await supabase.rpc('moderate_report', { report_id: reportId, decision });
+
+    if (error) throw error;
+  },
+
+  moderateHeldComment: async (commentId, decision) => {
+    const { error } = await supabase.rpc('moderate_held_comment', { comment_id: commentId, decision });
+
+    if (error) throw error;
+  },
+});
+
+export const createSupabaseRepositories = (supabase: SupabaseClient): Repositories => ({
+  blogs: createBlogRepository(supabase),
+  comments: createCommentRepository(supabase),
+  auth: createAuthRepository(supabase),
+  storage: createStorageRepository(supabase),
+  profiles: createProfileRepository(supabase),
+  reactions: createReactionRepository(supabase),
+  revisions: createRevisionRepository(supabase),
+  moderation: createModerationRepository(supabase),
+});
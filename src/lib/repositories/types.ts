@@ -0,0 +1,192 @@
+import { AuthChangeEvent, Session, User as AuthUser, UserIdentity } from '@supabase/supabase-js';
+import {
+  Blog,
+  BlogRevision,
+  BlogStatus,
+  Comment,
+  CommentAttachment,
+  GalleryImage,
+  HeldCommentDecision,
+  ModerationAction,
+  ModerationDecision,
+  OrphanedUpload,
+  Profile,
+  Reaction,
+  ReactionCount,
+  ReactionType,
+  Report,
+  TagWithCount,
+  User,
+} from '../supabase';
+import { RecentComment } from '../commentFilters';
+import { OAuthProvider } from '../oauth';
+import { ReactionTarget } from '../reactions';
+
+// Data access used by the thunks, which get it as their `extra` argument.
+// There is a Supabase implementation and an in-memory one for tests and
+// demos; both return the same shapes, in the same order, and fail with the
+// same messages. Methods reject with an Error whose message can be shown.
+
+export type BlogSort = 'relevance' | 'newest' | 'oldest' | 'most_commented' | 'most_liked';
+
+export interface BlogFilters {
+  search?: string; // full-text query over title and content
+  tag?: string; // tag slug
+  userId?: string; // author
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  sort?: BlogSort;
+  // Only for an author's own dashboard: list posts in these statuses,
+  // including ones not yet live. Without it only live posts are listed.
+  statuses?: BlogStatus[];
+}
+
+export interface BlogPage {
+  blogs: Blog[];
+  total: number; // across all pages
+}
+
+export interface NewTag {
+  slug: string;
+  name: string; // kept only when the tag doesn't exist yet
+}
+
+// Columns a thunk may write; the rest are set by the database
+export type BlogInput = Pick<Blog, 'title' | 'content' | 'gallery' | 'user_id' | 'status' | 'publish_at'>;
+export type BlogChanges = Partial<Omit<BlogInput, 'user_id'>> & { updated_at: string };
+
+export interface BlogRepository {
+  // `page` starts at 1; pages past the end are empty
+  list(query: BlogFilters & { page: number; limit: number }): Promise<BlogPage>;
+  get(id: string): Promise<Blog>; // with its tags
+  listTags(): Promise<TagWithCount[]>; // most used first, then by name
+  create(blog: BlogInput, tags: NewTag[]): Promise<Blog>;
+  // Tags are left untouched when not given. The replaced version is kept as a revision.
+  update(id: string, changes: BlogChanges, tags?: NewTag[]): Promise<Blog>;
+  remove(id: string): Promise<void>;
+  // The blog's gallery and those of its revisions, e.g. to clean up their uploads
+  galleries(id: string): Promise<{ current: GalleryImage[]; revisions: GalleryImage[][] }>;
+  // Posts that have just gone live; returns a function that stops listening
+  subscribeToNewBlogs(onPublished: (blog: Blog) => void): () => void;
+}
+
+// Who is asking, for comments hidden by a moderator
+export interface CommentViewer {
+  userId: string | null;
+  canSeeAllHidden: boolean; // moderators
+}
+
+export type CommentInput = Pick<
+  Comment,
+  'blog_id' | 'user_id' | 'parent_id' | 'content' | 'attachments' | 'hidden_at' | 'held_reason'
+>;
+export type CommentChanges = Partial<
+  Pick<Comment, 'content' | 'attachments' | 'hidden_at' | 'held_reason' | 'deleted_at'>
+> & { updated_at: string };
+
+export interface CommentChangeHandlers {
+  onUpsert: (comment: Comment) => void; // inserted, edited or soft-deleted
+  onDelete: (id: string) => void;
+}
+
+export interface CommentRepository {
+  list(blogId: string, viewer: CommentViewer): Promise<Comment[]>; // newest first
+  get(id: string): Promise<Comment>;
+  recentByUser(userId: string, since: string): Promise<RecentComment[]>;
+  attachments(id: string): Promise<CommentAttachment[]>;
+  countReplies(id: string): Promise<number>;
+  create(comment: CommentInput): Promise<Comment>;
+  update(id: string, changes: CommentChanges): Promise<Comment>;
+  remove(id: string): Promise<void>; // its replies go with it
+  subscribe(blogId: string, handlers: CommentChangeHandlers): () => void;
+}
+
+export interface AuthResult {
+  user: AuthUser | null;
+  session: Session | null; // null until the email is confirmed, when confirmations are on
+}
+
+export interface AuthRepository {
+  getSession(): Promise<Session | null>;
+  // The app user (role and profile) for a signed-in account
+  loadUser(authUser: AuthUser): Promise<User>;
+  signUp(email: string, password: string): Promise<AuthResult>;
+  signIn(email: string, password: string): Promise<AuthResult>;
+  signOut(): Promise<void>;
+  sendPasswordReset(email: string, redirectTo: string): Promise<void>;
+  sendMagicLink(email: string, redirectTo: string): Promise<void>;
+  updateEmail(email: string, redirectTo: string): Promise<void>;
+  updatePassword(password: string): Promise<void>;
+  signInWithProvider(provider: OAuthProvider, redirectTo: string): Promise<void>;
+  identities(): Promise<UserIdentity[]>;
+  linkIdentity(provider: OAuthProvider, redirectTo: string): Promise<void>;
+  unlinkIdentity(identity: UserIdentity): Promise<void>;
+  // Sign-ins, sign-outs, token refreshes and account changes, including other tabs'
+  onAuthStateChange(callback: (event: AuthChangeEvent, session: Session | null) => void): () => void;
+}
+
+export interface StorageRepository {
+  // Resolves to the object's public URL
+  upload(path: string, blob: Blob, onProgress: (loaded: number) => void): Promise<string>;
+  // Resolves to the paths that were deleted; ones the user may not delete are left out
+  remove(paths: string[]): Promise<string[]>;
+  findOrphaned(userId: string | null): Promise<OrphanedUpload[]>;
+}
+
+export type ProfileChanges = Partial<Pick<Profile, 'display_name' | 'bio' | 'avatar_url' | 'avatar_path'>> & {
+  updated_at: string;
+};
+
+export interface ProfileRepository {
+  list(ids: string[]): Promise<Profile[]>; // users without a profile row are left out
+  // By display name, unnamed ones last
+  listAll(limit: number): Promise<Profile[]>;
+  avatarPath(userId: string): Promise<string | null>;
+  // Creates the row for users who signed up before profiles existed
+  save(userId: string, changes: ProfileChanges): Promise<Profile>;
+}
+
+export interface ReactionRepository {
+  counts(blogId: string): Promise<ReactionCount[]>; // for the post and its comments
+  listByUser(blogId: string, userId: string): Promise<Reaction[]>;
+  add(userId: string, target: ReactionTarget, type: ReactionType): Promise<void>;
+  remove(userId: string, target: ReactionTarget, type: ReactionType): Promise<void>;
+}
+
+export interface RevisionRepository {
+  list(blogId: string): Promise<BlogRevision[]>; // newest first
+}
+
+// A report with the reported content, for reviewing it in context
+export interface ReportWithContent extends Report {
+  blog: Pick<Blog, 'id' | 'title' | 'content' | 'user_id' | 'hidden_at'> | null;
+  comment: Comment | null;
+}
+
+// A comment held by the content filters, with the post it belongs to
+export interface HeldComment extends Comment {
+  blog: Pick<Blog, 'id' | 'title'> | null;
+}
+
+export type ReportInput = Pick<Report, 'reporter_id' | 'blog_id' | 'comment_id' | 'reason'>;
+
+export interface ModerationRepository {
+  report(report: ReportInput): Promise<void>;
+  openReports(): Promise<ReportWithContent[]>; // oldest first
+  heldComments(): Promise<HeldComment[]>; // oldest first
+  log(limit: number): Promise<ModerationAction[]>; // newest first
+  // Both also write the audit entry; deciding on a report closes it
+  moderateReport(reportId: string, decision: ModerationDecision): Promise<void>;
+  moderateHeldComment(commentId: string, decision: HeldCommentDecision): Promise<void>;
+}
+
+export interface Repositories {
+  blogs: BlogRepository;
+  comments: CommentRepository;
+  auth: AuthRepository;
+  storage: StorageRepository;
+  profiles: ProfileRepository;
+  reactions: ReactionRepository;
+  revisions: RevisionRepository;
+  moderation: ModerationRepository;
+}
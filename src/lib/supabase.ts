@@ -1,36 +1,186 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+// Without them only the in-memory backend can be used (see store/store.ts)
+export const isSupabaseConfigured = !!(supabaseUrl && supabaseAnonKey);
+
+let client: SupabaseClient | null = null;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Created on first use, so importing this module (e.g. for the types) works without the env vars
+export const getSupabase = (): SupabaseClient => {
+  if (!client) {
+    if (!isSupabaseConfigured) {
+      throw new Error('Missing Supabase environment variables');
+    }
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return client;
+};
 
 // Database types
 export interface Blog {
   id: string;
   title: string;
   content: string;
+  gallery: GalleryImage[];
+  // The cover, i.e. the first gallery image; kept in step with the gallery by a trigger
   image_url: string | null;
+  thumbnail_url: string | null; // smaller copy for the blog list
+  image_placeholder: string | null; // tiny data URL shown while image_url loads
+  image_path: string | null; // storage paths of image_url and thumbnail_url
+  thumbnail_path: string | null;
   user_id: string;
+  comment_count: number; // maintained by a trigger on comments
+  like_count: number; // likes on the post itself, maintained by a trigger on reactions
+  status: BlogStatus;
+  publish_at: string | null; // when the post goes (or went) live
+  hidden_at: string | null; // set by a moderator; only the author and moderators see it
+  tags: Tag[];
   created_at: string;
   updated_at: string;
 }
 
+// Snapshot of a blog as it was before an update, recorded by a trigger
+export interface BlogRevision {
+  id: string;
+  blog_id: string;
+  editor_id: string | null; // who made the update that replaced this version
+  title: string;
+  content: string;
+  gallery: GalleryImage[];
+  image_url: string | null;
+  thumbnail_url: string | null;
+  image_placeholder: string | null;
+  image_path: string | null;
+  thumbnail_path: string | null;
+  image_deleted: boolean; // one of its images has since been deleted from storage
+  created_at: string; // when it was replaced
+}
+
+// An image in a post's gallery
+export interface GalleryImage {
+  url: string;
+  thumbnail_url: string | null;
+  placeholder: string | null; // tiny data URL shown while url loads
+  path: string | null; // storage paths of url and thumbnail_url
+  thumbnail_path: string | null;
+  caption: string;
+  alt: string;
+}
+
+export type ReactionType = 'like' | 'love' | 'laugh' | 'celebrate' | 'sad';
+
+// A user's reaction to a blog, or to one of its comments when comment_id is set
+export interface Reaction {
+  id: string;
+  user_id: string;
+  blog_id: string;
+  comment_id: string | null;
+  type: ReactionType;
+  created_at: string;
+}
+
+// Row of the reaction_counts view
+export interface ReactionCount {
+  blog_id: string;
+  comment_id: string | null;
+  type: ReactionType;
+  count: number;
+}
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+// A user's report of a post, or of one of its comments when comment_id is set
+export interface Report {
+  id: string;
+  reporter_id: string;
+  blog_id: string;
+  comment_id: string | null;
+  reason: string;
+  status: ReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+export type ModerationDecision = 'hide' | 'delete' | 'dismiss';
+
+// Decisions on comments held by the content filters
+export type HeldCommentDecision = 'approve' | 'delete';
+
+// Audit trail entry for a moderation decision
+export interface ModerationAction {
+  id: string;
+  moderator_id: string | null;
+  report_id: string | null;
+  blog_id: string;
+  comment_id: string | null;
+  action: ModerationDecision | HeldCommentDecision;
+  reason: string | null;
+  created_at: string;
+}
+
+export type BlogStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface TagWithCount extends Tag {
+  post_count: number;
+}
+
+// From least to most privileged, see lib/permissions.ts
+export type Role = 'reader' | 'author' | 'moderator' | 'admin';
+
 export interface User {
   id: string;
   email: string;
+  role: Role;
+  profile: Profile | null;
+}
+
+export interface Profile {
+  id: string; // same as the auth user id
+  display_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  avatar_path: string | null; // storage path of avatar_url
+  created_at: string;
+  updated_at: string;
+}
+
+// A file attached to a comment
+export interface CommentAttachment {
+  url: string;
+  path: string | null; // storage path of url
+  name: string; // as picked by the user
+  size: number | null; // bytes as stored, unknown for older attachments
+  type: string; // MIME type
 }
 
 export interface Comment {
   id: string;
   blog_id: string;
   user_id: string;
+  parent_id: string | null; // null for top-level comments
   content: string;
-  file_url: string | null;
+  attachments: CommentAttachment[];
+  deleted_at: string | null; // set when a comment with replies is deleted
+  hidden_at: string | null; // set by a moderator; only the author and moderators see it
+  held_reason: string | null; // why the content filters held it for review (hidden until approved)
   created_at: string;
   updated_at: string;
 }
+
+// Row of find_orphaned_uploads(): an uploaded object nothing refers to
+export interface OrphanedUpload {
+  owner_id: string; // the user id the object is stored under
+  path: string;
+  size: number | null;
+  created_at: string;
+}
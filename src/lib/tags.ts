@@ -0,0 +1,15 @@
+export const MAX_TAGS_PER_POST = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Tidy a tag as typed by the user: trim, collapse whitespace, cap the length
+export const normalizeTagName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').substring(0, MAX_TAG_LENGTH);
+
+// URL-safe identifier used for /tags/:slug, e.g. "React Hooks" -> "react-hooks"
+export const slugify = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
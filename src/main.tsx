@@ -1,14 +1,17 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { Provider } from 'react-redux'
-import { store } from './store/store'
+import { repositories, store } from './store/store'
+import { RepositoriesContext } from './hooks/useRepositories'
 import App from './App.tsx'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <Provider store={store}>
-      <App />
+      <RepositoriesContext.Provider value={repositories}>
+        <App />
+      </RepositoriesContext.Provider>
     </Provider>
   </React.StrictMode>,
 )
@@ -0,0 +1,282 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  changeEmail,
+  updatePassword,
+  fetchIdentities,
+  linkIdentity,
+  unlinkIdentity,
+  resetAuthRequest,
+} from '../store/slices/authSlice';
+import { ENABLED_OAUTH_PROVIDERS, OAUTH_PROVIDER_LABELS, OAuthProvider } from '../lib/oauth';
+import { UnusedUploads } from '../components/UnusedUploads';
+
+// Sign-in details: email address and password, plus upload housekeeping
+export const AccountSettings = () => {
+  const dispatch = useAppDispatch();
+  const { user, emailChange, passwordUpdate, identities, identityLink } = useAppSelector((state) => state.auth);
+
+  const [email, setEmail] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mismatch, setMismatch] = useState(false);
+
+  // Don't show results from an earlier visit
+  useEffect(() => {
+    dispatch(resetAuthRequest('emailChange'));
+    dispatch(resetAuthRequest('passwordUpdate'));
+    dispatch(resetAuthRequest('identityLink'));
+    dispatch(fetchIdentities());
+  }, [dispatch]);
+
+  const handleEmailSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    dispatch(changeEmail(email));
+  };
+
+  // Accounts created through OAuth have no password to confirm yet
+  const hasPassword = identities.length === 0 || identities.some((identity) => identity.provider === 'email');
+
+  const handlePasswordSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setMismatch(newPassword !== confirmPassword);
+    if (newPassword !== confirmPassword) return;
+
+    const result = await dispatch(
+      updatePassword({ password: newPassword, currentPassword: hasPassword ? currentPassword : undefined })
+    );
+    if (updatePassword.fulfilled.match(result)) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  };
+
+  if (!user) return null;
+
+  const providerLabel = (provider: string) =>
+    provider === 'email' ? 'Email and password' : OAUTH_PROVIDER_LABELS[provider as OAuthProvider] ?? provider;
+  const unlinkedProviders = ENABLED_OAUTH_PROVIDERS.filter(
+    (provider) => !identities.some((identity) => identity.provider === provider)
+  );
+
+  return (
+    <div style={styles.container}>
+      <h1 style={styles.title}>Account Settings</h1>
+      <p style={styles.subtitle}>
+        Looking for your name and avatar? <Link to="/settings">Edit your profile</Link>
+      </p>
+
+      <form onSubmit={handleEmailSubmit} style={styles.form}>
+        <h2 style={styles.sectionTitle}>Email</h2>
+        <p style={styles.hint}>Currently {user.email}</p>
+        <div style={styles.formGroup}>
+          <label htmlFor="email" style={styles.label}>
+            New email
+          </label>
+          <input
+            type="email"
+            id="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            style={styles.input}
+          />
+        </div>
+        {emailChange.error && <p style={styles.error}>{emailChange.error}</p>}
+        {emailChange.succeeded && (
+          <p style={styles.success}>Check your inbox: follow the confirmation link to finish the change.</p>
+        )}
+        <button type="submit" disabled={emailChange.pending} style={styles.submitButton}>
+          {emailChange.pending ? 'Sending...' : 'Change email'}
+        </button>
+      </form>
+
+      <div style={styles.form}>
+        <h2 style={styles.sectionTitle}>Connected accounts</h2>
+        <p style={styles.hint}>Any of these can be used to log in.</p>
+        <ul style={styles.identityList}>
+          {identities.map((identity) => (
+            <li key={identity.identity_id} style={styles.identity}>
+              <span>
+                {providerLabel(identity.provider)}
+                {identity.identity_data?.email && (
+                  <span style={styles.hint}> · {identity.identity_data.email}</span>
+                )}
+              </span>
+              {identities.length > 1 && (
+                <button
+                  onClick={() => dispatch(unlinkIdentity(identity))}
+                  disabled={identityLink.pending}
+                  style={styles.secondaryButton}
+                >
+                  Disconnect
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {unlinkedProviders.map((provider) => (
+          <button
+            key={provider}
+            onClick={() => dispatch(linkIdentity(provider))}
+            disabled={identityLink.pending}
+            style={{ ...styles.secondaryButton, marginRight: '0.5rem' }}
+          >
+            Connect {OAUTH_PROVIDER_LABELS[provider]}
+          </button>
+        ))}
+        {identityLink.error && <p style={styles.error}>{identityLink.error}</p>}
+      </div>
+
+      <form onSubmit={handlePasswordSubmit} style={styles.form}>
+        <h2 style={styles.sectionTitle}>Password</h2>
+        {hasPassword && (
+          <div style={styles.formGroup}>
+            <label htmlFor="currentPassword" style={styles.label}>
+              Current password
+            </label>
+            <input
+              type="password"
+              id="currentPassword"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+              style={styles.input}
+            />
+          </div>
+        )}
+        <div style={styles.formGroup}>
+          <label htmlFor="newPassword" style={styles.label}>
+            New password
+          </label>
+          <input
+            type="password"
+            id="newPassword"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            required
+            minLength={6}
+            style={styles.input}
+          />
+        </div>
+        <div style={styles.formGroup}>
+          <label htmlFor="confirmPassword" style={styles.label}>
+            Confirm new password
+          </label>
+          <input
+            type="password"
+            id="confirmPassword"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            minLength={6}
+            style={styles.input}
+          />
+        </div>
+        {mismatch && <p style={styles.error}>Passwords do not match</p>}
+        {passwordUpdate.error && <p style={styles.error}>{passwordUpdate.error}</p>}
+        {passwordUpdate.succeeded && <p style={styles.success}>Your password has been updated.</p>}
+        <button type="submit" disabled={passwordUpdate.pending} style={styles.submitButton}>
+          {passwordUpdate.pending ? 'Saving...' : 'Change password'}
+        </button>
+      </form>
+
+      <div style={styles.form}>
+        <h2 style={styles.sectionTitle}>Uploads</h2>
+        <UnusedUploads />
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '800px',
+    margin: '0 auto',
+    padding: '2rem',
+  },
+  title: {
+    marginBottom: '0.5rem',
+    color: '#333',
+  },
+  subtitle: {
+    marginBottom: '2rem',
+    color: '#666',
+  },
+  form: {
+    marginBottom: '2rem',
+    backgroundColor: '#fff',
+    padding: '2rem',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  sectionTitle: {
+    marginBottom: '1rem',
+    color: '#333',
+    fontSize: '1.25rem',
+  },
+  hint: {
+    marginBottom: '1rem',
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  formGroup: {
+    marginBottom: '1.5rem',
+  },
+  label: {
+    display: 'block',
+    marginBottom: '0.5rem',
+    color: '#333',
+    fontWeight: '500',
+  },
+  input: {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box',
+  },
+  error: {
+    color: '#d32f2f',
+    marginBottom: '1rem',
+  },
+  success: {
+    color: '#2e7d32',
+    marginBottom: '1rem',
+  },
+  identityList: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 1rem',
+  },
+  identity: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '0.5rem 0',
+    borderBottom: '1px solid #eee',
+    color: '#333',
+  },
+  secondaryButton: {
+    padding: '0.4rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  submitButton: {
+    padding: '0.75rem 2rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+};
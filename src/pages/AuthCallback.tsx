@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { completeOAuthSignIn } from '../store/slices/authSlice';
+import { safeRedirectPath } from '../lib/redirect';
+
+// OAuth providers send the user back here after they log in or connect an account
+export const AuthCallback = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { oauth } = useAppSelector((state) => state.auth);
+
+  useEffect(() => {
+    const finish = async () => {
+      const result = await dispatch(completeOAuthSignIn());
+      if (completeOAuthSignIn.fulfilled.match(result)) {
+        navigate(safeRedirectPath(searchParams.get('next')), { replace: true });
+      }
+    };
+    finish();
+  }, [dispatch, navigate, searchParams]);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        {oauth.error ? (
+          <>
+            <h1 style={styles.title}>Sign-in failed</h1>
+            <p style={styles.error}>{oauth.error}</p>
+            <p style={styles.message}>
+              If you already have an account with this email address, log in with your password and
+              connect this provider under Account settings.
+            </p>
+            <p style={styles.message}>
+              <Link to="/login">Back to login</Link>
+            </p>
+          </>
+        ) : (
+          <p style={styles.message}>Signing you in...</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    minHeight: 'calc(100vh - 200px)',
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '2rem',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: '2rem',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+    width: '100%',
+    maxWidth: '400px',
+  },
+  title: {
+    marginBottom: '1.5rem',
+    textAlign: 'center',
+    color: '#333',
+  },
+  message: {
+    marginTop: '1rem',
+    textAlign: 'center',
+    color: '#666',
+  },
+  error: {
+    color: '#d32f2f',
+    fontSize: '0.875rem',
+    textAlign: 'center',
+  },
+};
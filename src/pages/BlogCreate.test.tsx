@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import { BlogCreate } from './BlogCreate';
+import { renderRoutes } from '../test/utils';
+import { AUTHOR, READER } from '../test/fixtures';
+
+const routes = [
+  { path: '/blogs/create', element: <BlogCreate /> },
+  { path: '/blogs', element: <p>Blog list</p> },
+  { path: '/my-posts', element: <p>My posts</p> },
+];
+
+describe('BlogCreate', () => {
+  it('publishes a post with tags and goes to the blog list', async () => {
+    const { repositories, user } = await renderRoutes(routes, { path: '/blogs/create', signedInAs: AUTHOR.id });
+
+    await user.type(screen.getByLabelText('Title'), 'Hello world');
+    await user.type(screen.getByLabelText('Content'), 'My first post');
+    await user.type(screen.getByLabelText('Tags'), 'Testing{Enter}');
+    await user.click(screen.getByRole('button', { name: 'Publish' }));
+
+    expect(await screen.findByText('Blog list')).toBeInTheDocument();
+    const { blogs } = await repositories.blogs.list({ page: 1, limit: 10, search: 'Hello world' });
+    expect(blogs[0]).toMatchObject({
+      title: 'Hello world',
+      content: 'My first post',
+      user_id: AUTHOR.id,
+      status: 'published',
+      tags: [expect.objectContaining({ slug: 'testing' })],
+    });
+  });
+
+  it('saves a draft and goes to the dashboard', async () => {
+    const { repositories, user } = await renderRoutes(routes, { path: '/blogs/create', signedInAs: AUTHOR.id });
+    const create = vi.spyOn(repositories.blogs, 'create');
+
+    await user.type(screen.getByLabelText('Title'), 'Work in progress');
+    await user.type(screen.getByLabelText('Content'), 'Not ready yet');
+    await user.click(screen.getByRole('button', { name: 'Save draft' }));
+
+    expect(await screen.findByText('My posts')).toBeInTheDocument();
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Work in progress', status: 'draft', publish_at: null }),
+      []
+    );
+  });
+
+  it('shows why the post was refused and stays on the form', async () => {
+    const { user } = await renderRoutes(routes, { path: '/blogs/create', signedInAs: READER.id });
+
+    await user.type(screen.getByLabelText('Title'), 'Not allowed');
+    await user.type(screen.getByLabelText('Content'), 'Readers cannot post');
+    await user.click(screen.getByRole('button', { name: 'Publish' }));
+
+    expect(await screen.findByText(/row-level security/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Title')).toHaveValue('Not allowed');
+  });
+});
@@ -1,74 +1,84 @@
-import { useState, FormEvent, ChangeEvent } from 'react';
+import { useState, useMemo, FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { createBlog } from '../store/slices/blogSlice';
-import { supabase } from '../lib/supabase';
+import { useAppSelector } from '../store/hooks';
+import { useCreateBlogMutation } from '../store/api/blogApi';
+import { errorMessage } from '../store/api/baseApi';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { TagInput } from '../components/TagInput';
+import { PublishControls } from '../components/PublishControls';
+import { DraftRestoreBanner } from '../components/DraftRestoreBanner';
+import { GalleryEditor } from '../components/GalleryEditor';
+import { getPublishIntent, fromDateTimeInput } from '../lib/blogStatus';
+import { blogDraftKey, BlogDraft } from '../lib/draftStore';
+import { GalleryItem, buildGallery, uploadGalleryImage } from '../lib/gallery';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import { useUnsavedChangesPrompt } from '../hooks/useUnsavedChangesPrompt';
+import { useUploads } from '../hooks/useUploads';
 
 export const BlogCreate = () => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [gallery, setGallery] = useState<GalleryItem[]>([]);
+  const imageUpload = useUploads(uploadGalleryImage);
 
-  const dispatch = useAppDispatch();
   const navigate = useNavigate();
-  const { loading, error } = useAppSelector((state) => state.blogs);
+  const [createBlog, { isLoading: loading, error }] = useCreateBlogMutation();
   const { user } = useAppSelector((state) => state.auth);
 
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const uploadImage = async (): Promise<string | null> => {
-    if (!imageFile || !user) return null;
-
-    try {
-      setUploading(true);
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('blog-images')
-        .upload(fileName, imageFile);
-
-      if (uploadError) throw uploadError;
+  const draft = useMemo<BlogDraft>(
+    () => ({ title, content, tags, gallery }),
+    [title, content, tags, gallery]
+  );
+  const isDirty = !!(title || content || tags.length > 0 || gallery.length > 0);
+  const { savedDraft, restoreDraft, discardDraft, clearDraft } = useDraftAutosave(
+    user ? blogDraftKey(user.id, null) : null,
+    draft,
+    isDirty
+  );
+  const allowNavigation = useUnsavedChangesPrompt(isDirty);
 
-      const { data } = supabase.storage.from('blog-images').getPublicUrl(fileName);
-      return data.publicUrl;
-    } catch (error) {
-      console.error('Error uploading image:', error);
-      return null;
-    } finally {
-      setUploading(false);
+  const handleRestoreDraft = () => {
+    const restored = restoreDraft();
+    if (restored) {
+      setTitle(restored.title);
+      setContent(restored.content);
+      setTags(restored.tags);
+      setGallery(restored.gallery ?? []);
     }
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
+    const intent = getPublishIntent(e);
 
-    let imageUrl: string | null = null;
-    if (imageFile) {
-      imageUrl = await uploadImage();
-    }
+    const files = gallery.flatMap((item) => (item.file ? [item.file] : []));
+    const uploaded = files.length > 0 && user ? await imageUpload.uploadAll(files, user.id) : [];
+    if (!uploaded) return; // the form shows why
 
-    const result = await dispatch(createBlog({ title, content, imageUrl }));
-    if (createBlog.fulfilled.match(result)) {
-      navigate('/blogs');
+    const result = await createBlog({
+      title,
+      content,
+      gallery: buildGallery(gallery, uploaded),
+      tags,
+      status: intent === 'draft' ? 'draft' : intent === 'schedule' ? 'scheduled' : 'published',
+      publishAt: intent === 'schedule' ? fromDateTimeInput(scheduleAt) : null,
+    });
+    if (result.data) {
+      await clearDraft();
+      allowNavigation();
+      // Unpublished posts are only listed on the author's dashboard
+      navigate(intent === 'publish' ? '/blogs' : '/my-posts');
     }
   };
 
   return (
     <div style={styles.container}>
       <h1 style={styles.title}>Create New Blog</h1>
+      {savedDraft && (
+        <DraftRestoreBanner savedAt={savedDraft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+      )}
       <form onSubmit={handleSubmit} style={styles.form}>
         <div style={styles.formGroup}>
           <label htmlFor="title" style={styles.label}>
@@ -87,47 +97,30 @@ export const BlogCreate = () => {
           <label htmlFor="content" style={styles.label}>
             Content
           </label>
-          <textarea
-            id="content"
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            required
-            rows={10}
-            style={styles.textarea}
-          />
+          <MarkdownEditor id="content" value={content} onChange={setContent} required />
         </div>
         <div style={styles.formGroup}>
-          <label htmlFor="image" style={styles.label}>
-            Image (Optional)
+          <label htmlFor="tags" style={styles.label}>
+            Tags
           </label>
-          <input
-            type="file"
-            id="image"
-            accept="image/*"
-            onChange={handleImageChange}
-            style={styles.fileInput}
-          />
-          {imagePreview && (
-            <img src={imagePreview} alt="Preview" style={styles.preview} />
-          )}
+          <TagInput id="tags" value={tags} onChange={setTags} />
         </div>
-        {error && <p style={styles.error}>{error}</p>}
-        <div style={styles.actions}>
-          <button
-            type="submit"
-            disabled={loading || uploading}
-            style={styles.submitButton}
-          >
-            {uploading ? 'Uploading...' : loading ? 'Creating...' : 'Create Blog'}
-          </button>
-          <button
-            type="button"
-            onClick={() => navigate('/blogs')}
-            style={styles.cancelButton}
-          >
-            Cancel
-          </button>
+        <div style={styles.formGroup}>
+          <label htmlFor="gallery" style={styles.label}>
+            Images (Optional)
+          </label>
+          <GalleryEditor id="gallery" items={gallery} onChange={setGallery} onError={imageUpload.setError} />
+          {imageUpload.error && <p style={styles.error}>{imageUpload.error}</p>}
         </div>
+        {error && <p style={styles.error}>{errorMessage(error)}</p>}
+        <PublishControls
+          scheduleAt={scheduleAt}
+          onScheduleAtChange={setScheduleAt}
+          busy={loading || imageUpload.uploading}
+          busyLabel={imageUpload.uploading ? imageUpload.progressLabel : 'Saving...'}
+          publishLabel="Publish"
+          onCancel={() => navigate('/blogs')}
+        />
       </form>
     </div>
   );
@@ -135,7 +128,7 @@ export const BlogCreate = () => {
 
 const styles: { [key: string]: React.CSSProperties } = {
   container: {
-    maxWidth: '800px',
+    maxWidth: '1100px',
     margin: '0 auto',
     padding: '2rem',
   },
@@ -166,53 +159,8 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '1rem',
     boxSizing: 'border-box',
   },
-  textarea: {
-    width: '100%',
-    padding: '0.75rem',
-    border: '1px solid #ddd',
-    borderRadius: '4px',
-    fontSize: '1rem',
-    fontFamily: 'inherit',
-    resize: 'vertical',
-    boxSizing: 'border-box',
-  },
-  fileInput: {
-    width: '100%',
-    padding: '0.5rem',
-    border: '1px solid #ddd',
-    borderRadius: '4px',
-  },
-  preview: {
-    marginTop: '1rem',
-    maxWidth: '100%',
-    maxHeight: '300px',
-    borderRadius: '4px',
-  },
   error: {
     color: '#d32f2f',
     marginBottom: '1rem',
   },
-  actions: {
-    display: 'flex',
-    gap: '1rem',
-    marginTop: '2rem',
-  },
-  submitButton: {
-    padding: '0.75rem 2rem',
-    backgroundColor: '#333',
-    color: '#fff',
-    border: 'none',
-    borderRadius: '4px',
-    fontSize: '1rem',
-    cursor: 'pointer',
-  },
-  cancelButton: {
-    padding: '0.75rem 2rem',
-    backgroundColor: '#ccc',
-    color: '#333',
-    border: 'none',
-    borderRadius: '4px',
-    fontSize: '1rem',
-    cursor: 'pointer',
-  },
 };
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import { BlogEdit } from './BlogEdit';
+import { renderRoutes } from '../test/utils';
+import { AUTHOR, OTHER_AUTHOR } from '../test/fixtures';
+
+const routes = [
+  { path: '/blogs/edit/:id', element: <BlogEdit /> },
+  { path: '/blogs', element: <p>Blog list</p> },
+  { path: '/blogs/:id', element: <p>Blog page</p> },
+];
+
+describe('BlogEdit', () => {
+  it('sends other authors back to the blog list', async () => {
+    await renderRoutes(routes, { path: '/blogs/edit/blog-1', signedInAs: OTHER_AUTHOR.id });
+
+    expect(await screen.findByText('Blog list')).toBeInTheDocument();
+  });
+
+  it('saves the changes and goes to the post', async () => {
+    const { repositories, router, user } = await renderRoutes(routes, {
+      path: '/blogs/edit/blog-1',
+      signedInAs: AUTHOR.id,
+    });
+
+    const title = await screen.findByLabelText('Title');
+    expect(title).toHaveValue('Post 1');
+    await user.clear(title);
+    await user.type(title, 'Post 1, revised');
+    await user.click(screen.getByRole('button', { name: 'Update' }));
+
+    expect(await screen.findByText('Blog page')).toBeInTheDocument();
+    expect(router.state.location.pathname).toBe('/blogs/blog-1');
+    expect(await repositories.blogs.get('blog-1')).toMatchObject({ title: 'Post 1, revised', status: 'published' });
+  });
+
+  it('says when the post does not exist', async () => {
+    await renderRoutes(routes, { path: '/blogs/edit/missing', signedInAs: AUTHOR.id });
+
+    expect(await screen.findByText('Blog not found')).toBeInTheDocument();
+  });
+});
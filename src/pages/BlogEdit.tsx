@@ -1,114 +1,123 @@
-import { useState, FormEvent, ChangeEvent, useEffect } from 'react';
+import { useState, FormEvent, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { fetchBlogById, updateBlog, clearCurrentBlog } from '../store/slices/blogSlice';
-import { supabase } from '../lib/supabase';
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useAppSelector } from '../store/hooks';
+import { useGetBlogQuery, useUpdateBlogMutation } from '../store/api/blogApi';
+import { errorMessage } from '../store/api/baseApi';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { TagInput } from '../components/TagInput';
+import { PublishControls } from '../components/PublishControls';
+import { DraftRestoreBanner } from '../components/DraftRestoreBanner';
+import { GalleryEditor } from '../components/GalleryEditor';
+import { blogDraftKey, BlogDraft } from '../lib/draftStore';
+import { GalleryItem, buildGallery, galleryChanged, galleryItemsFrom, uploadGalleryImage } from '../lib/gallery';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import { useUnsavedChangesPrompt } from '../hooks/useUnsavedChangesPrompt';
+import { useUploads } from '../hooks/useUploads';
+import { canModify } from '../lib/permissions';
+import {
+  getPublishIntent,
+  isLive,
+  fromDateTimeInput,
+  toDateTimeInput,
+  STATUS_LABELS,
+  effectiveStatus,
+} from '../lib/blogStatus';
 
 export const BlogEdit = () => {
   const { id } = useParams<{ id: string }>();
-  const dispatch = useAppDispatch();
   const navigate = useNavigate();
-  const { currentBlog, loading, error } = useAppSelector((state) => state.blogs);
+  // Edits start from the latest saved version, not a cached one
+  const { data: currentBlog, isLoading } = useGetBlogQuery(id ?? skipToken, { refetchOnMountOrArgChange: true });
+  const [updateBlog, { isLoading: saving, error }] = useUpdateBlogMutation();
   const { user } = useAppSelector((state) => state.auth);
 
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [removeImage, setRemoveImage] = useState(false);
-  const [uploading, setUploading] = useState(false);
-
-  useEffect(() => {
-    if (id) {
-      dispatch(fetchBlogById(id));
-    }
-    return () => {
-      dispatch(clearCurrentBlog());
-    };
-  }, [dispatch, id]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [gallery, setGallery] = useState<GalleryItem[]>([]);
+  const imageUpload = useUploads(uploadGalleryImage);
 
   useEffect(() => {
     if (currentBlog) {
       setTitle(currentBlog.title);
       setContent(currentBlog.content);
-      setImagePreview(currentBlog.image_url);
-      setRemoveImage(false);
+      setTags(currentBlog.tags.map((tag) => tag.name));
+      setScheduleAt(currentBlog.status === 'scheduled' ? toDateTimeInput(currentBlog.publish_at) : '');
+      setGallery(galleryItemsFrom(currentBlog.gallery));
     }
   }, [currentBlog]);
 
-  // Redirect if not owner
+  const draft = useMemo<BlogDraft>(
+    () => ({ title, content, tags, gallery }),
+    [title, content, tags, gallery]
+  );
+  const isDirty =
+    !!currentBlog &&
+    (title !== currentBlog.title ||
+      content !== currentBlog.content ||
+      tags.join('\n') !== currentBlog.tags.map((tag) => tag.name).join('\n') ||
+      galleryChanged(gallery, currentBlog.gallery));
+  const { savedDraft, restoreDraft, discardDraft, clearDraft } = useDraftAutosave(
+    user && currentBlog ? blogDraftKey(user.id, currentBlog.id) : null,
+    draft,
+    isDirty
+  );
+  const allowNavigation = useUnsavedChangesPrompt(isDirty);
+
+  // Redirect if not allowed to edit this post. The form isn't filled in yet,
+  // so it would count as unsaved changes.
   useEffect(() => {
-    if (currentBlog && user && currentBlog.user_id !== user.id) {
+    if (currentBlog && user && !canModify(user, 'blog', 'update', currentBlog)) {
+      allowNavigation();
       navigate('/blogs');
     }
-  }, [currentBlog, user, navigate]);
-
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      setRemoveImage(false);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const handleRemoveImage = () => {
-    setRemoveImage(true);
-    setImageFile(null);
-    setImagePreview(null);
-  };
-
-  const uploadImage = async (): Promise<string | null> => {
-    if (!imageFile || !user) return currentBlog?.image_url || null;
-
-    try {
-      setUploading(true);
-      const fileExt = imageFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('blog-images')
-        .upload(fileName, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data } = supabase.storage.from('blog-images').getPublicUrl(fileName);
-      return data.publicUrl;
-    } catch (error) {
-      console.error('Error uploading image:', error);
-      return currentBlog?.image_url || null;
-    } finally {
-      setUploading(false);
-    }
+  }, [currentBlog, user, navigate, allowNavigation]);
+
+  const handleRestoreDraft = () => {
+    const restored = restoreDraft();
+    if (!restored) return;
+    setTitle(restored.title);
+    setContent(restored.content);
+    setTags(restored.tags);
+    // Drafts from before galleries keep the saved images
+    if (restored.gallery) setGallery(restored.gallery);
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (!id) return;
-
-    let imageUrl: string | null = currentBlog?.image_url || null;
-
-    // If user chose to remove the image and didn't upload a new one,
-    // clear the image URL.
-    if (removeImage && !imageFile) {
-      imageUrl = null;
-    }
-
-    if (imageFile) {
-      imageUrl = await uploadImage();
-    }
-
-    const result = await dispatch(updateBlog({ id, title, content, imageUrl }));
-    if (updateBlog.fulfilled.match(result)) {
+    if (!id || !currentBlog) return;
+    const intent = getPublishIntent(e);
+
+    const files = gallery.flatMap((item) => (item.file ? [item.file] : []));
+    const uploaded = files.length > 0 && user ? await imageUpload.uploadAll(files, user.id) : [];
+    if (!uploaded) return; // the form shows why
+
+    const result = await updateBlog({
+      id,
+      title,
+      content,
+      // Images left out of the gallery are deleted by updateBlog
+      gallery: buildGallery(gallery, uploaded),
+      tags,
+      status: intent === 'draft' ? 'draft' : intent === 'schedule' ? 'scheduled' : 'published',
+      // Updating a live post keeps its original publish date
+      publishAt:
+        intent === 'schedule'
+          ? fromDateTimeInput(scheduleAt)
+          : intent === 'publish' && isLive(currentBlog)
+            ? currentBlog.publish_at
+            : null,
+    });
+    if (result.data) {
+      await clearDraft();
+      allowNavigation();
       navigate(`/blogs/${id}`);
     }
   };
 
-  if (loading && !currentBlog) {
+  if (isLoading) {
     return (
       <div style={styles.container}>
         <p>Loading...</p>
@@ -127,6 +136,15 @@ export const BlogEdit = () => {
   return (
     <div style={styles.container}>
       <h1 style={styles.title}>Edit Blog</h1>
+      <p style={styles.status}>
+        Status: <strong>{STATUS_LABELS[effectiveStatus(currentBlog)]}</strong>
+        {currentBlog.status === 'scheduled' && !isLive(currentBlog) && currentBlog.publish_at && (
+          <> for {new Date(currentBlog.publish_at).toLocaleString()}</>
+        )}
+      </p>
+      {savedDraft && (
+        <DraftRestoreBanner savedAt={savedDraft.savedAt} onRestore={handleRestoreDraft} onDiscard={discardDraft} />
+      )}
       <form onSubmit={handleSubmit} style={styles.form}>
         <div style={styles.formGroup}>
           <label htmlFor="title" style={styles.label}>
@@ -145,56 +163,30 @@ export const BlogEdit = () => {
           <label htmlFor="content" style={styles.label}>
             Content
           </label>
-          <textarea
-            id="content"
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            required
-            rows={10}
-            style={styles.textarea}
-          />
+          <MarkdownEditor id="content" value={content} onChange={setContent} required />
         </div>
         <div style={styles.formGroup}>
-          <label htmlFor="image" style={styles.label}>
-            Image (Optional)
+          <label htmlFor="tags" style={styles.label}>
+            Tags
           </label>
-          <input
-            type="file"
-            id="image"
-            accept="image/*"
-            onChange={handleImageChange}
-            style={styles.fileInput}
-          />
-          {imagePreview && (
-            <div style={styles.imageWrapper}>
-              <img src={imagePreview} alt="Preview" style={styles.preview} />
-              <button
-                type="button"
-                onClick={handleRemoveImage}
-                style={styles.removeImageButton}
-              >
-                Remove Image
-              </button>
-            </div>
-          )}
+          <TagInput id="tags" value={tags} onChange={setTags} />
         </div>
-        {error && <p style={styles.error}>{error}</p>}
-        <div style={styles.actions}>
-          <button
-            type="submit"
-            disabled={loading || uploading}
-            style={styles.submitButton}
-          >
-            {uploading ? 'Uploading...' : loading ? 'Updating...' : 'Update Blog'}
-          </button>
-          <button
-            type="button"
-            onClick={() => navigate(`/blogs/${id}`)}
-            style={styles.cancelButton}
-          >
-            Cancel
-          </button>
+        <div style={styles.formGroup}>
+          <label htmlFor="gallery" style={styles.label}>
+            Images (Optional)
+          </label>
+          <GalleryEditor id="gallery" items={gallery} onChange={setGallery} onError={imageUpload.setError} />
+          {imageUpload.error && <p style={styles.error}>{imageUpload.error}</p>}
         </div>
+        {error && <p style={styles.error}>{errorMessage(error)}</p>}
+        <PublishControls
+          scheduleAt={scheduleAt}
+          onScheduleAtChange={setScheduleAt}
+          busy={saving || imageUpload.uploading}
+          busyLabel={imageUpload.uploading ? imageUpload.progressLabel : 'Updating...'}
+          publishLabel={isLive(currentBlog) ? 'Update' : 'Publish'}
+          onCancel={() => navigate(`/blogs/${id}`)}
+        />
       </form>
     </div>
   );
@@ -202,14 +194,18 @@ export const BlogEdit = () => {
 
 const styles: { [key: string]: React.CSSProperties } = {
   container: {
-    maxWidth: '800px',
+    maxWidth: '1100px',
     margin: '0 auto',
     padding: '2rem',
   },
   title: {
-    marginBottom: '2rem',
+    marginBottom: '0.5rem',
     color: '#333',
   },
+  status: {
+    marginBottom: '2rem',
+    color: '#666',
+  },
   form: {
     backgroundColor: '#fff',
     padding: '2rem',
@@ -233,69 +229,8 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '1rem',
     boxSizing: 'border-box',
   },
-  textarea: {
-    width: '100%',
-    padding: '0.75rem',
-    border: '1px solid #ddd',
-    borderRadius: '4px',
-    fontSize: '1rem',
-    fontFamily: 'inherit',
-    resize: 'vertical',
-    boxSizing: 'border-box',
-  },
-  fileInput: {
-    width: '100%',
-    padding: '0.5rem',
-    border: '1px solid #ddd',
-    borderRadius: '4px',
-  },
-  preview: {
-    marginTop: '1rem',
-    maxWidth: '100%',
-    maxHeight: '300px',
-    borderRadius: '4px',
-  },
-  imageWrapper: {
-    marginTop: '1rem',
-    display: 'flex',
-    flexDirection: 'column',
-    gap: '0.75rem',
-  },
-  removeImageButton: {
-    alignSelf: 'flex-start',
-    padding: '0.5rem 1rem',
-    backgroundColor: '#d32f2f',
-    color: '#fff',
-    border: 'none',
-    borderRadius: '4px',
-    fontSize: '0.9rem',
-    cursor: 'pointer',
-  },
   error: {
     color: '#d32f2f',
     marginBottom: '1rem',
   },
-  actions: {
-    display: 'flex',
-    gap: '1rem',
-    marginTop: '2rem',
-  },
-  submitButton: {
-    padding: '0.75rem 2rem',
-    backgroundColor: '#333',
-    color: '#fff',
-    border: 'none',
-    borderRadius: '4px',
-    fontSize: '1rem',
-    cursor: 'pointer',
-  },
-  cancelButton: {
-    padding: '0.75rem 2rem',
-    backgroundColor: '#ccc',
-    color: '#333',
-    border: 'none',
-    borderRadius: '4px',
-    fontSize: '1rem',
-    cursor: 'pointer',
-  },
 };
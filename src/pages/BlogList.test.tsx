@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import { BlogList } from './BlogList';
+import { blogApi } from '../store/api/blogApi';
+import { commentApi } from '../store/api/commentApi';
+import { renderRoutes } from '../test/utils';
+import { publishedBlogs, testSeed } from '../test/fixtures';
+
+const routes = [
+  { path: '/blogs', element: <BlogList /> },
+  { path: '/blogs/:id', element: <p>Blog page</p> },
+];
+
+const seed = testSeed({ blogs: publishedBlogs(7) });
+
+const titles = () => screen.getAllByRole('heading', { level: 2 }).map((heading) => heading.textContent);
+
+describe('BlogList', () => {
+  it('shows the first page, newest first', async () => {
+    await renderRoutes(routes, { path: '/blogs', seed });
+
+    expect(await screen.findByText('Post 1')).toBeInTheDocument();
+    expect(titles()).toEqual(['Post 1', 'Post 2', 'Post 3', 'Post 4', 'Post 5']);
+    expect(screen.getByText('Page 1 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+  });
+
+  it('pages through the list, keeping the page in the URL', async () => {
+    const { router, user } = await renderRoutes(routes, { path: '/blogs', seed });
+
+    await user.click(await screen.findByRole('button', { name: 'Next' }));
+
+    expect(await screen.findByText('Post 6')).toBeInTheDocument();
+    expect(titles()).toEqual(['Post 6', 'Post 7']);
+    expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+    expect(router.state.location.search).toBe('?page=2');
+
+    await user.click(screen.getByRole('button', { name: 'Previous' }));
+    expect(await screen.findByText('Post 1')).toBeInTheDocument();
+  });
+
+  it('opens on the page from the URL', async () => {
+    await renderRoutes(routes, { path: '/blogs?page=2', seed });
+
+    expect(await screen.findByText('Post 7')).toBeInTheDocument();
+    expect(screen.getByText('Page 2 of 2')).toBeInTheDocument();
+  });
+
+  it('has no pagination for a single page', async () => {
+    await renderRoutes(routes, { path: '/blogs' });
+
+    expect(await screen.findByText('Post 3')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Next' })).not.toBeInTheDocument();
+  });
+
+  it('starts loading a post, but not its comments, when "Read More" is hovered', async () => {
+    const { store, repositories, user } = await renderRoutes(routes, { path: '/blogs', seed });
+    const subscribe = vi.spyOn(repositories.comments, 'subscribe');
+
+    await screen.findByText('Post 1');
+    await user.hover(screen.getAllByRole('link', { name: 'Read More →' })[0]);
+
+    await vi.waitFor(() =>
+      expect(blogApi.endpoints.getBlog.select('blog-1')(store.getState()).data?.title).toBe('Post 1')
+    );
+    expect(commentApi.endpoints.getComments.select('blog-1')(store.getState()).data).toBeUndefined();
+    expect(subscribe).not.toHaveBeenCalled();
+  });
+
+  it('shows the cached list at once when coming back to it', async () => {
+    const { repositories, router, user } = await renderRoutes(routes, { path: '/blogs', seed });
+    await screen.findByText('Post 1');
+    const list = vi.spyOn(repositories.blogs, 'list');
+
+    await user.click(screen.getAllByRole('link', { name: 'Read More →' })[0]);
+    expect(await screen.findByText('Blog page')).toBeInTheDocument();
+    await router.navigate(-1);
+
+    expect(await screen.findByText('Post 1')).toBeInTheDocument();
+    expect(screen.queryByText('Loading blogs...')).not.toBeInTheDocument();
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it('says when there are no posts', async () => {
+    await renderRoutes(routes, { path: '/blogs', seed: testSeed({ blogs: [] }) });
+
+    expect(await screen.findByText('No blogs found. Create your first blog!')).toBeInTheDocument();
+  });
+});
@@ -1,89 +1,176 @@
-import { useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { useEffect, useMemo } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { fetchBlogs, setPage } from '../store/slices/blogSlice';
+import { BLOGS_PER_PAGE, watchNewBlogs } from '../store/slices/blogSlice';
+import { blogApi, useGetBlogsQuery } from '../store/api/blogApi';
+import { BlogFilters } from '../lib/repositories/types';
+import { Blog } from '../lib/supabase';
+import { fetchProfiles } from '../store/slices/profileSlice';
+import { markdownExcerpt } from '../lib/markdown';
+import { parseBlogListQuery, toBlogListParams } from '../lib/blogQuery';
+import { AuthorBadge } from '../components/AuthorBadge';
+import { BlogFilterBar } from '../components/BlogFilterBar';
+import { TagChips } from '../components/TagChips';
+import { TagCloud } from '../components/TagCloud';
+
+const NO_BLOGS: Blog[] = [];
 
 export const BlogList = () => {
   const dispatch = useAppDispatch();
-  const { blogs, pagination, loading } = useAppSelector((state) => state.blogs);
+  const newBlogIds = useAppSelector((state) => state.blogs.newBlogIds);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Also rendered for /tags/:slug, where the tag comes from the path
+  const { slug } = useParams<{ slug: string }>();
+  const query = useMemo(
+    () => ({ ...parseBlogListQuery(searchParams), tag: slug }),
+    [searchParams, slug]
+  );
+  const { page, tag, ...filters } = query;
+  const tagName = useAppSelector((state) => state.blogs.tags.find((t) => t.slug === tag)?.name ?? tag);
+
+  // Searches are ranked by relevance unless another sort was chosen
+  const sort = query.sort ?? (query.search ? 'relevance' : 'newest');
+
+  // Cached pages show at once when coming back to the list
+  const { data, isLoading, isFetching, refetch } = useGetBlogsQuery({ ...query, limit: BLOGS_PER_PAGE, sort });
+  const blogs = data?.blogs ?? NO_BLOGS;
+  const total = data?.total ?? 0;
+
+  // Hovering "Read More" starts loading the post. Not its comments: their
+  // query keeps a realtime channel open, which only the post page should do.
+  const prefetchBlog = blogApi.usePrefetch('getBlog');
+
+  useEffect(() => dispatch(watchNewBlogs()), [dispatch]);
 
   useEffect(() => {
-    dispatch(fetchBlogs({ page: pagination.page, limit: pagination.limit }));
-  }, [dispatch, pagination.page, pagination.limit]);
+    if (blogs.length > 0) {
+      dispatch(fetchProfiles(blogs.map((blog) => blog.user_id)));
+    }
+  }, [dispatch, blogs]);
 
-  const totalPages = Math.ceil(pagination.total / pagination.limit);
+  const totalPages = Math.ceil(total / BLOGS_PER_PAGE);
 
   const handlePageChange = (newPage: number) => {
     if (newPage >= 1 && newPage <= totalPages) {
-      dispatch(setPage(newPage));
+      setSearchParams(toBlogListParams({ ...query, page: newPage }));
     }
   };
 
-  if (loading && blogs.length === 0) {
-    return (
-      <div style={styles.container}>
-        <p>Loading blogs...</p>
-      </div>
-    );
-  }
+  // Any filter change starts again from the first page
+  const handleFiltersChange = (newFilters: BlogFilters) => {
+    setSearchParams(toBlogListParams({ ...newFilters, page: 1 }));
+  };
+
+  const isFiltered = !!(tag || filters.search || filters.userId || filters.from || filters.to);
+
+  // New posts land at the top of the unfiltered, newest-first list. Ones
+  // the list was loaded with already are not news.
+  const newCount = newBlogIds.filter((id) => !blogs.some((blog) => blog.id === id)).length;
+  const showNewPosts = newCount > 0 && !isFiltered && sort === 'newest';
+  const handleShowNewPosts = () => {
+    if (page === 1) {
+      refetch();
+    } else {
+      setSearchParams(toBlogListParams({ ...query, page: 1 }));
+    }
+  };
 
   return (
     <div style={styles.container}>
-      <h1 style={styles.title}>All Blogs</h1>
-      {blogs.length === 0 ? (
-        <p style={styles.empty}>No blogs found. Create your first blog!</p>
-      ) : (
-        <>
-          <div style={styles.blogGrid}>
-            {blogs.map((blog) => (
-              <div key={blog.id} style={styles.blogCard}>
-                {blog.image_url && (
-                  <img src={blog.image_url} alt={blog.title} style={styles.image} />
-                )}
-                <div style={styles.cardContent}>
-                  <h2 style={styles.blogTitle}>{blog.title}</h2>
-                  <p style={styles.blogExcerpt}>
-                    {blog.content.length > 150
-                      ? `${blog.content.substring(0, 150)}...`
-                      : blog.content}
-                  </p>
-                  <div style={styles.cardFooter}>
-                    <Link to={`/blogs/${blog.id}`} style={styles.readMore}>
-                      Read More →
-                    </Link>
-                    <span style={styles.date}>
-                      {new Date(blog.created_at).toLocaleDateString()}
-                    </span>
+      <h1 style={styles.title}>{tag ? `Posts tagged #${tagName}` : 'All Blogs'}</h1>
+      {tag && (
+        <Link to="/blogs" style={styles.allPostsLink}>
+          ← All posts
+        </Link>
+      )}
+      <div style={styles.layout}>
+        <div style={styles.main}>
+          <BlogFilterBar filters={filters} onChange={handleFiltersChange} />
+          {showNewPosts && (
+            <button onClick={handleShowNewPosts} style={styles.newPostsBanner}>
+              {newCount} new {newCount === 1 ? 'post' : 'posts'} — show
+            </button>
+          )}
+          {isFiltered && !isFetching && (
+            <p style={styles.resultCount}>
+              {total} {total === 1 ? 'post' : 'posts'} found
+              {filters.search && <> for "{filters.search}"</>}
+            </p>
+          )}
+          {isLoading ? (
+            <p>Loading blogs...</p>
+          ) : blogs.length === 0 ? (
+            <p style={styles.empty}>
+              {isFiltered ? 'No blogs match your search.' : 'No blogs found. Create your first blog!'}
+            </p>
+          ) : (
+            <>
+              <div style={styles.blogGrid}>
+                {blogs.map((blog) => (
+                  <div key={blog.id} style={styles.blogCard}>
+                    {/* The gallery's cover. Posts from before thumbnails existed only have the full image */}
+                    {blog.image_url && (
+                      <img
+                        src={blog.thumbnail_url ?? blog.image_url}
+                        alt={blog.gallery[0]?.alt || blog.title}
+                        loading="lazy"
+                        style={styles.image}
+                      />
+                    )}
+                    <div style={styles.cardContent}>
+                      <h2 style={styles.blogTitle}>{blog.title}</h2>
+                      <div style={styles.author}>
+                        <AuthorBadge userId={blog.user_id} />
+                      </div>
+                      <p style={styles.blogExcerpt}>{markdownExcerpt(blog.content, 150)}</p>
+                      <TagChips tags={blog.tags} style={styles.tags} />
+                      <div style={styles.cardFooter}>
+                        <Link
+                          to={`/blogs/${blog.id}`}
+                          onMouseEnter={() => prefetchBlog(blog.id)}
+                          onFocus={() => prefetchBlog(blog.id)}
+                          style={styles.readMore}
+                        >
+                          Read More →
+                        </Link>
+                        <span style={styles.date}>
+                          👍 {blog.like_count} · {new Date(blog.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
-            ))}
-          </div>
 
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div style={styles.pagination}>
-              <button
-                onClick={() => handlePageChange(pagination.page - 1)}
-                disabled={pagination.page === 1}
-                style={styles.paginationButton}
-              >
-                Previous
-              </button>
-              <span style={styles.pageInfo}>
-                Page {pagination.page} of {totalPages}
-              </span>
-              <button
-                onClick={() => handlePageChange(pagination.page + 1)}
-                disabled={pagination.page === totalPages}
-                style={styles.paginationButton}
-              >
-                Next
-              </button>
-            </div>
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div style={styles.pagination}>
+                  <button
+                    onClick={() => handlePageChange(page - 1)}
+                    disabled={page === 1}
+                    style={styles.paginationButton}
+                  >
+                    Previous
+                  </button>
+                  <span style={styles.pageInfo}>
+                    Page {page} of {totalPages}
+                  </span>
+                  <button
+                    onClick={() => handlePageChange(page + 1)}
+                    disabled={page === totalPages}
+                    style={styles.paginationButton}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </>
           )}
-        </>
-      )}
+        </div>
+        <div style={styles.sidebar}>
+          <TagCloud activeSlug={tag} />
+        </div>
+      </div>
     </div>
   );
 };
@@ -98,6 +185,43 @@ const styles: { [key: string]: React.CSSProperties } = {
     marginBottom: '2rem',
     color: '#333',
   },
+  allPostsLink: {
+    display: 'inline-block',
+    marginBottom: '1rem',
+    color: '#333',
+  },
+  layout: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'flex-start',
+    gap: '2rem',
+  },
+  main: {
+    flex: '1 1 600px',
+    minWidth: 0,
+  },
+  sidebar: {
+    flex: '0 1 260px',
+  },
+  tags: {
+    marginBottom: '1rem',
+  },
+  newPostsBanner: {
+    display: 'block',
+    width: '100%',
+    marginBottom: '1rem',
+    padding: '0.75rem',
+    backgroundColor: '#e3f2fd',
+    color: '#1565c0',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '0.95rem',
+    cursor: 'pointer',
+  },
+  resultCount: {
+    marginBottom: '1rem',
+    color: '#666',
+  },
   empty: {
     textAlign: 'center',
     color: '#666',
@@ -130,6 +254,9 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: '#333',
     fontSize: '1.25rem',
   },
+  author: {
+    marginBottom: '0.75rem',
+  },
   blogExcerpt: {
     color: '#666',
     marginBottom: '1rem',
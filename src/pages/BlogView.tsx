@@ -1,43 +1,77 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
+import { skipToken } from '@reduxjs/toolkit/query';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { fetchBlogById, deleteBlog, clearCurrentBlog } from '../store/slices/blogSlice';
-import { fetchComments, clearComments } from '../store/slices/commentSlice';
+import { useGetBlogQuery, useDeleteBlogMutation } from '../store/api/blogApi';
+import { useGetCommentsQuery, selectReplyIds, selectCommentCount } from '../store/api/commentApi';
+import { requestsCleared, selectIsDeleting, selectRequest } from '../store/slices/requestSlice';
+import { fetchProfiles } from '../store/slices/profileSlice';
+import { fetchReactions, clearReactions } from '../store/slices/reactionSlice';
 import { CommentForm } from '../components/CommentForm';
-import { CommentItem } from '../components/CommentItem';
+import { AuthorBadge } from '../components/AuthorBadge';
+import { TagChips } from '../components/TagChips';
+import { isLive, effectiveStatus, STATUS_LABELS } from '../lib/blogStatus';
+import { canModify, hasPermission } from '../lib/permissions';
+import { CommentThreadItem } from '../components/CommentItem';
+import { MarkdownContent } from '../components/MarkdownContent';
+import { RevisionHistory } from '../components/RevisionHistory';
+import { ReactionBar } from '../components/ReactionBar';
+import { ReportButton } from '../components/ReportButton';
+import { ImageGallery } from '../components/ImageGallery';
 
 export const BlogView = () => {
   const { id } = useParams<{ id: string }>();
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
-  const { currentBlog, loading } = useAppSelector((state) => state.blogs);
-  const { comments, loading: commentsLoading } = useAppSelector((state) => state.comments);
+  // Cached, so coming back to a post shows it at once. The comments stay
+  // live (other readers' comments, edits and deletes) while cached.
+  const { data: currentBlog, isLoading } = useGetBlogQuery(id ?? skipToken);
+  const { data: comments, isLoading: commentsLoading } = useGetCommentsQuery(id ?? skipToken);
+  const [deleteBlog] = useDeleteBlogMutation();
+  const deleting = useAppSelector((state) => !!id && selectIsDeleting(state, id));
+  const deleteError = useAppSelector((state) => (id ? selectRequest(state, 'deleteBlog', id).error : null));
+  const rootCommentIds = selectReplyIds(comments, null);
+  const commentCount = selectCommentCount(comments);
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
-    if (id) {
-      dispatch(fetchBlogById(id));
-      dispatch(fetchComments(id));
-    }
     return () => {
-      dispatch(clearCurrentBlog());
-      dispatch(clearComments());
+      dispatch(clearReactions());
+      if (id) dispatch(requestsCleared(id));
     };
   }, [dispatch, id]);
 
+  // Refetched when the user changes: which reactions are theirs depends on who they are
+  useEffect(() => {
+    if (id) {
+      dispatch(fetchReactions(id));
+    }
+  }, [dispatch, id, user?.id, user?.role]);
+
+  // Load the blog author's and commenters' profiles for their names and avatars
+  useEffect(() => {
+    const authorIds = Object.values(comments?.byId ?? {}).map((comment) => comment.user_id);
+    if (currentBlog) authorIds.push(currentBlog.user_id);
+    if (authorIds.length > 0) {
+      dispatch(fetchProfiles(authorIds));
+    }
+  }, [dispatch, currentBlog, comments]);
+
   const handleDelete = async () => {
     if (!id) return;
     if (window.confirm('Are you sure you want to delete this blog?')) {
-      const result = await dispatch(deleteBlog(id));
-      if (deleteBlog.fulfilled.match(result)) {
+      const result = await deleteBlog(id);
+      if (!result.error) {
         navigate('/blogs');
       }
     }
   };
 
-  const isOwner = currentBlog && user && currentBlog.user_id === user.id;
+  const canEdit = !!currentBlog && canModify(user, 'blog', 'update', currentBlog);
+  const canDelete = !!currentBlog && canModify(user, 'blog', 'delete', currentBlog);
 
-  if (loading) {
+  if (isLoading) {
     return (
       <div style={styles.container}>
         <p>Loading...</p>
@@ -58,32 +92,63 @@ export const BlogView = () => {
     <div style={styles.container}>
       <Link to="/blogs" style={styles.backLink}>← Back to Blogs</Link>
       <article style={styles.article}>
-        <h1 style={styles.title}>{currentBlog.title}</h1>
-        {currentBlog.image_url && (
-          <img src={currentBlog.image_url} alt={currentBlog.title} style={styles.image} />
+        {!isLive(currentBlog) && (
+          <p style={styles.statusNotice}>
+            {STATUS_LABELS[effectiveStatus(currentBlog)]}
+            {currentBlog.status === 'scheduled' && currentBlog.publish_at
+              ? ` — goes live ${new Date(currentBlog.publish_at).toLocaleString()}`
+              : ' — only you can see this post'}
+          </p>
+        )}
+        {currentBlog.hidden_at && (
+          <p style={styles.statusNotice}>Hidden by a moderator — only you and moderators can see this post</p>
         )}
+        <h1 style={styles.title}>{currentBlog.title}</h1>
+        <ImageGallery images={currentBlog.gallery} fallbackAlt={currentBlog.title} />
         <div style={styles.meta}>
+          <AuthorBadge userId={currentBlog.user_id} size={28} />
           <span>Created: {new Date(currentBlog.created_at).toLocaleString()}</span>
           {currentBlog.updated_at !== currentBlog.created_at && (
             <span>Updated: {new Date(currentBlog.updated_at).toLocaleString()}</span>
           )}
+          <button onClick={() => setShowHistory(!showHistory)} style={styles.historyToggle}>
+            {showHistory ? 'Hide history' : 'History'}
+          </button>
+        </div>
+        <TagChips tags={currentBlog.tags} style={styles.tags} />
+        {showHistory && (
+          <div style={styles.history}>
+            <h2 style={styles.historyTitle}>Revision history</h2>
+            <RevisionHistory blogId={currentBlog.id} canRestore={canEdit} />
+          </div>
+        )}
+        <MarkdownContent source={currentBlog.content} style={styles.content} />
+        <div style={styles.articleFooter}>
+          <ReactionBar target={{ blogId: currentBlog.id }} />
+          {hasPermission(user, 'content:report') && currentBlog.user_id !== user?.id && (
+            <ReportButton blogId={currentBlog.id} />
+          )}
         </div>
-        <div style={styles.content}>{currentBlog.content}</div>
-        {isOwner && (
+        {(canEdit || canDelete) && (
           <div style={styles.actions}>
-            <Link to={`/blogs/edit/${currentBlog.id}`} style={styles.editButton}>
-              Edit
-            </Link>
-            <button onClick={handleDelete} style={styles.deleteButton}>
-              Delete
-            </button>
+            {canEdit && (
+              <Link to={`/blogs/edit/${currentBlog.id}`} style={styles.editButton}>
+                Edit
+              </Link>
+            )}
+            {canDelete && (
+              <button onClick={handleDelete} disabled={deleting} style={styles.deleteButton}>
+                {deleting ? 'Deleting...' : 'Delete'}
+              </button>
+            )}
+            {deleteError && <span style={styles.error}>{deleteError}</span>}
           </div>
         )}
       </article>
 
       {/* Comments Section */}
       <div style={styles.commentsSection}>
-        <h2 style={styles.commentsTitle}>Comments ({comments.length})</h2>
+        <h2 style={styles.commentsTitle}>Comments ({commentCount})</h2>
         
         {isAuthenticated ? (
           <div style={styles.commentFormContainer}>
@@ -98,12 +163,12 @@ export const BlogView = () => {
 
         {commentsLoading ? (
           <p>Loading comments...</p>
-        ) : comments.length === 0 ? (
+        ) : rootCommentIds.length === 0 ? (
           <p style={styles.noComments}>No comments yet. Be the first to comment!</p>
         ) : (
           <div style={styles.commentsList}>
-            {comments.map((comment) => (
-              <CommentItem key={comment.id} comment={comment} />
+            {rootCommentIds.map((commentId) => (
+              <CommentThreadItem key={commentId} blogId={currentBlog.id} id={commentId} />
             ))}
           </div>
         )}
@@ -130,31 +195,61 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: '8px',
     boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
   },
+  statusNotice: {
+    marginBottom: '1rem',
+    padding: '0.5rem 1rem',
+    backgroundColor: '#fff3cd',
+    color: '#856404',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+  },
   title: {
     marginBottom: '1rem',
     color: '#333',
     fontSize: '2rem',
   },
-  image: {
-    width: '100%',
-    maxHeight: '400px',
-    objectFit: 'cover',
-    borderRadius: '8px',
-    marginBottom: '1rem',
-  },
   meta: {
     display: 'flex',
+    alignItems: 'center',
     gap: '1rem',
     marginBottom: '1.5rem',
     color: '#666',
     fontSize: '0.875rem',
   },
+  tags: {
+    marginBottom: '1.5rem',
+  },
+  historyToggle: {
+    marginLeft: 'auto',
+    padding: '0.25rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '0.875rem',
+    cursor: 'pointer',
+  },
+  history: {
+    marginBottom: '2rem',
+    padding: '1rem',
+    backgroundColor: '#f9f9f9',
+    borderRadius: '8px',
+  },
+  historyTitle: {
+    marginBottom: '1rem',
+    color: '#333',
+    fontSize: '1.1rem',
+  },
   content: {
     lineHeight: '1.8',
     color: '#333',
-    whiteSpace: 'pre-wrap',
     marginBottom: '2rem',
   },
+  articleFooter: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1rem',
+  },
   actions: {
     display: 'flex',
     gap: '1rem',
@@ -177,6 +272,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: '4px',
     cursor: 'pointer',
   },
+  error: {
+    alignSelf: 'center',
+    color: '#d32f2f',
+    fontSize: '0.875rem',
+  },
   commentsSection: {
     marginTop: '2rem',
     backgroundColor: '#fff',
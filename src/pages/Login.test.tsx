@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import { Login } from './Login';
+import { renderRoutes } from '../test/utils';
+import { AUTHOR } from '../test/fixtures';
+
+const routes = [
+  { path: '/login', element: <Login /> },
+  { path: '/blogs', element: <p>Blog list</p> },
+  { path: '/blogs/create', element: <p>Create form</p> },
+];
+
+describe('Login', () => {
+  it('logs in and goes to the blog list', async () => {
+    const { store, user } = await renderRoutes(routes, { path: '/login' });
+
+    await user.type(screen.getByLabelText('Email'), AUTHOR.email);
+    await user.type(screen.getByLabelText('Password'), AUTHOR.password);
+    await user.click(screen.getByRole('button', { name: 'Login' }));
+
+    expect(await screen.findByText('Blog list')).toBeInTheDocument();
+    expect(store.getState().auth.user?.id).toBe(AUTHOR.id);
+  });
+
+  it('returns to the page that asked for the login', async () => {
+    const { user } = await renderRoutes(routes, {
+      path: '/login',
+      state: { from: { pathname: '/blogs/create', search: '', hash: '' } },
+    });
+
+    await user.type(screen.getByLabelText('Email'), AUTHOR.email);
+    await user.type(screen.getByLabelText('Password'), AUTHOR.password);
+    await user.click(screen.getByRole('button', { name: 'Login' }));
+
+    expect(await screen.findByText('Create form')).toBeInTheDocument();
+  });
+
+  it('shows why the login failed and stays on the form', async () => {
+    const { user } = await renderRoutes(routes, { path: '/login' });
+
+    await user.type(screen.getByLabelText('Email'), AUTHOR.email);
+    await user.type(screen.getByLabelText('Password'), 'wrong');
+    await user.click(screen.getByRole('button', { name: 'Login' }));
+
+    expect(await screen.findByText('Invalid login credentials')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Login' })).toBeInTheDocument();
+  });
+
+  it('explains an expired session', async () => {
+    await renderRoutes(routes, { path: '/login', state: { sessionExpired: true } });
+
+    expect(screen.getByText(/Your session has expired/)).toBeInTheDocument();
+  });
+
+  it('emails a login link', async () => {
+    const { user } = await renderRoutes(routes, { path: '/login' });
+
+    await user.click(screen.getByRole('button', { name: 'Email me a login link' }));
+    await user.type(screen.getByLabelText('Email'), AUTHOR.email);
+    await user.click(screen.getByRole('button', { name: 'Send login link' }));
+
+    expect(await screen.findByText('Check your email')).toBeInTheDocument();
+    expect(screen.getByText(`We sent a login link to ${AUTHOR.email}. Open it on this device to sign in.`)).toBeInTheDocument();
+  });
+});
@@ -1,30 +1,88 @@
 import { useState, FormEvent } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { loginUser, clearError } from '../store/slices/authSlice';
+import {
+  loginUser,
+  sendMagicLink,
+  requestPasswordReset,
+  resetAuthRequest,
+  clearError,
+} from '../store/slices/authSlice';
+import { OAuthButtons } from '../components/OAuthButtons';
+import { AuthRedirectState, redirectTarget } from '../lib/redirect';
+
+// Password login, or one of the emailed-link flows
+type LoginMode = 'password' | 'magicLink' | 'passwordReset';
+
+const MODE_TITLES: Record<LoginMode, string> = {
+  password: 'Login',
+  magicLink: 'Email me a login link',
+  passwordReset: 'Reset your password',
+};
 
 export const Login = () => {
+  const [mode, setMode] = useState<LoginMode>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
 
   const dispatch = useAppDispatch();
-  const { loading, error } = useAppSelector((state) => state.auth);
+  const { loading, error, magicLink, passwordReset } = useAppSelector((state) => state.auth);
   const navigate = useNavigate();
+  const location = useLocation();
+  const locationState = location.state as AuthRedirectState | null;
+  const returnTo = redirectTarget(location.state);
+  const linkRequest = mode === 'magicLink' ? magicLink : passwordReset;
+
+  const switchMode = (newMode: LoginMode) => {
+    dispatch(clearError());
+    if (newMode !== 'password') dispatch(resetAuthRequest(newMode));
+    setMode(newMode);
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     dispatch(clearError());
 
+    if (mode === 'magicLink') {
+      dispatch(sendMagicLink(email));
+      return;
+    }
+    if (mode === 'passwordReset') {
+      dispatch(requestPasswordReset(email));
+      return;
+    }
+
     const result = await dispatch(loginUser({ email, password }));
     if (loginUser.fulfilled.match(result)) {
-      navigate('/blogs');
+      navigate(returnTo, { replace: true });
     }
   };
 
+  if (mode !== 'password' && linkRequest.succeeded) {
+    return (
+      <div style={styles.container}>
+        <div style={styles.card}>
+          <h1 style={styles.title}>Check your email</h1>
+          <p style={styles.message}>
+            {mode === 'magicLink'
+              ? `We sent a login link to ${email}. Open it on this device to sign in.`
+              : `If an account exists for ${email}, we sent a link to reset its password.`}
+          </p>
+          <button type="button" onClick={() => switchMode('password')} style={styles.linkButton}>
+            Back to login
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div style={styles.container}>
       <div style={styles.card}>
-        <h1 style={styles.title}>Login</h1>
+        <h1 style={styles.title}>{MODE_TITLES[mode]}</h1>
+        {locationState?.sessionExpired && (
+          <p style={styles.notice}>Your session has expired. Log in again to continue where you left off.</p>
+        )}
         <form onSubmit={handleSubmit} style={styles.form}>
           <div style={styles.formGroup}>
             <label htmlFor="email" style={styles.label}>
@@ -39,26 +97,57 @@ export const Login = () => {
               style={styles.input}
             />
           </div>
-          <div style={styles.formGroup}>
-            <label htmlFor="password" style={styles.label}>
-              Password
-            </label>
-            <input
-              type="password"
-              id="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              style={styles.input}
-            />
-          </div>
-          {error && <p style={styles.error}>{error}</p>}
-          <button type="submit" disabled={loading} style={styles.button}>
-            {loading ? 'Logging in...' : 'Login'}
-          </button>
+          {mode === 'password' ? (
+            <>
+              <div style={styles.formGroup}>
+                <label htmlFor="password" style={styles.label}>
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  style={styles.input}
+                />
+              </div>
+              {error && <p style={styles.error}>{error}</p>}
+              <button type="submit" disabled={loading} style={styles.button}>
+                {loading ? 'Logging in...' : 'Login'}
+              </button>
+            </>
+          ) : (
+            <>
+              {linkRequest.error && <p style={styles.error}>{linkRequest.error}</p>}
+              <button type="submit" disabled={linkRequest.pending} style={styles.button}>
+                {linkRequest.pending ? 'Sending...' : mode === 'magicLink' ? 'Send login link' : 'Send reset link'}
+              </button>
+            </>
+          )}
         </form>
+        <OAuthButtons next={returnTo} />
+        <div style={styles.modes}>
+          {mode !== 'password' && (
+            <button type="button" onClick={() => switchMode('password')} style={styles.linkButton}>
+              Login with password
+            </button>
+          )}
+          {mode !== 'magicLink' && (
+            <button type="button" onClick={() => switchMode('magicLink')} style={styles.linkButton}>
+              Email me a login link
+            </button>
+          )}
+          {mode !== 'passwordReset' && (
+            <button type="button" onClick={() => switchMode('passwordReset')} style={styles.linkButton}>
+              Forgot password?
+            </button>
+          )}
+        </div>
         <p style={styles.footer}>
-          Don't have an account? <Link to="/register">Register</Link>
+          Don't have an account? <Link to="/register" state={location.state}>
+            Register
+          </Link>
         </p>
       </div>
     </div>
@@ -117,11 +206,43 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     marginTop: '1rem',
   },
+  notice: {
+    marginBottom: '1rem',
+    padding: '0.75rem',
+    backgroundColor: '#fff3e0',
+    color: '#e65100',
+    borderRadius: '4px',
+    fontSize: '0.9rem',
+  },
   error: {
     color: '#d32f2f',
     fontSize: '0.875rem',
     marginTop: '0.5rem',
   },
+  message: {
+    marginBottom: '1rem',
+    color: '#333',
+    lineHeight: '1.6',
+    textAlign: 'center',
+  },
+  modes: {
+    display: 'flex',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    gap: '1rem',
+    marginTop: '1rem',
+  },
+  linkButton: {
+    display: 'block',
+    margin: '0 auto',
+    padding: 0,
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: 'none',
+    fontSize: '0.875rem',
+    textDecoration: 'underline',
+    cursor: 'pointer',
+  },
   footer: {
     marginTop: '1rem',
     textAlign: 'center',
@@ -0,0 +1,310 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  fetchReports,
+  fetchHeldComments,
+  fetchModerationLog,
+  moderateReport,
+  moderateHeldComment,
+} from '../store/slices/moderationSlice';
+import { fetchProfiles } from '../store/slices/profileSlice';
+import { ModerationAction, ModerationDecision } from '../lib/supabase';
+import { ReportWithContent } from '../lib/repositories/types';
+import { markdownExcerpt } from '../lib/markdown';
+import { hasPermission } from '../lib/permissions';
+import { AuthorBadge } from '../components/AuthorBadge';
+
+const DECISION_LABELS: Record<ModerationAction['action'], string> = {
+  hide: 'Hidden',
+  delete: 'Deleted',
+  dismiss: 'Dismissed',
+  approve: 'Approved',
+};
+
+// Open reports for moderators to act on, and the audit trail of past decisions
+export const ModerationQueue = () => {
+  const dispatch = useAppDispatch();
+  const { reports, heldComments, log, resolving, loading, error } = useAppSelector((state) => state.moderation);
+  const { user } = useAppSelector((state) => state.auth);
+
+  useEffect(() => {
+    dispatch(fetchReports());
+    dispatch(fetchHeldComments());
+    dispatch(fetchModerationLog());
+  }, [dispatch]);
+
+  useEffect(() => {
+    const userIds = [
+      ...reports.flatMap((report) => [
+        report.reporter_id,
+        ...(report.blog ? [report.blog.user_id] : []),
+        ...(report.comment ? [report.comment.user_id] : []),
+      ]),
+      ...heldComments.map((comment) => comment.user_id),
+      ...log.flatMap((entry) => (entry.moderator_id ? [entry.moderator_id] : [])),
+    ];
+    if (userIds.length > 0) {
+      dispatch(fetchProfiles(userIds));
+    }
+  }, [dispatch, reports, heldComments, log]);
+
+  const handleDecision = (report: ReportWithContent, decision: ModerationDecision) => {
+    if (decision === 'delete' && !window.confirm('Delete this content permanently?')) return;
+    dispatch(moderateReport({ report, decision }));
+  };
+
+  const renderContent = (report: ReportWithContent) => {
+    if (report.comment) {
+      return (
+        <>
+          <div style={styles.context}>
+            Comment on <Link to={`/blogs/${report.blog_id}`}>{report.blog?.title ?? 'a post'}</Link> by{' '}
+            <AuthorBadge userId={report.comment.user_id} size={20} />
+          </div>
+          <p style={styles.content}>{report.comment.content || '[deleted]'}</p>
+        </>
+      );
+    }
+    if (report.blog) {
+      return (
+        <>
+          <div style={styles.context}>
+            Post <Link to={`/blogs/${report.blog.id}`}>{report.blog.title}</Link> by{' '}
+            <AuthorBadge userId={report.blog.user_id} size={20} />
+          </div>
+          <p style={styles.content}>{markdownExcerpt(report.blog.content, 300)}</p>
+        </>
+      );
+    }
+    return <p style={styles.muted}>The reported content no longer exists.</p>;
+  };
+
+  return (
+    <div style={styles.container}>
+      <h1 style={styles.title}>Moderation</h1>
+      {error && <p style={styles.error}>{error}</p>}
+
+      <h2 style={styles.sectionTitle}>Open reports ({reports.length})</h2>
+      {loading && reports.length === 0 ? (
+        <p>Loading reports...</p>
+      ) : reports.length === 0 ? (
+        <p style={styles.muted}>Nothing to review.</p>
+      ) : (
+        reports.map((report) => {
+          const hidden = !!(report.comment ? report.comment.hidden_at : report.blog?.hidden_at);
+          // Deleting posts is reserved for admins
+          const canDelete = report.comment ? true : hasPermission(user, 'blog:delete:any');
+          return (
+            <div key={report.id} style={styles.report}>
+              {renderContent(report)}
+              <div style={styles.reportMeta}>
+                <span>Reported by</span>
+                <AuthorBadge userId={report.reporter_id} size={20} />
+                <span>{new Date(report.created_at).toLocaleString()}:</span>
+                <strong>{report.reason}</strong>
+              </div>
+              <div style={styles.actions}>
+                <button
+                  onClick={() => handleDecision(report, 'hide')}
+                  disabled={resolving[report.id] || hidden}
+                  style={styles.hideButton}
+                >
+                  {hidden ? 'Hidden' : 'Hide'}
+                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => handleDecision(report, 'delete')}
+                    disabled={resolving[report.id]}
+                    style={styles.deleteButton}
+                  >
+                    Delete
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDecision(report, 'dismiss')}
+                  disabled={resolving[report.id]}
+                  style={styles.dismissButton}
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <h2 style={styles.sectionTitle}>Held by filters ({heldComments.length})</h2>
+      {heldComments.length === 0 ? (
+        <p style={styles.muted}>No comments waiting for approval.</p>
+      ) : (
+        heldComments.map((comment) => (
+          <div key={comment.id} style={styles.report}>
+            <div style={styles.context}>
+              Comment on <Link to={`/blogs/${comment.blog_id}`}>{comment.blog?.title ?? 'a post'}</Link> by{' '}
+              <AuthorBadge userId={comment.user_id} size={20} />
+              <span>{new Date(comment.created_at).toLocaleString()}</span>
+            </div>
+            <p style={styles.content}>{comment.content}</p>
+            <div style={styles.reportMeta}>
+              <strong>{comment.held_reason}</strong>
+            </div>
+            <div style={styles.actions}>
+              <button
+                onClick={() => dispatch(moderateHeldComment({ id: comment.id, decision: 'approve' }))}
+                disabled={resolving[comment.id]}
+                style={styles.hideButton}
+              >
+                Approve
+              </button>
+              <button
+                onClick={() => dispatch(moderateHeldComment({ id: comment.id, decision: 'delete' }))}
+                disabled={resolving[comment.id]}
+                style={styles.deleteButton}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <h2 style={styles.sectionTitle}>Recent decisions</h2>
+      {log.length === 0 ? (
+        <p style={styles.muted}>No decisions yet.</p>
+      ) : (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>When</th>
+              <th style={styles.th}>Moderator</th>
+              <th style={styles.th}>Decision</th>
+              <th style={styles.th}>Content</th>
+              <th style={styles.th}>Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {log.map((entry) => (
+              <tr key={entry.id}>
+                <td style={styles.td}>{new Date(entry.created_at).toLocaleString()}</td>
+                <td style={styles.td}>
+                  {entry.moderator_id ? <AuthorBadge userId={entry.moderator_id} size={20} /> : '—'}
+                </td>
+                <td style={styles.td}>{DECISION_LABELS[entry.action]}</td>
+                <td style={styles.td}>
+                  <Link to={`/blogs/${entry.blog_id}`}>{entry.comment_id ? 'Comment' : 'Post'}</Link>
+                </td>
+                <td style={styles.td}>{entry.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '1000px',
+    margin: '0 auto',
+    padding: '2rem',
+  },
+  title: {
+    marginBottom: '2rem',
+    color: '#333',
+  },
+  sectionTitle: {
+    margin: '2rem 0 1rem',
+    color: '#333',
+    fontSize: '1.25rem',
+  },
+  report: {
+    marginBottom: '1rem',
+    padding: '1rem',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  context: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '0.35rem',
+    marginBottom: '0.5rem',
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  content: {
+    padding: '0.75rem',
+    marginBottom: '0.75rem',
+    backgroundColor: '#f9f9f9',
+    borderRadius: '4px',
+    color: '#333',
+    whiteSpace: 'pre-wrap',
+  },
+  reportMeta: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '0.35rem',
+    marginBottom: '0.75rem',
+    color: '#666',
+    fontSize: '0.875rem',
+  },
+  actions: {
+    display: 'flex',
+    gap: '0.5rem',
+  },
+  hideButton: {
+    padding: '0.4rem 0.75rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  deleteButton: {
+    padding: '0.4rem 0.75rem',
+    backgroundColor: '#d32f2f',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  dismissButton: {
+    padding: '0.4rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: '#333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  th: {
+    padding: '0.75rem',
+    textAlign: 'left',
+    borderBottom: '2px solid #eee',
+    color: '#333',
+    fontSize: '0.875rem',
+  },
+  td: {
+    padding: '0.75rem',
+    borderBottom: '1px solid #eee',
+    fontSize: '0.875rem',
+    color: '#333',
+  },
+  muted: {
+    color: '#666',
+  },
+  error: {
+    color: '#d32f2f',
+    marginBottom: '1rem',
+  },
+};
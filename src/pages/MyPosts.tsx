@@ -0,0 +1,292 @@
+import { useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { BLOGS_PER_PAGE } from '../store/slices/blogSlice';
+import { useGetBlogsQuery, useUpdateBlogStatusMutation } from '../store/api/blogApi';
+import { errorMessage } from '../store/api/baseApi';
+import { requestsCleared, selectIsSaving, selectRequest } from '../store/slices/requestSlice';
+import { Blog, BlogStatus } from '../lib/supabase';
+import { BLOG_STATUSES, STATUS_LABELS, effectiveStatus } from '../lib/blogStatus';
+
+// A row's actions; archiving or restoring one post leaves the other rows usable
+const PostActions = ({ blog }: { blog: Blog }) => {
+  const dispatch = useAppDispatch();
+  const [updateBlogStatus] = useUpdateBlogStatusMutation();
+  const saving = useAppSelector((state) => selectIsSaving(state, blog.id));
+  const statusError = useAppSelector((state) => selectRequest(state, 'updateBlogStatus', blog.id).error);
+
+  useEffect(() => {
+    return () => {
+      dispatch(requestsCleared(blog.id));
+    };
+  }, [dispatch, blog.id]);
+
+  return (
+    <td style={{ ...styles.td, ...styles.rowActions }}>
+      <Link to={`/blogs/edit/${blog.id}`} style={styles.actionLink}>
+        Edit
+      </Link>
+      {blog.status === 'archived' ? (
+        <button
+          onClick={() => updateBlogStatus({ id: blog.id, status: 'draft' })}
+          disabled={saving}
+          style={styles.actionButton}
+        >
+          {saving ? 'Restoring...' : 'Restore as draft'}
+        </button>
+      ) : (
+        <button
+          onClick={() => updateBlogStatus({ id: blog.id, status: 'archived', publishAt: blog.publish_at })}
+          disabled={saving}
+          style={styles.actionButton}
+        >
+          {saving ? 'Archiving...' : 'Archive'}
+        </button>
+      )}
+      {statusError && <span style={styles.rowError}>{statusError}</span>}
+    </td>
+  );
+};
+
+// The author's own posts in every state, filterable by status
+export const MyPosts = () => {
+  const { user } = useAppSelector((state) => state.auth);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const statusParam = searchParams.get('status') as BlogStatus | null;
+  const status = statusParam && BLOG_STATUSES.includes(statusParam) ? statusParam : null;
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const { data, isLoading, error: loadError } = useGetBlogsQuery(
+    user
+      ? { page, limit: BLOGS_PER_PAGE, userId: user.id, statuses: status ? [status] : BLOG_STATUSES }
+      : skipToken
+  );
+  const blogs = data?.blogs ?? [];
+  const error = errorMessage(loadError);
+
+  const totalPages = Math.ceil((data?.total ?? 0) / BLOGS_PER_PAGE);
+
+  const showStatus = (newStatus: BlogStatus | null) => {
+    setSearchParams(newStatus ? { status: newStatus } : {});
+  };
+
+  const handlePageChange = (newPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('page', String(newPage));
+    setSearchParams(params);
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <h1 style={styles.title}>My Posts</h1>
+        <Link to="/blogs/create" style={styles.newButton}>
+          New Post
+        </Link>
+      </div>
+      <div style={styles.tabs}>
+        <button onClick={() => showStatus(null)} style={status === null ? styles.activeTab : styles.tab}>
+          All
+        </button>
+        {BLOG_STATUSES.map((s) => (
+          <button key={s} onClick={() => showStatus(s)} style={status === s ? styles.activeTab : styles.tab}>
+            {STATUS_LABELS[s]}
+          </button>
+        ))}
+      </div>
+      {error && <p style={styles.error}>{error}</p>}
+      {isLoading ? (
+        <p>Loading posts...</p>
+      ) : blogs.length === 0 ? (
+        <p style={styles.empty}>No posts here yet.</p>
+      ) : (
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Title</th>
+              <th style={styles.th}>Status</th>
+              <th style={styles.th}>Publish date</th>
+              <th style={styles.th}>Last edited</th>
+              <th style={styles.th} />
+            </tr>
+          </thead>
+          <tbody>
+            {blogs.map((blog) => (
+              <tr key={blog.id}>
+                <td style={styles.td}>
+                  <Link to={`/blogs/${blog.id}`} style={styles.blogLink}>
+                    {blog.title}
+                  </Link>
+                </td>
+                <td style={styles.td}>
+                  <span style={{ ...styles.badge, ...badgeColors[effectiveStatus(blog)] }}>
+                    {STATUS_LABELS[effectiveStatus(blog)]}
+                  </span>
+                </td>
+                <td style={styles.td}>
+                  {blog.publish_at ? new Date(blog.publish_at).toLocaleString() : '—'}
+                </td>
+                <td style={styles.td}>{new Date(blog.updated_at).toLocaleString()}</td>
+                <PostActions blog={blog} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totalPages > 1 && (
+        <div style={styles.pagination}>
+          <button
+            onClick={() => handlePageChange(page - 1)}
+            disabled={page === 1}
+            style={styles.paginationButton}
+          >
+            Previous
+          </button>
+          <span style={styles.pageInfo}>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => handlePageChange(page + 1)}
+            disabled={page === totalPages}
+            style={styles.paginationButton}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const badgeColors: Record<BlogStatus, React.CSSProperties> = {
+  draft: { backgroundColor: '#eee', color: '#333' },
+  scheduled: { backgroundColor: '#fff3cd', color: '#856404' },
+  published: { backgroundColor: '#d4edda', color: '#155724' },
+  archived: { backgroundColor: '#f8d7da', color: '#721c24' },
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '1200px',
+    margin: '0 auto',
+    padding: '2rem',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '1.5rem',
+  },
+  title: {
+    color: '#333',
+  },
+  newButton: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    textDecoration: 'none',
+    borderRadius: '4px',
+  },
+  tabs: {
+    display: 'flex',
+    gap: '0.5rem',
+    marginBottom: '1.5rem',
+  },
+  tab: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#fff',
+    color: '#333',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  activeTab: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: '1px solid #333',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  error: {
+    color: '#d32f2f',
+    marginBottom: '1rem',
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: '3rem',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  th: {
+    padding: '0.75rem 1rem',
+    textAlign: 'left',
+    color: '#666',
+    fontSize: '0.875rem',
+    borderBottom: '1px solid #eee',
+  },
+  td: {
+    padding: '0.75rem 1rem',
+    borderBottom: '1px solid #eee',
+    fontSize: '0.9rem',
+  },
+  blogLink: {
+    color: '#333',
+    fontWeight: '500',
+  },
+  badge: {
+    padding: '0.125rem 0.5rem',
+    borderRadius: '12px',
+    fontSize: '0.75rem',
+    fontWeight: '500',
+  },
+  rowActions: {
+    display: 'flex',
+    gap: '0.75rem',
+    justifyContent: 'flex-end',
+  },
+  actionLink: {
+    color: '#333',
+    textDecoration: 'underline',
+  },
+  actionButton: {
+    backgroundColor: 'transparent',
+    color: '#d32f2f',
+    border: 'none',
+    textDecoration: 'underline',
+    cursor: 'pointer',
+    fontSize: '0.9rem',
+  },
+  rowError: {
+    color: '#d32f2f',
+    fontSize: '0.85rem',
+  },
+  pagination: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: '1rem',
+    marginTop: '2rem',
+  },
+  paginationButton: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  pageInfo: {
+    color: '#333',
+    fontWeight: '500',
+  },
+};
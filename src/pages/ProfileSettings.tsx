@@ -0,0 +1,207 @@
+import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { updateProfile, clearError, displayName as profileName } from '../store/slices/profileSlice';
+import { Avatar } from '../components/Avatar';
+import { validateImage, AVATAR_UPLOAD_OPTIONS } from '../lib/imageUpload';
+
+export const ProfileSettings = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { user } = useAppSelector((state) => state.auth);
+  const { saving, error } = useAppSelector((state) => state.profiles);
+
+  const [displayName, setDisplayName] = useState('');
+  const [bio, setBio] = useState('');
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDisplayName(user?.profile?.display_name ?? '');
+    setBio(user?.profile?.bio ?? '');
+    setAvatarPreview(user?.profile?.avatar_url ?? null);
+  }, [user?.profile]);
+
+  const handleAvatarChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Checked on pick; updateProfile resizes it before uploading
+    const invalid = validateImage(file, AVATAR_UPLOAD_OPTIONS);
+    setAvatarError(invalid);
+    if (!invalid) {
+      setAvatarFile(file);
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setAvatarPreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    dispatch(clearError());
+
+    const result = await dispatch(updateProfile({ displayName, bio, avatarFile }));
+    if (updateProfile.fulfilled.match(result)) {
+      navigate(`/users/${user.id}`);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div style={styles.container}>
+      <h1 style={styles.title}>Profile Settings</h1>
+      <p style={styles.subtitle}>
+        To change your email or password, go to <Link to="/account">account settings</Link>.
+      </p>
+      <form onSubmit={handleSubmit} style={styles.form}>
+        <div style={styles.formGroup}>
+          <label htmlFor="avatar" style={styles.label}>
+            Avatar
+          </label>
+          <div style={styles.avatarRow}>
+            <Avatar url={avatarPreview} name={displayName || profileName(null, user.id)} size={72} />
+            <input
+              type="file"
+              id="avatar"
+              accept={AVATAR_UPLOAD_OPTIONS.allowedTypes.join(',')}
+              onChange={handleAvatarChange}
+              style={styles.fileInput}
+            />
+          </div>
+          {avatarError && <p style={styles.error}>{avatarError}</p>}
+        </div>
+        <div style={styles.formGroup}>
+          <label htmlFor="displayName" style={styles.label}>
+            Display Name
+          </label>
+          <input
+            type="text"
+            id="displayName"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            maxLength={50}
+            style={styles.input}
+          />
+        </div>
+        <div style={styles.formGroup}>
+          <label htmlFor="bio" style={styles.label}>
+            Bio
+          </label>
+          <textarea
+            id="bio"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            rows={4}
+            maxLength={500}
+            style={styles.textarea}
+          />
+        </div>
+        {error && <p style={styles.error}>{error}</p>}
+        <div style={styles.actions}>
+          <button type="submit" disabled={saving} style={styles.submitButton}>
+            {saving ? 'Saving...' : 'Save Profile'}
+          </button>
+          <button
+            type="button"
+            onClick={() => navigate(`/users/${user.id}`)}
+            style={styles.cancelButton}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '800px',
+    margin: '0 auto',
+    padding: '2rem',
+  },
+  title: {
+    marginBottom: '0.5rem',
+    color: '#333',
+  },
+  subtitle: {
+    marginBottom: '2rem',
+    color: '#666',
+  },
+  form: {
+    backgroundColor: '#fff',
+    padding: '2rem',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  formGroup: {
+    marginBottom: '1.5rem',
+  },
+  label: {
+    display: 'block',
+    marginBottom: '0.5rem',
+    color: '#333',
+    fontWeight: '500',
+  },
+  avatarRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1rem',
+  },
+  input: {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box',
+  },
+  textarea: {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    fontFamily: 'inherit',
+    resize: 'vertical',
+    boxSizing: 'border-box',
+  },
+  fileInput: {
+    flex: 1,
+    padding: '0.5rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+  },
+  error: {
+    color: '#d32f2f',
+    marginBottom: '1rem',
+  },
+  actions: {
+    display: 'flex',
+    gap: '1rem',
+    marginTop: '2rem',
+  },
+  submitButton: {
+    padding: '0.75rem 2rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+  cancelButton: {
+    padding: '0.75rem 2rem',
+    backgroundColor: '#ccc',
+    color: '#333',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+  },
+};
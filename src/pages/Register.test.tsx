@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import { Register } from './Register';
+import { renderRoutes } from '../test/utils';
+import { READER } from '../test/fixtures';
+
+const routes = [
+  { path: '/register', element: <Register /> },
+  { path: '/blogs', element: <p>Blog list</p> },
+  { path: '/blogs/:id', element: <p>Blog post</p> },
+];
+
+describe('Register', () => {
+  it('creates the account, signs in and goes to the blog list', async () => {
+    const { store, user } = await renderRoutes(routes, { path: '/register' });
+
+    await user.type(screen.getByLabelText('Email'), 'new@example.com');
+    await user.type(screen.getByLabelText('Password'), 'secret1');
+    await user.type(screen.getByLabelText('Confirm Password'), 'secret1');
+    await user.click(screen.getByRole('button', { name: 'Register' }));
+
+    expect(await screen.findByText('Blog list')).toBeInTheDocument();
+    expect(store.getState().auth.user).toMatchObject({ email: 'new@example.com', role: 'author' });
+  });
+
+  it('returns to the page passed on from login', async () => {
+    const { user } = await renderRoutes(routes, {
+      path: '/register',
+      state: { from: { pathname: '/blogs/blog-1', search: '', hash: '#comments' } },
+    });
+
+    await user.type(screen.getByLabelText('Email'), 'new@example.com');
+    await user.type(screen.getByLabelText('Password'), 'secret1');
+    await user.type(screen.getByLabelText('Confirm Password'), 'secret1');
+    await user.click(screen.getByRole('button', { name: 'Register' }));
+
+    expect(await screen.findByText('Blog post')).toBeInTheDocument();
+  });
+
+  it("doesn't submit passwords that don't match", async () => {
+    const { store, user } = await renderRoutes(routes, { path: '/register' });
+
+    await user.type(screen.getByLabelText('Email'), 'new@example.com');
+    await user.type(screen.getByLabelText('Password'), 'secret1');
+    await user.type(screen.getByLabelText('Confirm Password'), 'secret2');
+    expect(screen.getByText('Passwords do not match')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Register' }));
+    expect(store.getState().auth.isAuthenticated).toBe(false);
+    expect(screen.getByRole('heading', { name: 'Register' })).toBeInTheDocument();
+  });
+
+  it('shows why registering failed', async () => {
+    const { user } = await renderRoutes(routes, { path: '/register' });
+
+    await user.type(screen.getByLabelText('Email'), READER.email);
+    await user.type(screen.getByLabelText('Password'), 'secret1');
+    await user.type(screen.getByLabelText('Confirm Password'), 'secret1');
+    await user.click(screen.getByRole('button', { name: 'Register' }));
+
+    expect(await screen.findByText('User already registered')).toBeInTheDocument();
+  });
+});
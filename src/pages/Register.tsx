@@ -1,7 +1,9 @@
 import { useState, FormEvent } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { registerUser, clearError } from '../store/slices/authSlice';
+import { OAuthButtons } from '../components/OAuthButtons';
+import { redirectTarget } from '../lib/redirect';
 
 export const Register = () => {
   const [email, setEmail] = useState('');
@@ -11,6 +13,9 @@ export const Register = () => {
   const dispatch = useAppDispatch();
   const { loading, error } = useAppSelector((state) => state.auth);
   const navigate = useNavigate();
+  // Passed on from Login, which got it from ProtectedRoute
+  const location = useLocation();
+  const returnTo = redirectTarget(location.state);
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -22,7 +27,7 @@ export const Register = () => {
 
     const result = await dispatch(registerUser({ email, password }));
     if (registerUser.fulfilled.match(result)) {
-      navigate('/blogs');
+      navigate(returnTo, { replace: true });
     }
   };
 
@@ -79,8 +84,11 @@ export const Register = () => {
             {loading ? 'Registering...' : 'Register'}
           </button>
         </form>
+        <OAuthButtons next={returnTo} />
         <p style={styles.footer}>
-          Already have an account? <Link to="/login">Login</Link>
+          Already have an account? <Link to="/login" state={location.state}>
+            Login
+          </Link>
         </p>
       </div>
     </div>
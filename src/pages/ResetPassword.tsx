@@ -0,0 +1,172 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { recoverSession, updatePassword, resetAuthRequest } from '../store/slices/authSlice';
+
+// Opened from the password reset email; Supabase puts the recovery token in the URL
+export const ResetPassword = () => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mismatch, setMismatch] = useState(false);
+
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { recovery, passwordUpdate } = useAppSelector((state) => state.auth);
+
+  useEffect(() => {
+    dispatch(resetAuthRequest('passwordUpdate'));
+    dispatch(recoverSession());
+  }, [dispatch]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setMismatch(password !== confirmPassword);
+    if (password === confirmPassword) {
+      dispatch(updatePassword({ password }));
+    }
+  };
+
+  const renderBody = () => {
+    if (recovery.error) {
+      return (
+        <>
+          <p style={styles.error}>{recovery.error}</p>
+          <p style={styles.footer}>
+            <Link to="/login">Request a new reset link</Link>
+          </p>
+        </>
+      );
+    }
+
+    if (!recovery.succeeded) {
+      return <p style={styles.message}>Checking your reset link...</p>;
+    }
+
+    if (passwordUpdate.succeeded) {
+      return (
+        <>
+          <p style={styles.message}>Your password has been updated.</p>
+          <button onClick={() => navigate('/blogs')} style={styles.button}>
+            Continue to blogs
+          </button>
+        </>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} style={styles.form}>
+        <div style={styles.formGroup}>
+          <label htmlFor="password" style={styles.label}>
+            New password
+          </label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={6}
+            style={styles.input}
+          />
+        </div>
+        <div style={styles.formGroup}>
+          <label htmlFor="confirmPassword" style={styles.label}>
+            Confirm new password
+          </label>
+          <input
+            type="password"
+            id="confirmPassword"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            minLength={6}
+            style={styles.input}
+          />
+        </div>
+        {mismatch && <p style={styles.error}>Passwords do not match</p>}
+        {passwordUpdate.error && <p style={styles.error}>{passwordUpdate.error}</p>}
+        <button type="submit" disabled={passwordUpdate.pending} style={styles.button}>
+          {passwordUpdate.pending ? 'Saving...' : 'Set new password'}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h1 style={styles.title}>Reset password</h1>
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    minHeight: 'calc(100vh - 200px)',
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '2rem',
+  },
+  card: {
+    backgroundColor: '#fff',
+    padding: '2rem',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+    width: '100%',
+    maxWidth: '400px',
+  },
+  title: {
+    marginBottom: '1.5rem',
+    textAlign: 'center',
+    color: '#333',
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  formGroup: {
+    marginBottom: '1rem',
+  },
+  label: {
+    display: 'block',
+    marginBottom: '0.5rem',
+    color: '#333',
+    fontWeight: '500',
+  },
+  input: {
+    width: '100%',
+    padding: '0.75rem',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    boxSizing: 'border-box',
+  },
+  button: {
+    width: '100%',
+    padding: '0.75rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '1rem',
+    cursor: 'pointer',
+    marginTop: '1rem',
+  },
+  message: {
+    color: '#333',
+    textAlign: 'center',
+  },
+  error: {
+    color: '#d32f2f',
+    fontSize: '0.875rem',
+    marginTop: '0.5rem',
+  },
+  footer: {
+    marginTop: '1rem',
+    textAlign: 'center',
+    color: '#666',
+  },
+};
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { skipToken } from '@reduxjs/toolkit/query';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { BLOGS_PER_PAGE } from '../store/slices/blogSlice';
+import { useGetBlogsQuery } from '../store/api/blogApi';
+import { fetchProfiles, displayName } from '../store/slices/profileSlice';
+import { markdownExcerpt } from '../lib/markdown';
+import { Avatar } from '../components/Avatar';
+
+export const UserProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const dispatch = useAppDispatch();
+  const [page, setPage] = useState(1);
+  const profile = useAppSelector((state) => (id ? state.profiles.byId[id] : undefined));
+  const { user } = useAppSelector((state) => state.auth);
+
+  useEffect(() => {
+    if (id) {
+      dispatch(fetchProfiles([id]));
+    }
+    setPage(1);
+  }, [dispatch, id]);
+
+  const { data, isLoading } = useGetBlogsQuery(id ? { page, limit: BLOGS_PER_PAGE, userId: id } : skipToken);
+  const blogs = data?.blogs ?? [];
+
+  if (!id) return null;
+
+  const name = displayName(profile, id);
+  const totalPages = Math.ceil((data?.total ?? 0) / BLOGS_PER_PAGE);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <Avatar url={profile?.avatar_url} name={name} size={96} />
+        <div>
+          <h1 style={styles.name}>{name}</h1>
+          {profile?.bio && <p style={styles.bio}>{profile.bio}</p>}
+          {user?.id === id && (
+            <Link to="/settings" style={styles.editLink}>
+              Edit profile
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <h2 style={styles.sectionTitle}>Posts</h2>
+      {isLoading ? (
+        <p>Loading posts...</p>
+      ) : blogs.length === 0 ? (
+        <p style={styles.empty}>{name} hasn't published anything yet.</p>
+      ) : (
+        <>
+          <div style={styles.blogList}>
+            {blogs.map((blog) => (
+              <Link key={blog.id} to={`/blogs/${blog.id}`} style={styles.blogItem}>
+                <h3 style={styles.blogTitle}>{blog.title}</h3>
+                <p style={styles.blogExcerpt}>{markdownExcerpt(blog.content, 150)}</p>
+                <span style={styles.date}>{new Date(blog.created_at).toLocaleDateString()}</span>
+              </Link>
+            ))}
+          </div>
+
+          {totalPages > 1 && (
+            <div style={styles.pagination}>
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+                style={styles.paginationButton}
+              >
+                Previous
+              </button>
+              <span style={styles.pageInfo}>
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page === totalPages}
+                style={styles.paginationButton}
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    maxWidth: '800px',
+    margin: '0 auto',
+    padding: '2rem',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1.5rem',
+    marginBottom: '2rem',
+    padding: '2rem',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+  },
+  name: {
+    color: '#333',
+    fontSize: '1.75rem',
+  },
+  bio: {
+    marginTop: '0.5rem',
+    color: '#666',
+    whiteSpace: 'pre-wrap',
+  },
+  editLink: {
+    display: 'inline-block',
+    marginTop: '0.75rem',
+    color: '#333',
+    textDecoration: 'underline',
+    fontSize: '0.875rem',
+  },
+  sectionTitle: {
+    marginBottom: '1rem',
+    color: '#333',
+  },
+  empty: {
+    color: '#666',
+  },
+  blogList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '1rem',
+  },
+  blogItem: {
+    display: 'block',
+    padding: '1.5rem',
+    backgroundColor: '#fff',
+    borderRadius: '8px',
+    boxShadow: '0 2px 10px rgba(0,0,0,0.1)',
+    color: '#333',
+    textDecoration: 'none',
+  },
+  blogTitle: {
+    marginBottom: '0.5rem',
+    fontSize: '1.25rem',
+  },
+  blogExcerpt: {
+    color: '#666',
+    marginBottom: '0.5rem',
+    lineHeight: '1.6',
+  },
+  date: {
+    color: '#999',
+    fontSize: '0.875rem',
+  },
+  pagination: {
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: '1rem',
+    marginTop: '2rem',
+  },
+  paginationButton: {
+    padding: '0.5rem 1rem',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+  },
+  pageInfo: {
+    color: '#333',
+    fontWeight: '500',
+  },
+};
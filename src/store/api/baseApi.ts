@@ -0,0 +1,58 @@
+import { SerializedError } from '@reduxjs/toolkit';
+import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
+import { Repositories } from '../../lib/repositories/types';
+
+// Seconds a response stays cached once nothing on screen uses it
+export const CACHE_LIFETIME = Number(import.meta.env.VITE_CACHE_LIFETIME ?? 60);
+
+const thrownMessage = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  // Supabase's query errors are plain { message, details, hint, code } objects
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return String(error);
+};
+
+// Thrown for what won't be accepted as it is, e.g. a comment the content filters
+// reject: sending it again unchanged can only fail again
+export class RefusedError extends Error {}
+
+interface RefusedMeta {
+  refused: true;
+}
+
+// Whether a failed query or mutation was refused, from its action's baseQueryMeta
+export const wasRefused = (meta: unknown) =>
+  typeof meta === 'object' && meta !== null && (meta as Partial<RefusedMeta>).refused === true;
+
+// Run a repository call as a query or mutation; failures carry the error message,
+// like the thunks' rejectWithValue
+export const runQuery = async <T>(
+  call: () => Promise<T>
+): Promise<{ data: T } | { error: string; meta?: RefusedMeta }> => {
+  try {
+    return { data: await call() };
+  } catch (error: unknown) {
+    if (error instanceof RefusedError) return { error: error.message, meta: { refused: true } };
+    return { error: thrownMessage(error) };
+  }
+};
+
+// The repositories the store was created with (the thunk extra argument)
+export const repositoriesOf = (api: { extra: unknown }) => api.extra as Repositories;
+
+// Endpoints are injected by blogApi and commentApi. 'Blog' tags are post ids
+// plus 'LIST' for every list of posts; 'Comment' tags are the ids of the posts
+// whose threads they are.
+export const api = createApi({
+  reducerPath: 'api',
+  baseQuery: fakeBaseQuery<string>(),
+  tagTypes: ['Blog', 'Comment'],
+  keepUnusedDataFor: CACHE_LIFETIME,
+  endpoints: () => ({}),
+});
+
+// The message of a failed query or mutation, for showing in a form
+export const errorMessage = (error: string | SerializedError | undefined) =>
+  typeof error === 'string' ? error : (error?.message ?? null);
@@ -0,0 +1,259 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { blogApi, BlogListQuery } from './blogApi';
+import { CACHE_LIFETIME } from './baseApi';
+import { GalleryImage } from '../../lib/supabase';
+import { setupStore } from '../../test/utils';
+import { AUTHOR, OTHER_AUTHOR, READER, publishedBlogs, testSeed } from '../../test/fixtures';
+
+const failure = new Error('Network request failed');
+
+const firstPage: BlogListQuery = { page: 1, limit: 5 };
+
+const image = (name: string): GalleryImage => ({
+  url: `https://example.com/${name}.webp`,
+  thumbnail_url: null,
+  placeholder: null,
+  path: `${AUTHOR.id}/${name}.webp`,
+  thumbnail_path: `${AUTHOR.id}/${name}-thumb.webp`,
+  caption: '',
+  alt: '',
+});
+
+type Store = Awaited<ReturnType<typeof setupStore>>['store'];
+
+const cachedList = (store: Store, query = firstPage) => blogApi.endpoints.getBlogs.select(query)(store.getState());
+const cachedBlog = (store: Store, id: string) => blogApi.endpoints.getBlog.select(id)(store.getState());
+
+describe('blogApi', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getBlogs', () => {
+    it('loads one page and the total, newest first', async () => {
+      const { store } = await setupStore({ seed: testSeed({ blogs: publishedBlogs(7) }) });
+      const { data } = await store.dispatch(blogApi.endpoints.getBlogs.initiate({ page: 2, limit: 5 }));
+
+      expect(data?.blogs.map((blog) => blog.title)).toEqual(['Post 6', 'Post 7']);
+      expect(data?.total).toBe(7);
+    });
+
+    it('leaves out drafts and hidden posts', async () => {
+      const seed = testSeed({
+        blogs: [
+          ...publishedBlogs(2),
+          { id: 'draft', title: 'Draft', user_id: AUTHOR.id, status: 'draft' },
+          { id: 'hidden', title: 'Hidden', user_id: AUTHOR.id, hidden_at: new Date().toISOString() },
+        ],
+      });
+      const { store } = await setupStore({ seed, signedInAs: AUTHOR.id });
+      const { data } = await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+
+      expect(data?.blogs.map((blog) => blog.id)).toEqual(['blog-1', 'blog-2']);
+    });
+
+    it('answers the same query from the cache', async () => {
+      const { store, repositories } = await setupStore();
+      const list = vi.spyOn(repositories.blogs, 'list');
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      const { data } = await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+
+      expect(data?.blogs).toHaveLength(3);
+      expect(list).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops a result nothing uses once the cache lifetime is over', async () => {
+      const { store } = await setupStore();
+      const request = store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      await request;
+
+      vi.useFakeTimers();
+      request.unsubscribe();
+      vi.advanceTimersByTime(CACHE_LIFETIME * 1000 - 1);
+      expect(cachedList(store).data).toBeDefined();
+      vi.advanceTimersByTime(1);
+      expect(cachedList(store).data).toBeUndefined();
+    });
+
+    it('reports why loading failed', async () => {
+      const { store, repositories } = await setupStore();
+      vi.spyOn(repositories.blogs, 'list').mockRejectedValue(failure);
+      const { error } = await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+
+      expect(error).toBe(failure.message);
+    });
+
+    it("reports the message of a database error, which isn't an Error", async () => {
+      const { store, repositories } = await setupStore();
+      vi.spyOn(repositories.blogs, 'list').mockRejectedValue({ message: 'permission denied for table blogs', code: '42501' });
+      const { error } = await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+
+      expect(error).toBe('permission denied for table blogs');
+    });
+  });
+
+  describe('getBlog', () => {
+    it('loads the blog with its tags', async () => {
+      const seed = testSeed({ blogs: [{ ...publishedBlogs(1)[0], tags: ['React'] }] });
+      const { store } = await setupStore({ seed });
+      const { data } = await store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1'));
+
+      expect(data?.title).toBe('Post 1');
+      expect(data?.tags.map((tag) => tag.name)).toEqual(['React']);
+    });
+
+    it('fails for a blog that does not exist', async () => {
+      const { store } = await setupStore();
+      const { data, error } = await store.dispatch(blogApi.endpoints.getBlog.initiate('missing'));
+
+      expect(data).toBeUndefined();
+      expect(error).toBeTruthy();
+    });
+  });
+
+  describe('createBlog', () => {
+    it('refetches the lists, which then start with the new post', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      const { data } = await store.dispatch(
+        blogApi.endpoints.createBlog.initiate({ title: 'Hello', content: 'World', tags: ['React', 'react'] })
+      );
+
+      expect(data).toMatchObject({ title: 'Hello', user_id: AUTHOR.id, status: 'published' });
+      expect(data?.tags.map((tag) => tag.slug)).toEqual(['react']);
+      await vi.waitFor(() => expect(cachedList(store).data?.total).toBe(4));
+      expect(cachedList(store).data?.blogs[0].id).toBe(data?.id);
+    });
+
+    it('saves drafts without a publish date', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      const { data } = await store.dispatch(
+        blogApi.endpoints.createBlog.initiate({ title: 'Later', content: '...', status: 'draft' })
+      );
+
+      expect(data).toMatchObject({ status: 'draft', publish_at: null });
+    });
+
+    it('needs a signed-in user', async () => {
+      const { store } = await setupStore();
+      const result = await store.dispatch(blogApi.endpoints.createBlog.initiate({ title: 'Hello', content: 'World' }));
+
+      expect(result.error).toBe('User not authenticated');
+    });
+
+    it('is refused for readers and leaves the lists cached', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      const list = vi.spyOn(repositories.blogs, 'list');
+      const result = await store.dispatch(blogApi.endpoints.createBlog.initiate({ title: 'Hello', content: 'World' }));
+
+      expect(result.error).toMatch(/row-level security/);
+      expect(list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateBlog', () => {
+    const galleryBlog = { ...publishedBlogs(1)[0], gallery: [image('a'), image('b')], tags: ['React'] };
+
+    it('refetches the cached post and the lists it is in', async () => {
+      const { store } = await setupStore({ seed: testSeed({ blogs: [galleryBlog] }), signedInAs: AUTHOR.id });
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      await store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1'));
+      await store.dispatch(
+        blogApi.endpoints.updateBlog.initiate({ id: 'blog-1', title: 'Renamed', content: 'New content' })
+      );
+
+      await vi.waitFor(() => expect(cachedBlog(store, 'blog-1').data?.title).toBe('Renamed'));
+      await vi.waitFor(() => expect(cachedList(store).data?.blogs[0].title).toBe('Renamed'));
+      // Left unchanged when not given
+      const blog = cachedBlog(store, 'blog-1').data;
+      expect(blog?.gallery).toHaveLength(2);
+      expect(blog?.tags.map((tag) => tag.name)).toEqual(['React']);
+    });
+
+    it('deletes the uploads of images removed from the gallery', async () => {
+      const { store, repositories } = await setupStore({
+        seed: testSeed({ blogs: [galleryBlog] }),
+        signedInAs: AUTHOR.id,
+      });
+      const remove = vi.spyOn(repositories.storage, 'remove');
+      await store.dispatch(
+        blogApi.endpoints.updateBlog.initiate({ id: 'blog-1', title: 'Post 1', content: '', gallery: [image('b')] })
+      );
+
+      expect(remove).toHaveBeenCalledWith([image('a').path, image('a').thumbnail_path]);
+    });
+
+    it("leaves other authors' posts unchanged", async () => {
+      const { store } = await setupStore({ signedInAs: OTHER_AUTHOR.id });
+      const { data } = await store.dispatch(
+        blogApi.endpoints.updateBlog.initiate({ id: 'blog-1', title: 'Hijacked', content: '' })
+      );
+
+      expect(data?.title).toBe('Post 1');
+    });
+
+    it('reports why saving failed', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+      vi.spyOn(repositories.blogs, 'update').mockRejectedValue(failure);
+      const result = await store.dispatch(
+        blogApi.endpoints.updateBlog.initiate({ id: 'blog-1', title: 'Renamed', content: '' })
+      );
+
+      expect(result.error).toBe(failure.message);
+    });
+  });
+
+  describe('updateBlogStatus', () => {
+    it('archives a post, keeping its publish date', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      const { data: blog } = await store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1'));
+      const { data } = await store.dispatch(
+        blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-1', status: 'archived', publishAt: blog?.publish_at })
+      );
+
+      expect(data).toMatchObject({ status: 'archived', publish_at: blog?.publish_at });
+      await vi.waitFor(() => expect(cachedBlog(store, 'blog-1').data?.status).toBe('archived'));
+    });
+
+    it('needs a date to schedule for', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      const result = await store.dispatch(
+        blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-1', status: 'scheduled' })
+      );
+
+      expect(result.error).toBe('Pick a date to schedule the post for');
+    });
+  });
+
+  describe('deleteBlog', () => {
+    it('refetches the lists without the post', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      await store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+
+      await vi.waitFor(() => expect(cachedList(store).data?.total).toBe(2));
+      expect(cachedList(store).data?.blogs.map((blog) => blog.id)).toEqual(['blog-2', 'blog-3']);
+    });
+
+    it('deletes the uploads of the post and its revisions', async () => {
+      const blog = { ...publishedBlogs(1)[0], gallery: [image('a')] };
+      const { store, repositories } = await setupStore({ seed: testSeed({ blogs: [blog] }), signedInAs: AUTHOR.id });
+      await store.dispatch(blogApi.endpoints.updateBlog.initiate({ id: 'blog-1', title: 'Post 1', content: 'Edited' }));
+      const remove = vi.spyOn(repositories.storage, 'remove');
+      await store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+
+      expect(remove).toHaveBeenCalledWith([image('a').path, image('a').thumbnail_path]);
+    });
+
+    it('reports why deleting failed', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate(firstPage));
+      vi.spyOn(repositories.blogs, 'remove').mockRejectedValue(failure);
+      const result = await store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+
+      expect(result.error).toBe(failure.message);
+      expect(cachedList(store).data?.blogs).toHaveLength(3);
+    });
+  });
+});
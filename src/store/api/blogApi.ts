@@ -0,0 +1,157 @@
+import { Blog, BlogStatus, GalleryImage } from '../../lib/supabase';
+import { slugify } from '../../lib/tags';
+import { deleteUploads } from '../../lib/imageUpload';
+import { galleryPaths } from '../../lib/gallery';
+import { BlogFilters, BlogPage, NewTag } from '../../lib/repositories/types';
+import { api, repositoriesOf, runQuery } from './baseApi';
+
+export type BlogListQuery = { page: number; limit: number } & BlogFilters;
+
+export interface CreateBlogArgs {
+  title: string;
+  content: string;
+  gallery?: GalleryImage[];
+  tags?: string[];
+  status?: BlogStatus;
+  publishAt?: string | null; // defaults to now when publishing
+}
+
+export interface UpdateBlogArgs {
+  id: string;
+  title: string;
+  content: string;
+  gallery?: GalleryImage[]; // left unchanged when not given
+  tags?: string[]; // left unchanged when not given
+  status?: BlogStatus; // left unchanged when not given
+  publishAt?: string | null;
+}
+
+// Tags by slug, keeping the first spelling of each
+const toNewTags = (tagNames: string[]): NewTag[] =>
+  [...new Map(tagNames.map((name) => [slugify(name), name])).entries()]
+    .filter(([slug]) => slug)
+    .map(([slug, name]) => ({ slug, name }));
+
+// Drafts have no publish date; publishing without one means "now"
+const resolvePublishAt = (status: BlogStatus, publishAt: string | null) => {
+  if (status === 'draft') return null;
+  if (status === 'archived') return publishAt; // keep the original date
+  if (status === 'scheduled' && !publishAt) throw new Error('Pick a date to schedule the post for');
+  return publishAt ?? new Date().toISOString();
+};
+
+const LIST = { type: 'Blog', id: 'LIST' } as const;
+
+// A saved post is refetched wherever it is shown, and lists are refetched
+// because its status may move it in or out of them
+const changedBlog = (id: string) => [{ type: 'Blog' as const, id }, LIST];
+
+export const blogApi = api.injectEndpoints({
+  endpoints: (build) => ({
+    // A page of posts, filtered and sorted
+    getBlogs: build.query<BlogPage, BlogListQuery>({
+      queryFn: (query, queryApi) => runQuery(() => repositoriesOf(queryApi).blogs.list(query)),
+      providesTags: (result) => [...(result?.blogs ?? []).map(({ id }) => ({ type: 'Blog' as const, id })), LIST],
+    }),
+
+    // A single post with its tags
+    getBlog: build.query<Blog, string>({
+      queryFn: (id, queryApi) => runQuery(() => repositoriesOf(queryApi).blogs.get(id)),
+      providesTags: (_result, _error, id) => [{ type: 'Blog', id }],
+    }),
+
+    createBlog: build.mutation<Blog, CreateBlogArgs>({
+      queryFn: ({ title, content, gallery = [], tags = [], status = 'published', publishAt = null }, mutationApi) =>
+        runQuery(async () => {
+          const { blogs } = repositoriesOf(mutationApi);
+          const state = mutationApi.getState() as { auth: { user: { id: string } | null } };
+          const userId = state.auth.user?.id;
+
+          if (!userId) {
+            throw new Error('User not authenticated');
+          }
+
+          return blogs.create(
+            {
+              title,
+              content,
+              gallery,
+              user_id: userId,
+              status,
+              publish_at: resolvePublishAt(status, publishAt),
+            },
+            toNewTags(tags)
+          );
+        }),
+      invalidatesTags: (result) => (result ? [LIST] : []),
+    }),
+
+    updateBlog: build.mutation<Blog, UpdateBlogArgs>({
+      queryFn: ({ id, title, content, gallery, tags, status, publishAt = null }, mutationApi) =>
+        runQuery(async () => {
+          const { blogs, storage } = repositoriesOf(mutationApi);
+
+          // The gallery being replaced; images left out of the new one are deleted once the update is saved
+          const replaced = gallery ? (await blogs.get(id)).gallery : [];
+
+          const updated = await blogs.update(
+            id,
+            {
+              title,
+              content,
+              ...(gallery && { gallery }),
+              ...(status && { status, publish_at: resolvePublishAt(status, publishAt) }),
+              updated_at: new Date().toISOString(),
+            },
+            tags && toNewTags(tags)
+          );
+
+          if (gallery) {
+            const kept = new Set(galleryPaths(gallery));
+            await deleteUploads(storage, galleryPaths(replaced).filter((path) => !kept.has(path)));
+          }
+
+          return updated;
+        }),
+      invalidatesTags: (result, _error, { id }) => (result ? changedBlog(id) : []),
+    }),
+
+    // Change only a post's lifecycle status, e.g. archive it from the dashboard
+    updateBlogStatus: build.mutation<Blog, { id: string; status: BlogStatus; publishAt?: string | null }>({
+      queryFn: ({ id, status, publishAt = null }, mutationApi) =>
+        runQuery(() =>
+          repositoriesOf(mutationApi).blogs.update(id, {
+            status,
+            publish_at: resolvePublishAt(status, publishAt),
+            updated_at: new Date().toISOString(),
+          })
+        ),
+      invalidatesTags: (result, _error, { id }) => (result ? changedBlog(id) : []),
+    }),
+
+    deleteBlog: build.mutation<string, string>({
+      queryFn: (id, mutationApi) =>
+        runQuery(async () => {
+          const { blogs, storage } = repositoriesOf(mutationApi);
+
+          // The post's images and any its revisions still point at go with it
+          const { current, revisions } = await blogs.galleries(id);
+          await blogs.remove(id);
+
+          const paths = [current, ...revisions].flatMap(galleryPaths);
+          await deleteUploads(storage, [...new Set(paths)]);
+          return id;
+        }),
+      invalidatesTags: (result, _error, id) => (result ? changedBlog(id) : []),
+    }),
+  }),
+});
+
+export const {
+  useGetBlogsQuery,
+  useGetBlogQuery,
+  useCreateBlogMutation,
+  useUpdateBlogMutation,
+  useUpdateBlogStatusMutation,
+  useDeleteBlogMutation,
+} = blogApi;
@@ -0,0 +1,340 @@
+import { describe, expect, it, vi } from 'vitest';
+import { commentApi, isTemporary, selectCommentCount, selectReplyIds } from './commentApi';
+import { blogApi } from './blogApi';
+import { CommentAttachment } from '../../lib/supabase';
+import { CommentInput } from '../../lib/repositories/types';
+import { MemorySeed } from '../../lib/repositories/memory';
+import { setupStore } from '../../test/utils';
+import { AUTHOR, MODERATOR, READER, testSeed } from '../../test/fixtures';
+
+const failure = new Error('Network request failed');
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+const attachment = (name: string): CommentAttachment => ({
+  url: `https://example.com/${name}`,
+  path: `comments/${READER.id}/${name}`,
+  name,
+  size: 100,
+  type: 'text/plain',
+});
+
+// A thread on blog-1: a top-level comment with two replies, a newer top-level
+// comment, and one hidden by a moderator
+const threadSeed = (): MemorySeed =>
+  testSeed({
+    comments: [
+      { id: 'first', blog_id: 'blog-1', user_id: READER.id, content: 'First', created_at: minutesAgo(50) },
+      {
+        id: 'reply-1',
+        blog_id: 'blog-1',
+        user_id: AUTHOR.id,
+        parent_id: 'first',
+        content: 'Reply 1',
+        created_at: minutesAgo(40),
+      },
+      {
+        id: 'reply-2',
+        blog_id: 'blog-1',
+        user_id: READER.id,
+        parent_id: 'first',
+        content: 'Reply 2',
+        created_at: minutesAgo(30),
+      },
+      {
+        id: 'second',
+        blog_id: 'blog-1',
+        user_id: READER.id,
+        content: 'Second',
+        attachments: [attachment('notes.txt')],
+        created_at: minutesAgo(20),
+      },
+      {
+        id: 'hidden',
+        blog_id: 'blog-1',
+        user_id: AUTHOR.id,
+        content: 'Hidden',
+        hidden_at: minutesAgo(5),
+        created_at: minutesAgo(10),
+      },
+    ],
+  });
+
+const newComment = (content: string): CommentInput => ({
+  blog_id: 'blog-1',
+  user_id: AUTHOR.id,
+  parent_id: null,
+  content,
+  attachments: [],
+  hidden_at: null,
+  held_reason: null,
+});
+
+type Store = Awaited<ReturnType<typeof setupStore>>['store'];
+
+const cachedThread = (store: Store) => commentApi.endpoints.getComments.select('blog-1')(store.getState()).data;
+
+describe('commentApi', () => {
+  describe('getComments', () => {
+    it('builds the thread: newest top-level comments first, replies in reading order', async () => {
+      const { store } = await setupStore({ seed: threadSeed() });
+      const { data } = await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+
+      expect(selectReplyIds(data, null)).toEqual(['second', 'first']);
+      expect(selectReplyIds(data, 'first')).toEqual(['reply-1', 'reply-2']);
+      expect(data?.byId.hidden).toBeUndefined();
+      expect(selectCommentCount(data)).toBe(4);
+    });
+
+    it('includes hidden comments for their author', async () => {
+      const { store } = await setupStore({ seed: threadSeed(), signedInAs: AUTHOR.id });
+      const { data } = await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+
+      expect(selectReplyIds(data, null)).toEqual(['hidden', 'second', 'first']);
+    });
+
+    it('includes hidden comments for moderators', async () => {
+      const { store } = await setupStore({ seed: threadSeed(), signedInAs: MODERATOR.id });
+      const { data } = await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+
+      expect(data?.byId.hidden).toBeDefined();
+    });
+
+    it('reports why loading failed', async () => {
+      const { store, repositories } = await setupStore();
+      vi.spyOn(repositories.comments, 'list').mockRejectedValue(failure);
+      const { error } = await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+
+      expect(error).toBe(failure.message);
+    });
+
+    it("applies other readers' changes while cached and drops comments hidden from us", async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed() });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+
+      await repositories.auth.signIn(AUTHOR.email, AUTHOR.password);
+      const created = await repositories.comments.create(newComment('Live'));
+      await vi.waitFor(() => expect(selectReplyIds(cachedThread(store), null)[0]).toBe(created.id));
+
+      await repositories.comments.update(created.id, { hidden_at: new Date().toISOString(), updated_at: '' });
+      await vi.waitFor(() => expect(cachedThread(store)?.byId[created.id]).toBeUndefined());
+
+      await repositories.comments.remove('reply-1');
+      await vi.waitFor(() => expect(selectReplyIds(cachedThread(store), 'first')).toEqual(['reply-2']));
+    });
+
+    it('stops listening once the thread leaves the cache', async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed() });
+      const unsubscribe = vi.fn();
+      vi.spyOn(repositories.comments, 'subscribe').mockReturnValue(unsubscribe);
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      store.dispatch(commentApi.util.resetApiState());
+
+      await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalled());
+    });
+  });
+
+  describe('createComment', () => {
+    it('adds to the cached thread: a new comment goes first and a reply last', async () => {
+      const { store } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const { data: created } = await store.dispatch(
+        commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Newest' })
+      );
+      const { data: reply } = await store.dispatch(
+        commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Another reply', parentId: 'first' })
+      );
+
+      await vi.waitFor(() =>
+        expect(selectReplyIds(cachedThread(store), 'first')).toEqual(['reply-1', 'reply-2', reply?.id])
+      );
+      expect(selectReplyIds(cachedThread(store), null)[0]).toBe(created?.id);
+    });
+
+    it('shows the comment at once and swaps in the saved row in its place', async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const list = vi.spyOn(repositories.comments, 'list');
+      const request = store.dispatch(
+        commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Another reply', parentId: 'first' })
+      );
+
+      const [, , tempId] = selectReplyIds(cachedThread(store), 'first');
+      expect(isTemporary(tempId)).toBe(true);
+      expect(cachedThread(store)?.byId[tempId]).toMatchObject({ content: 'Another reply', user_id: READER.id });
+
+      const { data } = await request;
+      expect(selectReplyIds(cachedThread(store), 'first')).toEqual(['reply-1', 'reply-2', data?.id]);
+      expect(cachedThread(store)?.byId[tempId]).toBeUndefined();
+      expect(list).not.toHaveBeenCalled();
+    });
+
+    it("refetches the post's comment count, but not the thread", async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const { data: blog } = await store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1'));
+      const list = vi.spyOn(repositories.comments, 'list');
+      await store.dispatch(commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Newest' }));
+
+      const commentCount = () => blogApi.endpoints.getBlog.select('blog-1')(store.getState()).data?.comment_count;
+      await vi.waitFor(() => expect(commentCount()).toBe((blog?.comment_count ?? 0) + 1));
+      expect(list).not.toHaveBeenCalled();
+    });
+
+    it('takes the comment out again when saving fails', async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      vi.spyOn(repositories.comments, 'create').mockRejectedValue(failure);
+      const request = store.dispatch(commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Lost' }));
+
+      expect(selectReplyIds(cachedThread(store), null)).toHaveLength(3);
+      const result = await request;
+      expect(result.error).toBe(failure.message);
+      expect(selectReplyIds(cachedThread(store), null)).toEqual(['second', 'first']);
+    });
+
+    it('saves comments held by the content filters hidden', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      const { data } = await store.dispatch(
+        commentApi.endpoints.createComment.initiate({
+          blogId: 'blog-1',
+          content: 'http://a.example http://b.example http://c.example',
+        })
+      );
+
+      expect(data).toMatchObject({ held_reason: expect.any(String), hidden_at: expect.any(String) });
+    });
+
+    it('rejects comments the content filters refuse', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id });
+      const create = vi.spyOn(repositories.comments, 'create');
+      await store.dispatch(commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Same again' }));
+      const result = await store.dispatch(
+        commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Same again' })
+      );
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(result.error).toBeTruthy();
+    });
+
+    it('needs a signed-in user', async () => {
+      const { store } = await setupStore();
+      const result = await store.dispatch(
+        commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Hello' })
+      );
+
+      expect(result.error).toBe('User not authenticated');
+    });
+  });
+
+  it("refetches the post only when a comment is removed, as its comment count doesn't change otherwise", async () => {
+    const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+    await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+    await store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1'));
+    const get = vi.spyOn(repositories.blogs, 'get');
+    const blogLoaded = () => store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1'));
+
+    await store.dispatch(commentApi.endpoints.updateComment.initiate({ id: 'second', blogId: 'blog-1', content: 'Hi' }));
+    await blogLoaded();
+    // Has replies, so it stays as a placeholder
+    await store.dispatch(commentApi.endpoints.deleteComment.initiate({ id: 'first', blogId: 'blog-1' }));
+    await blogLoaded();
+    expect(get).not.toHaveBeenCalled();
+
+    await store.dispatch(commentApi.endpoints.deleteComment.initiate({ id: 'second', blogId: 'blog-1' }));
+    await blogLoaded();
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  describe('updateComment', () => {
+    it('shows the edit at once and keeps the saved row', async () => {
+      const { store } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const request = store.dispatch(
+        commentApi.endpoints.updateComment.initiate({ id: 'first', blogId: 'blog-1', content: 'Edited' })
+      );
+
+      expect(cachedThread(store)?.byId.first.content).toBe('Edited');
+      const { data } = await request;
+      expect(cachedThread(store)?.byId.first).toEqual(data);
+    });
+
+    it('deletes the uploads of removed attachments', async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      const remove = vi.spyOn(repositories.storage, 'remove');
+      await store.dispatch(
+        commentApi.endpoints.updateComment.initiate({ id: 'second', blogId: 'blog-1', content: 'Second', attachments: [] })
+      );
+
+      expect(remove).toHaveBeenCalledWith([attachment('notes.txt').path]);
+    });
+
+    it("screens a moderator's edit against the author's recent comments", async () => {
+      const seed = testSeed({
+        comments: [
+          { id: 'said', blog_id: 'blog-1', user_id: READER.id, content: 'Said before', created_at: minutesAgo(2) },
+          { id: 'edited', blog_id: 'blog-1', user_id: READER.id, content: 'Something else', created_at: minutesAgo(1) },
+        ],
+      });
+      const { store } = await setupStore({ seed, signedInAs: MODERATOR.id });
+      const result = await store.dispatch(
+        commentApi.endpoints.updateComment.initiate({ id: 'edited', blogId: 'blog-1', content: 'Said before' })
+      );
+
+      expect(result.error).toBe('You already posted this comment.');
+    });
+
+    it("is refused for someone else's comment", async () => {
+      const { store } = await setupStore({ seed: threadSeed(), signedInAs: AUTHOR.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const result = await store.dispatch(
+        commentApi.endpoints.updateComment.initiate({ id: 'first', blogId: 'blog-1', content: 'Hijacked' })
+      );
+
+      expect(result.error).toBeTruthy();
+      // Undone after showing
+      expect(cachedThread(store)?.byId.first.content).toBe('First');
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('leaves a placeholder for a comment with replies', async () => {
+      const { store } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const request = store.dispatch(commentApi.endpoints.deleteComment.initiate({ id: 'first', blogId: 'blog-1' }));
+
+      expect(cachedThread(store)?.byId.first).toMatchObject({ content: '', deleted_at: expect.any(String) });
+      const { data } = await request;
+
+      expect(data?.placeholder).toMatchObject({ content: '', deleted_at: expect.any(String) });
+      await vi.waitFor(() => expect(selectCommentCount(cachedThread(store))).toBe(3));
+      expect(cachedThread(store)?.byId.first).toMatchObject({ content: '', deleted_at: expect.any(String) });
+      expect(selectReplyIds(cachedThread(store), 'first')).toEqual(['reply-1', 'reply-2']);
+    });
+
+    it('removes a comment without replies and its uploads', async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      const remove = vi.spyOn(repositories.storage, 'remove');
+      const request = store.dispatch(commentApi.endpoints.deleteComment.initiate({ id: 'second', blogId: 'blog-1' }));
+
+      expect(selectReplyIds(cachedThread(store), null)).toEqual(['first']);
+      await request;
+      expect(cachedThread(store)?.byId.second).toBeUndefined();
+      expect(remove).toHaveBeenCalledWith([attachment('notes.txt').path]);
+    });
+
+    it('reports why deleting failed', async () => {
+      const { store, repositories } = await setupStore({ seed: threadSeed(), signedInAs: READER.id });
+      await store.dispatch(commentApi.endpoints.getComments.initiate('blog-1'));
+      vi.spyOn(repositories.comments, 'remove').mockRejectedValue(failure);
+      const request = store.dispatch(commentApi.endpoints.deleteComment.initiate({ id: 'second', blogId: 'blog-1' }));
+
+      expect(cachedThread(store)?.byId.second).toBeUndefined();
+      const result = await request;
+      expect(result.error).toBe(failure.message);
+      // Back in its place
+      expect(selectReplyIds(cachedThread(store), null)).toEqual(['second', 'first']);
+    });
+  });
+});
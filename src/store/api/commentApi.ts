@@ -0,0 +1,355 @@
+import { Comment, CommentAttachment, User } from '../../lib/supabase';
+import { canSeeHidden, hasPermission } from '../../lib/permissions';
+import {
+  createCommentFilters,
+  runCommentFilters,
+  DEFAULT_COMMENT_FILTER_CONFIG,
+  FilterOutcome,
+  parseBlockedWords,
+} from '../../lib/commentFilters';
+import { deleteUploads } from '../../lib/imageUpload';
+import { CommentRepository } from '../../lib/repositories/types';
+import { api, RefusedError, repositoriesOf, runQuery } from './baseApi';
+
+// Key used in `idsByParent` for top-level comments
+const ROOT = 'root';
+
+// Comments shown before the server has saved them have a temporary id
+const TEMP_ID_PREFIX = 'temp-';
+
+export const isTemporary = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+// A post's comments, as cached by getComments
+export interface CommentThread {
+  byId: Record<string, Comment>;
+  idsByParent: Record<string, string[]>; // top-level newest-first, replies oldest-first
+}
+
+export interface CreateCommentArgs {
+  blogId: string;
+  content: string;
+  attachments?: CommentAttachment[];
+  parentId?: string | null;
+}
+
+export interface UpdateCommentArgs {
+  id: string;
+  blogId: string;
+  content: string;
+  attachments?: CommentAttachment[]; // unchanged when not given
+}
+
+export interface DeleteCommentArgs {
+  id: string;
+  blogId: string;
+}
+
+// Storage paths of a comment's current attachments, to delete once they are replaced or removed
+const attachmentPaths = async (comments: CommentRepository, id: string) =>
+  (await comments.attachments(id)).map((attachment) => attachment.path);
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT;
+
+const insertComment = (thread: CommentThread, comment: Comment) => {
+  const key = parentKey(comment.parent_id);
+  const siblings = thread.idsByParent[key] ?? [];
+  thread.byId[comment.id] = comment;
+  if (siblings.includes(comment.id)) return;
+  // New top-level comments go first, new replies go last
+  thread.idsByParent[key] = key === ROOT ? [comment.id, ...siblings] : [...siblings, comment.id];
+};
+
+const removeComment = (thread: CommentThread, id: string) => {
+  const comment = thread.byId[id];
+  if (!comment) return;
+  const key = parentKey(comment.parent_id);
+  thread.idsByParent[key] = (thread.idsByParent[key] ?? []).filter((childId) => childId !== id);
+  // Replies are removed by the database cascade, drop them locally too
+  (thread.idsByParent[id] ?? []).forEach((childId) => removeComment(thread, childId));
+  delete thread.idsByParent[id];
+  delete thread.byId[id];
+};
+
+// Swap a temporary comment for the saved row, keeping its place in the thread
+const replaceComment = (thread: CommentThread, tempId: string, comment: Comment) => {
+  const key = parentKey(comment.parent_id);
+  const siblings = thread.idsByParent[key] ?? [];
+  delete thread.byId[tempId];
+  if (siblings.includes(tempId) && !siblings.includes(comment.id)) {
+    thread.idsByParent[key] = siblings.map((id) => (id === tempId ? comment.id : id));
+    thread.byId[comment.id] = comment;
+    return;
+  }
+  // Refetched meanwhile, or the saved row already arrived in real time
+  thread.idsByParent[key] = siblings.filter((id) => id !== tempId);
+  insertComment(thread, comment);
+};
+
+// Comments arrive newest-first; inserting oldest-first keeps replies in reading order
+const buildThread = (comments: Comment[]): CommentThread => {
+  const thread: CommentThread = { byId: {}, idsByParent: {} };
+  [...comments].reverse().forEach((comment) => insertComment(thread, comment));
+  return thread;
+};
+
+const commentFilters = createCommentFilters({
+  ...DEFAULT_COMMENT_FILTER_CONFIG,
+  blockedWords: parseBlockedWords(import.meta.env.VITE_BLOCKED_WORDS),
+});
+
+// Run the content filters against the author's recent comments
+const screenComment = async (
+  comments: CommentRepository,
+  userId: string,
+  content: string,
+  commentId: string | null
+): Promise<FilterOutcome> => {
+  const now = new Date();
+  const recentComments = await comments.recentByUser(
+    userId,
+    new Date(now.getTime() - commentFilters.lookbackMs).toISOString()
+  );
+  return runCommentFilters(commentFilters.rules, { content, commentId }, { now, recentComments });
+};
+
+const currentUserId = (getState: () => unknown) => {
+  const state = getState() as { auth: { user: { id: string } | null } };
+  return state.auth.user?.id ?? null;
+};
+
+const signedInUserId = (getState: () => unknown) => {
+  const userId = currentUserId(getState);
+
+  if (!userId) {
+    throw new Error('User not authenticated');
+  }
+  return userId;
+};
+
+// The thread is patched in place, but the post's comment_count, and lists
+// sorted by it, are refetched when a comment is added or removed
+const commentedBlog = (blogId: string) => [
+  { type: 'Blog' as const, id: blogId },
+  { type: 'Blog' as const, id: 'LIST' },
+];
+
+export const commentApi = api.injectEndpoints({
+  endpoints: (build) => ({
+    // A post's comments. Comments hidden by a moderator are left out except
+    // for their author and for moderators. While cached, other readers'
+    // comments, edits and deletes are applied as they happen.
+    getComments: build.query<CommentThread, string>({
+      queryFn: (blogId, queryApi) =>
+        runQuery(async () => {
+          const state = queryApi.getState() as { auth: { user: User | null } };
+          const user = state.auth.user;
+
+          const comments = await repositoriesOf(queryApi).comments.list(blogId, {
+            userId: user?.id ?? null,
+            canSeeAllHidden: hasPermission(user, 'content:moderate'),
+          });
+          return buildThread(comments);
+        }),
+      providesTags: (_result, _error, blogId) => [{ type: 'Comment', id: blogId }],
+      async onCacheEntryAdded(blogId, { cacheDataLoaded, cacheEntryRemoved, updateCachedData, getState, extra }) {
+        try {
+          await cacheDataLoaded;
+        } catch {
+          return; // removed before it loaded
+        }
+        const unsubscribe = repositoriesOf({ extra }).comments.subscribe(blogId, {
+          // Comments a moderator hides are dropped unless the current user may still see them
+          onUpsert: (comment) => {
+            const state = getState() as unknown as { auth: { user: User | null } };
+            const visible = !comment.hidden_at || canSeeHidden(state.auth.user, comment);
+            updateCachedData((thread) =>
+              visible ? insertComment(thread, comment) : removeComment(thread, comment.id)
+            );
+          },
+          onDelete: (id) => updateCachedData((thread) => removeComment(thread, id)),
+        });
+        await cacheEntryRemoved;
+        unsubscribe();
+      },
+    }),
+
+    // The comment shows at once under a temporary id, is swapped for the
+    // saved row when the insert returns, and is taken out again if it fails
+    createComment: build.mutation<Comment, CreateCommentArgs>({
+      queryFn: ({ blogId, content, attachments = [], parentId = null }, mutationApi) =>
+        runQuery(async () => {
+          const { comments } = repositoriesOf(mutationApi);
+          const userId = signedInUserId(mutationApi.getState);
+
+          // Rejected comments aren't saved; held ones are saved hidden until approved
+          const outcome = await screenComment(comments, userId, content, null);
+          if (outcome.action === 'reject') throw new RefusedError(outcome.reason);
+          const held = outcome.action === 'hold';
+
+          return comments.create({
+            blog_id: blogId,
+            user_id: userId,
+            parent_id: parentId,
+            content,
+            attachments,
+            hidden_at: held ? new Date().toISOString() : null,
+            held_reason: held ? outcome.reason : null,
+          });
+        }),
+      invalidatesTags: (result, _error, { blogId }) => (result ? commentedBlog(blogId) : []),
+      async onQueryStarted(
+        { blogId, content, attachments = [], parentId = null },
+        { dispatch, getState, queryFulfilled, requestId }
+      ) {
+        const tempId = `${TEMP_ID_PREFIX}${requestId}`;
+        const userId = currentUserId(getState);
+        if (userId) {
+          const now = new Date().toISOString();
+          dispatch(
+            updateThread(blogId, (thread) =>
+              insertComment(thread, {
+                id: tempId,
+                blog_id: blogId,
+                user_id: userId,
+                parent_id: parentId,
+                content,
+                attachments,
+                deleted_at: null,
+                hidden_at: null,
+                held_reason: null,
+                created_at: now,
+                updated_at: now,
+              })
+            )
+          );
+        }
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(updateThread(blogId, (thread) => replaceComment(thread, tempId, data)));
+        } catch {
+          dispatch(updateThread(blogId, (thread) => removeComment(thread, tempId)));
+        }
+      },
+    }),
+
+    // The edit shows at once and is undone if saving fails
+    updateComment: build.mutation<Comment, UpdateCommentArgs>({
+      queryFn: ({ id, content, attachments }, mutationApi) =>
+        runQuery(async () => {
+          const { comments, storage } = repositoriesOf(mutationApi);
+          signedInUserId(mutationApi.getState);
+
+          // Screened against the author's history, also when a moderator edits
+          const { user_id: authorId } = await comments.get(id);
+          const outcome = await screenComment(comments, authorId, content, id);
+          if (outcome.action === 'reject') throw new RefusedError(outcome.reason);
+          const now = new Date().toISOString();
+          const replacedPaths = attachments ? await attachmentPaths(comments, id) : [];
+
+          const updated = await comments.update(id, {
+            content,
+            ...(attachments && { attachments }),
+            updated_at: now,
+            // A held edit goes back to the moderation queue; passing never unhides
+            ...(outcome.action === 'hold' && { hidden_at: now, held_reason: outcome.reason }),
+          });
+
+          if (attachments) {
+            const kept = new Set(attachments.map((attachment) => attachment.path));
+            await deleteUploads(storage, replacedPaths.filter((path) => !kept.has(path)));
+          }
+          return updated;
+        }),
+      async onQueryStarted({ id, blogId, content, attachments }, { dispatch, queryFulfilled }) {
+        const patch = dispatch(
+          updateThread(blogId, (thread) => {
+            const comment = thread.byId[id];
+            if (!comment) return;
+            comment.content = content;
+            if (attachments) comment.attachments = attachments;
+            comment.updated_at = new Date().toISOString();
+          })
+        );
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(updateThread(blogId, (thread) => insertComment(thread, data)));
+        } catch {
+          patch.undo();
+        }
+      },
+    }),
+
+    // A comment that has replies is soft-deleted so the thread stays
+    // readable; it is then rendered as a "[deleted]" placeholder. Either
+    // shows at once and is undone if deleting fails.
+    deleteComment: build.mutation<{ id: string; placeholder: Comment | null }, DeleteCommentArgs>({
+      queryFn: ({ id }, mutationApi) =>
+        runQuery(async () => {
+          const { comments, storage } = repositoriesOf(mutationApi);
+          const paths = await attachmentPaths(comments, id);
+
+          if (await comments.countReplies(id)) {
+            const now = new Date().toISOString();
+            const placeholder = await comments.update(id, {
+              content: '',
+              attachments: [],
+              deleted_at: now,
+              updated_at: now,
+            });
+
+            await deleteUploads(storage, paths);
+            return { id, placeholder };
+          }
+
+          await comments.remove(id);
+          await deleteUploads(storage, paths);
+          return { id, placeholder: null };
+        }),
+      // A placeholder stays counted, like any row
+      invalidatesTags: (result, _error, { blogId }) => (result && !result.placeholder ? commentedBlog(blogId) : []),
+      async onQueryStarted({ id, blogId }, { dispatch, queryFulfilled }) {
+        const patch = dispatch(
+          updateThread(blogId, (thread) => {
+            const comment = thread.byId[id];
+            if (!comment) return;
+            if (!thread.idsByParent[id]?.length) {
+              removeComment(thread, id);
+              return;
+            }
+            const now = new Date().toISOString();
+            Object.assign(comment, { content: '', attachments: [], deleted_at: now, updated_at: now });
+          })
+        );
+        try {
+          // Replies the reader can't see may still make the server keep a placeholder
+          const { data } = await queryFulfilled;
+          dispatch(
+            updateThread(blogId, (thread) =>
+              data.placeholder ? insertComment(thread, data.placeholder) : removeComment(thread, id)
+            )
+          );
+        } catch {
+          patch.undo();
+        }
+      },
+    }),
+  }),
+});
+
+// Change a post's cached thread in place; nothing happens if it isn't cached
+const updateThread = (blogId: string, recipe: (thread: CommentThread) => void) =>
+  commentApi.util.updateQueryData('getComments', blogId, recipe);
+
+export const { useGetCommentsQuery, useCreateCommentMutation, useUpdateCommentMutation, useDeleteCommentMutation } =
+  commentApi;
+
+const EMPTY_IDS: string[] = [];
+
+// Selectors over a cached thread
+
+// Ids of the direct replies to `parentId`, or of the top-level comments when null
+export const selectReplyIds = (thread: CommentThread | undefined, parentId: string | null) =>
+  thread?.idsByParent[parentKey(parentId)] ?? EMPTY_IDS;
+
+export const selectCommentCount = (thread: CommentThread | undefined) =>
+  Object.values(thread?.byId ?? {}).filter((comment) => !comment.deleted_at).length;
@@ -0,0 +1,491 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import authReducer, {
+  changeEmail,
+  checkSession,
+  clearError,
+  clearSessionExpired,
+  completeOAuthSignIn,
+  fetchIdentities,
+  linkIdentity,
+  loginUser,
+  logoutUser,
+  recoverSession,
+  registerUser,
+  requestPasswordReset,
+  resetAuthRequest,
+  sendMagicLink,
+  signInWithProvider,
+  syncAuthState,
+  unlinkIdentity,
+  updatePassword,
+  watchAuthState,
+} from './authSlice';
+import { updateProfile } from './profileSlice';
+import { setupStore } from '../../test/utils';
+import { AUTHOR, READER } from '../../test/fixtures';
+
+const failure = new Error('Network request failed');
+
+describe('authSlice', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  describe('registerUser', () => {
+    it('signs the new account in as an author', async () => {
+      const { store } = await setupStore();
+      const pending = store.dispatch(registerUser({ email: 'new@example.com', password: 'secret1' }));
+      expect(store.getState().auth.loading).toBe(true);
+
+      await pending;
+      const { auth } = store.getState();
+      expect(auth.loading).toBe(false);
+      expect(auth.isAuthenticated).toBe(true);
+      expect(auth.user).toMatchObject({ email: 'new@example.com', role: 'author' });
+    });
+
+    it('fails for an email that is already registered', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(registerUser({ email: READER.email, password: 'secret1' }));
+
+      const { auth } = store.getState();
+      expect(auth.loading).toBe(false);
+      expect(auth.isAuthenticated).toBe(false);
+      expect(auth.error).toBe('User already registered');
+    });
+  });
+
+  describe('loginUser', () => {
+    it('loads the user with their role', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(loginUser({ email: AUTHOR.email, password: AUTHOR.password }));
+
+      const { auth } = store.getState();
+      expect(auth.isAuthenticated).toBe(true);
+      expect(auth.session).not.toBeNull();
+      expect(auth.user).toMatchObject({ id: AUTHOR.id, role: 'author' });
+    });
+
+    it('clears an expired session notice', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(syncAuthState({ event: 'SIGNED_OUT', session: null }));
+      expect(store.getState().auth.sessionExpired).toBe(true);
+
+      await store.dispatch(loginUser({ email: READER.email, password: READER.password }));
+      expect(store.getState().auth.sessionExpired).toBe(false);
+    });
+
+    it('fails with wrong credentials', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(loginUser({ email: AUTHOR.email, password: 'wrong' }));
+
+      const { auth } = store.getState();
+      expect(auth.loading).toBe(false);
+      expect(auth.isAuthenticated).toBe(false);
+      expect(auth.error).toBe('Invalid login credentials');
+    });
+  });
+
+  describe('logoutUser', () => {
+    it('clears the user and session', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      const pending = store.dispatch(logoutUser());
+      expect(store.getState().auth.signingOut).toBe(true);
+
+      await pending;
+      const { auth } = store.getState();
+      expect(auth.signingOut).toBe(false);
+      expect(auth.user).toBeNull();
+      expect(auth.session).toBeNull();
+      expect(auth.isAuthenticated).toBe(false);
+      expect(auth.identities).toEqual([]);
+    });
+
+    it('keeps the user signed in when signing out fails', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+      vi.spyOn(repositories.auth, 'signOut').mockRejectedValue(failure);
+      await store.dispatch(logoutUser());
+
+      const { auth } = store.getState();
+      expect(auth.signingOut).toBe(false);
+      expect(auth.isAuthenticated).toBe(true);
+      expect(auth.error).toBe(failure.message);
+    });
+  });
+
+  describe('checkSession', () => {
+    it('restores a stored session', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+
+      const { auth } = store.getState();
+      expect(auth.initialized).toBe(true);
+      expect(auth.isAuthenticated).toBe(true);
+      expect(auth.user?.id).toBe(AUTHOR.id);
+    });
+
+    it('finishes without a session', async () => {
+      const { store } = await setupStore();
+
+      const { auth } = store.getState();
+      expect(auth.initialized).toBe(true);
+      expect(auth.isAuthenticated).toBe(false);
+      expect(auth.user).toBeNull();
+    });
+
+    it('still finishes when the check fails', async () => {
+      const { store, repositories } = await setupStore({ sessionChecked: false });
+      vi.spyOn(repositories.auth, 'getSession').mockRejectedValue(failure);
+      await store.dispatch(checkSession());
+
+      const { auth } = store.getState();
+      expect(auth.initialized).toBe(true);
+      expect(auth.isAuthenticated).toBe(false);
+    });
+  });
+
+  describe('syncAuthState', () => {
+    it('marks the session expired when it ends without a logout', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      await store.dispatch(syncAuthState({ event: 'SIGNED_OUT', session: null }));
+
+      const { auth } = store.getState();
+      expect(auth.sessionExpired).toBe(true);
+      expect(auth.isAuthenticated).toBe(false);
+      expect(auth.user).toBeNull();
+    });
+
+    it("doesn't report our own logout as an expiry", async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id });
+      const logout = store.dispatch(logoutUser());
+      await store.dispatch(syncAuthState({ event: 'SIGNED_OUT', session: null }));
+      await logout;
+
+      expect(store.getState().auth.sessionExpired).toBe(false);
+    });
+
+    it('loads the user signed in from another tab', async () => {
+      const { store, repositories } = await setupStore();
+      const { session } = await repositories.auth.signIn(AUTHOR.email, AUTHOR.password);
+      await store.dispatch(syncAuthState({ event: 'SIGNED_IN', session }));
+
+      const { auth } = store.getState();
+      expect(auth.isAuthenticated).toBe(true);
+      expect(auth.user?.id).toBe(AUTHOR.id);
+    });
+
+    it("doesn't reload the same user on a repeated sign-in", async () => {
+      const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+      const loadUser = vi.spyOn(repositories.auth, 'loadUser');
+      const session = await repositories.auth.getSession();
+      await store.dispatch(syncAuthState({ event: 'SIGNED_IN', session }));
+
+      expect(loadUser).not.toHaveBeenCalled();
+      expect(store.getState().auth.session).toEqual(session);
+    });
+
+    it('reloads the user when their account changed', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+      await repositories.auth.updateEmail('renamed@example.com', '');
+      const session = await repositories.auth.getSession();
+      await store.dispatch(syncAuthState({ event: 'USER_UPDATED', session }));
+
+      expect(store.getState().auth.user?.email).toBe('renamed@example.com');
+    });
+
+    it('reports a user that could not be loaded', async () => {
+      const { store, repositories } = await setupStore();
+      const { session } = await repositories.auth.signIn(AUTHOR.email, AUTHOR.password);
+      vi.spyOn(repositories.auth, 'loadUser').mockRejectedValue(failure);
+      await store.dispatch(syncAuthState({ event: 'SIGNED_IN', session }));
+
+      expect(store.getState().auth.error).toBe(failure.message);
+    });
+  });
+
+  describe('watchAuthState', () => {
+    it('follows sign-ins and sign-outs until stopped', async () => {
+      const { store, repositories } = await setupStore();
+      const stop = store.dispatch(watchAuthState());
+
+      await repositories.auth.signIn(AUTHOR.email, AUTHOR.password);
+      await vi.waitFor(() => expect(store.getState().auth.user?.id).toBe(AUTHOR.id));
+
+      stop();
+      await repositories.auth.signOut();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(store.getState().auth.isAuthenticated).toBe(true);
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('reports the email as sent', async () => {
+      const { store } = await setupStore();
+      const pending = store.dispatch(requestPasswordReset(READER.email));
+      expect(store.getState().auth.passwordReset.pending).toBe(true);
+
+      await pending;
+      expect(store.getState().auth.passwordReset).toEqual({ pending: false, error: null, succeeded: true });
+    });
+
+    it('reports why the email could not be sent', async () => {
+      const { store, repositories } = await setupStore();
+      vi.spyOn(repositories.auth, 'sendPasswordReset').mockRejectedValue(failure);
+      await store.dispatch(requestPasswordReset(READER.email));
+
+      expect(store.getState().auth.passwordReset).toEqual({
+        pending: false,
+        error: failure.message,
+        succeeded: false,
+      });
+    });
+  });
+
+  describe('recoverSession', () => {
+    it('signs in with the session from the recovery link', async () => {
+      window.history.replaceState(null, '', '/reset-password#access_token=token&type=recovery');
+      const { store } = await setupStore({ signedInAs: READER.id, sessionChecked: false });
+      await store.dispatch(recoverSession());
+
+      const { auth } = store.getState();
+      expect(auth.recovery.succeeded).toBe(true);
+      expect(auth.isAuthenticated).toBe(true);
+      expect(auth.user?.id).toBe(READER.id);
+    });
+
+    it('accepts a session Supabase reported as a password recovery', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id, sessionChecked: false });
+      const session = await repositories.auth.getSession();
+      await store.dispatch(syncAuthState({ event: 'PASSWORD_RECOVERY', session }));
+      await store.dispatch(recoverSession());
+
+      expect(store.getState().auth.recovery.succeeded).toBe(true);
+    });
+
+    it('refuses an ordinary session, which has no reset link behind it', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(recoverSession());
+
+      expect(store.getState().auth.recovery.error).toBe('This reset link is invalid or has expired.');
+    });
+
+    it('needs a new link once the password was changed', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id });
+      const session = await repositories.auth.getSession();
+      await store.dispatch(syncAuthState({ event: 'PASSWORD_RECOVERY', session }));
+      await store.dispatch(updatePassword({ password: 'new-secret' }));
+      await store.dispatch(recoverSession());
+
+      expect(store.getState().auth.recovery.error).toBe('This reset link is invalid or has expired.');
+    });
+
+    it('fails without a session', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(recoverSession());
+
+      expect(store.getState().auth.recovery.error).toBe('This reset link is invalid or has expired.');
+    });
+
+    it('shows the error the link came back with', async () => {
+      window.history.replaceState(null, '', '/reset-password#error_description=Email+link+is+invalid+or+has+expired');
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(recoverSession());
+
+      expect(store.getState().auth.recovery.error).toBe('Email link is invalid or has expired');
+    });
+  });
+
+  describe('sendMagicLink', () => {
+    it('reports the link as sent', async () => {
+      const { store } = await setupStore();
+      const pending = store.dispatch(sendMagicLink(READER.email));
+      expect(store.getState().auth.magicLink.pending).toBe(true);
+
+      await pending;
+      expect(store.getState().auth.magicLink.succeeded).toBe(true);
+    });
+
+    it('fails for an unknown account', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(sendMagicLink('nobody@example.com'));
+
+      expect(store.getState().auth.magicLink).toMatchObject({ pending: false, succeeded: false });
+      expect(store.getState().auth.magicLink.error).toBeTruthy();
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('requests the change', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      const pending = store.dispatch(changeEmail('new@example.com'));
+      expect(store.getState().auth.emailChange.pending).toBe(true);
+
+      await pending;
+      expect(store.getState().auth.emailChange.succeeded).toBe(true);
+    });
+
+    it('fails without a session', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(changeEmail('new@example.com'));
+
+      expect(store.getState().auth.emailChange.error).toBe('Auth session missing!');
+    });
+  });
+
+  describe('updatePassword', () => {
+    it('checks the current password first', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id });
+      const pending = store.dispatch(updatePassword({ password: 'newpass', currentPassword: READER.password }));
+      expect(store.getState().auth.passwordUpdate.pending).toBe(true);
+
+      await pending;
+      expect(store.getState().auth.passwordUpdate.succeeded).toBe(true);
+      await expect(repositories.auth.signIn(READER.email, 'newpass')).resolves.toBeTruthy();
+    });
+
+    it('rejects a wrong current password', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(updatePassword({ password: 'newpass', currentPassword: 'wrong' }));
+
+      expect(store.getState().auth.passwordUpdate.error).toBe('Current password is incorrect');
+    });
+
+    it('needs a signed-in user to check the current password', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(updatePassword({ password: 'newpass', currentPassword: 'password' }));
+
+      expect(store.getState().auth.passwordUpdate.error).toBe('User not authenticated');
+    });
+  });
+
+  describe('signInWithProvider', () => {
+    it('stays pending while the browser goes to the provider', async () => {
+      const { store, repositories } = await setupStore();
+      const signIn = vi.spyOn(repositories.auth, 'signInWithProvider').mockResolvedValue();
+      await store.dispatch(signInWithProvider({ provider: 'github', next: '/blogs/create' }));
+
+      expect(signIn).toHaveBeenCalledWith('github', expect.stringContaining('/auth/callback?next=%2Fblogs%2Fcreate'));
+      expect(store.getState().auth.oauth.pending).toBe(true);
+    });
+
+    it('reports why the redirect failed', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(signInWithProvider({ provider: 'github' }));
+
+      expect(store.getState().auth.oauth).toMatchObject({ pending: false, succeeded: false });
+      expect(store.getState().auth.oauth.error).toBeTruthy();
+    });
+  });
+
+  describe('completeOAuthSignIn', () => {
+    it('signs in with the session from the callback', async () => {
+      const { store } = await setupStore({ signedInAs: AUTHOR.id, sessionChecked: false });
+      await store.dispatch(completeOAuthSignIn());
+
+      const { auth } = store.getState();
+      expect(auth.oauth.succeeded).toBe(true);
+      expect(auth.user?.id).toBe(AUTHOR.id);
+    });
+
+    it('fails when the provider refused', async () => {
+      window.history.replaceState(null, '', '/auth/callback?error_description=Access+denied');
+      const { store } = await setupStore();
+      await store.dispatch(completeOAuthSignIn());
+
+      expect(store.getState().auth.oauth.error).toBe('Access denied');
+    });
+  });
+
+  describe('identities', () => {
+    it('lists the sign-in methods of the account', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(fetchIdentities());
+
+      expect(store.getState().auth.identities.map((identity) => identity.provider)).toEqual(['email']);
+    });
+
+    it('reports identities that could not be loaded', async () => {
+      const { store } = await setupStore();
+      await store.dispatch(fetchIdentities());
+
+      expect(store.getState().auth.identityLink.error).toBe('Auth session missing!');
+    });
+
+    it('stays pending while linking redirects to the provider', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id });
+      vi.spyOn(repositories.auth, 'linkIdentity').mockResolvedValue();
+      await store.dispatch(linkIdentity('google'));
+
+      expect(store.getState().auth.identityLink.pending).toBe(true);
+    });
+
+    it('reports why linking failed', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(linkIdentity('google'));
+
+      expect(store.getState().auth.identityLink.pending).toBe(false);
+      expect(store.getState().auth.identityLink.error).toBeTruthy();
+    });
+
+    it('removes an unlinked identity', async () => {
+      const { store, repositories } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(fetchIdentities());
+      const [identity] = store.getState().auth.identities;
+      vi.spyOn(repositories.auth, 'unlinkIdentity').mockResolvedValue();
+      await store.dispatch(unlinkIdentity(identity));
+
+      expect(store.getState().auth.identities).toEqual([]);
+      expect(store.getState().auth.identityLink.succeeded).toBe(true);
+    });
+
+    it('keeps the last identity', async () => {
+      const { store } = await setupStore({ signedInAs: READER.id });
+      await store.dispatch(fetchIdentities());
+      await store.dispatch(unlinkIdentity(store.getState().auth.identities[0]));
+
+      expect(store.getState().auth.identities).toHaveLength(1);
+      expect(store.getState().auth.identityLink.error).toBe('User must have at least 1 identity after unlinking');
+    });
+  });
+
+  describe('reducers', () => {
+    const state = authReducer(undefined, { type: 'init' });
+
+    it('clears the error', () => {
+      expect(authReducer({ ...state, error: 'Oops' }, clearError()).error).toBeNull();
+    });
+
+    it('clears the expired session notice', () => {
+      expect(authReducer({ ...state, sessionExpired: true }, clearSessionExpired()).sessionExpired).toBe(false);
+    });
+
+    it("resets one flow's request state", () => {
+      const done = { pending: false, error: null, succeeded: true };
+      const next = authReducer({ ...state, magicLink: done, passwordReset: done }, resetAuthRequest('magicLink'));
+
+      expect(next.magicLink.succeeded).toBe(false);
+      expect(next.passwordReset.succeeded).toBe(true);
+    });
+
+    it("keeps the user's profile in step with profile edits", () => {
+      const user = { id: READER.id, email: READER.email, role: READER.role, profile: null };
+      const profile = {
+        id: READER.id,
+        display_name: 'Riley',
+        bio: null,
+        avatar_url: null,
+        avatar_path: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+      };
+      const args = { displayName: 'Riley', bio: '', avatarFile: null };
+
+      expect(authReducer({ ...state, user }, updateProfile.fulfilled(profile, 'request', args)).user?.profile).toEqual(
+        profile
+      );
+      expect(
+        authReducer({ ...state, user }, updateProfile.fulfilled({ ...profile, id: 'someone-else' }, 'request', args))
+          .user?.profile
+      ).toBeNull();
+    });
+  });
+});
@@ -1,38 +1,91 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { supabase, User } from '../../lib/supabase';
-import { Session } from '@supabase/supabase-js';
+import { createSlice, createAsyncThunk, PayloadAction, ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { User } from '../../lib/supabase';
+import { AuthChangeEvent, Session, User as AuthUser, UserIdentity } from '@supabase/supabase-js';
+import { updateProfile } from './profileSlice';
+import { OAuthProvider, oauthCallbackUrl } from '../../lib/oauth';
+import { AuthRepository, Repositories } from '../../lib/repositories/types';
+
+// Status of an account flow that runs alongside login/register, e.g. a
+// password reset, so each form shows only its own progress and errors
+export interface AuthRequestState {
+  pending: boolean;
+  error: string | null;
+  succeeded: boolean;
+}
+
+const idleRequest: AuthRequestState = {
+  pending: false,
+  error: null,
+  succeeded: false,
+};
+
+export type AuthRequest =
+  | 'passwordReset'
+  | 'recovery'
+  | 'magicLink'
+  | 'emailChange'
+  | 'passwordUpdate'
+  | 'oauth'
+  | 'identityLink';
 
 interface AuthState {
   user: User | null;
   session: Session | null;
   isAuthenticated: boolean;
+  initialized: boolean; // the stored session has been checked on startup
+  signingOut: boolean;
+  sessionExpired: boolean; // signed out without logging out, e.g. the refresh token expired
   loading: boolean;
   error: string | null;
+  passwordReset: AuthRequestState; // reset email requested from Login
+  recovery: AuthRequestState; // reset link opened on /reset-password
+  passwordRecovery: boolean; // Supabase signed the user in from a reset link
+  magicLink: AuthRequestState;
+  emailChange: AuthRequestState;
+  passwordUpdate: AuthRequestState;
+  oauth: AuthRequestState; // redirect to a provider and back to /auth/callback
+  identities: UserIdentity[];
+  identityLink: AuthRequestState; // connecting or disconnecting a provider
 }
 
 const initialState: AuthState = {
   user: null,
   session: null,
   isAuthenticated: false,
+  initialized: false,
+  signingOut: false,
+  sessionExpired: false,
   loading: false,
   error: null,
+  passwordReset: idleRequest,
+  recovery: idleRequest,
+  passwordRecovery: false,
+  magicLink: idleRequest,
+  emailChange: idleRequest,
+  passwordUpdate: idleRequest,
+  oauth: idleRequest,
+  identities: [],
+  identityLink: idleRequest,
 };
 
+// Where links in auth emails send the user back to
+const redirectUrl = (path: string) => `${window.location.origin}${path}`;
+
+// The app user for a signed-in account, none without one
+const loadUser = async (auth: AuthRepository, authUser: AuthUser | null): Promise<User | null> =>
+  authUser ? auth.loadUser(authUser) : null;
+
 // Async thunks for auth operations
 export const registerUser = createAsyncThunk(
   'auth/register',
-  async ({ email, password }: { email: string; password: string }, { rejectWithValue }) => {
+  async ({ email, password }: { email: string; password: string }, { rejectWithValue, extra }) => {
     try {
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-      });
-
-      if (error) throw error;
+      const { auth } = extra as Repositories;
+      const { user, session } = await auth.signUp(email, password);
 
       return {
-        user: data.user,
-        session: data.session,
+        user: await loadUser(auth, user),
+        session,
       };
     } catch (error: any) {
       return rejectWithValue(error.message);
@@ -42,18 +95,14 @@ export const registerUser = createAsyncThunk(
 
 export const loginUser = createAsyncThunk(
   'auth/login',
-  async ({ email, password }: { email: string; password: string }, { rejectWithValue }) => {
+  async ({ email, password }: { email: string; password: string }, { rejectWithValue, extra }) => {
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (error) throw error;
+      const { auth } = extra as Repositories;
+      const { user, session } = await auth.signIn(email, password);
 
       return {
-        user: data.user,
-        session: data.session,
+        user: await loadUser(auth, user),
+        session,
       };
     } catch (error: any) {
       return rejectWithValue(error.message);
@@ -63,10 +112,10 @@ export const loginUser = createAsyncThunk(
 
 export const logoutUser = createAsyncThunk(
   'auth/logout',
-  async (_, { rejectWithValue }) => {
+  async (_, { rejectWithValue, extra }) => {
     try {
-      const { error } = await supabase.auth.signOut();
-      if (error) throw error;
+      const { auth } = extra as Repositories;
+      await auth.signOut();
       return null;
     } catch (error: any) {
       return rejectWithValue(error.message);
@@ -76,13 +125,13 @@ export const logoutUser = createAsyncThunk(
 
 export const checkSession = createAsyncThunk(
   'auth/checkSession',
-  async (_, { rejectWithValue }) => {
+  async (_, { rejectWithValue, extra }) => {
     try {
-      const { data: { session }, error } = await supabase.auth.getSession();
-      if (error) throw error;
+      const { auth } = extra as Repositories;
+      const session = await auth.getSession();
 
       return {
-        user: session?.user || null,
+        user: await loadUser(auth, session?.user ?? null),
         session: session,
       };
     } catch (error: any) {
@@ -91,6 +140,211 @@ export const checkSession = createAsyncThunk(
   }
 );
 
+// Apply a Supabase auth event: token refreshes, sign-ins and sign-outs in
+// other tabs, account changes and sessions that expire
+export const syncAuthState = createAsyncThunk(
+  'auth/syncAuthState',
+  async (
+    { event, session }: { event: AuthChangeEvent; session: Session | null },
+    { rejectWithValue, getState, extra }
+  ) => {
+    try {
+      const { auth } = extra as Repositories;
+      const state = getState() as { auth: { user: { id: string } | null } };
+      // Supabase repeats SIGNED_IN e.g. when the tab regains focus; only load
+      // the user again when it is someone new or their account changed
+      const reload =
+        !!session && (event === 'USER_UPDATED' || state.auth.user?.id !== session.user.id);
+
+      return {
+        session,
+        user: reload ? await loadUser(auth, session.user) : undefined,
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Email a password reset link that opens /reset-password
+export const requestPasswordReset = createAsyncThunk(
+  'auth/requestPasswordReset',
+  async (email: string, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      await auth.sendPasswordReset(email, redirectUrl('/reset-password'));
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// The session Supabase created from the token or code in the current URL,
+// after following a link from an email or coming back from an OAuth provider
+const sessionFromUrl = async (auth: AuthRepository, missingMessage: string) => {
+  // Expired or reused links and refused logins come back with an error instead
+  const query = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.substring(1));
+  const linkError = query.get('error_description') ?? hash.get('error_description');
+  if (linkError) throw new Error(linkError);
+
+  const session = await auth.getSession();
+  if (!session) throw new Error(missingMessage);
+
+  return {
+    user: await loadUser(auth, session.user),
+    session,
+  };
+};
+
+// Reset links carry type=recovery; with the PKCE flow Supabase reports a
+// PASSWORD_RECOVERY event instead, and it may clear the URL first
+const isRecoveryUrl = () => {
+  const query = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.substring(1));
+  return query.get('type') === 'recovery' || hash.get('type') === 'recovery';
+};
+
+// Pick up the session from the recovery link on /reset-password. Any other
+// session doesn't count: it would allow a new password without the current one.
+export const recoverSession = createAsyncThunk(
+  'auth/recoverSession',
+  async (_, { rejectWithValue, getState, extra }) => {
+    const invalidLink = 'This reset link is invalid or has expired.';
+    try {
+      const fromLink = isRecoveryUrl();
+      const recovered = await sessionFromUrl((extra as Repositories).auth, invalidLink);
+      const state = getState() as { auth: { passwordRecovery: boolean } };
+      if (!fromLink && !state.auth.passwordRecovery) throw new Error(invalidLink);
+      return recovered;
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Passwordless sign-in: email a one-time link back to the app
+export const sendMagicLink = createAsyncThunk(
+  'auth/sendMagicLink',
+  async (email: string, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      // Accounts are only created through Register
+      await auth.sendMagicLink(email, redirectUrl('/blogs'));
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Supabase emails a confirmation link; the address changes once it is followed
+export const changeEmail = createAsyncThunk(
+  'auth/changeEmail',
+  async (email: string, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      await auth.updateEmail(email, redirectUrl('/account'));
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Set a new password. From account settings the current password is checked
+// first; after a recovery link there is none to check.
+export const updatePassword = createAsyncThunk(
+  'auth/updatePassword',
+  async (
+    { password, currentPassword }: { password: string; currentPassword?: string },
+    { rejectWithValue, getState, extra }
+  ) => {
+    try {
+      const { auth } = extra as Repositories;
+      if (currentPassword !== undefined) {
+        const state = getState() as { auth: { user: { email: string } | null } };
+        const email = state.auth.user?.email;
+        if (!email) throw new Error('User not authenticated');
+
+        try {
+          await auth.signIn(email, currentPassword);
+        } catch {
+          throw new Error('Current password is incorrect');
+        }
+      }
+
+      await auth.updatePassword(password);
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Redirect to the provider's login page; it sends the user back to /auth/callback
+export const signInWithProvider = createAsyncThunk(
+  'auth/signInWithProvider',
+  async ({ provider, next }: { provider: OAuthProvider; next?: string }, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      await auth.signInWithProvider(provider, oauthCallbackUrl(next));
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Finish an OAuth sign-in (or identity link) on /auth/callback
+export const completeOAuthSignIn = createAsyncThunk(
+  'auth/completeOAuthSignIn',
+  async (_, { rejectWithValue, extra }) => {
+    try {
+      return await sessionFromUrl((extra as Repositories).auth, 'Sign-in was not completed. Please try again.');
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Sign-in methods attached to the current account (email, GitHub, ...)
+export const fetchIdentities = createAsyncThunk(
+  'auth/fetchIdentities',
+  async (_, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      return await auth.identities();
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Connect a provider to the signed-in account, so either can be used to log in.
+// Accounts with the same verified email are linked by Supabase automatically.
+export const linkIdentity = createAsyncThunk(
+  'auth/linkIdentity',
+  async (provider: OAuthProvider, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      await auth.linkIdentity(provider, oauthCallbackUrl('/account'));
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Disconnect a provider; Supabase refuses to remove the last way to log in
+export const unlinkIdentity = createAsyncThunk(
+  'auth/unlinkIdentity',
+  async (identity: UserIdentity, { rejectWithValue, extra }) => {
+    try {
+      const { auth } = extra as Repositories;
+      await auth.unlinkIdentity(identity);
+      return identity.identity_id;
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
 const authSlice = createSlice({
   name: 'auth',
   initialState,
@@ -98,6 +352,14 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    // The user has been sent to log in again after their session expired
+    clearSessionExpired: (state) => {
+      state.sessionExpired = false;
+    },
+    // Forget a flow's result, e.g. when its form is opened again
+    resetAuthRequest: (state, action: PayloadAction<AuthRequest>) => {
+      state[action.payload] = idleRequest;
+    },
   },
   extraReducers: (builder) => {
     // Register
@@ -108,7 +370,7 @@ const authSlice = createSlice({
       })
       .addCase(registerUser.fulfilled, (state, action) => {
         state.loading = false;
-        state.user = action.payload.user as unknown as User;
+        state.user = action.payload.user;
         state.session = action.payload.session;
         state.isAuthenticated = !!action.payload.session;
       })
@@ -125,7 +387,8 @@ const authSlice = createSlice({
       })
       .addCase(loginUser.fulfilled, (state, action) => {
         state.loading = false;
-        state.user = action.payload.user as unknown as User;
+        state.sessionExpired = false;
+        state.user = action.payload.user;
         state.session = action.payload.session;
         state.isAuthenticated = !!action.payload.session;
       })
@@ -138,27 +401,198 @@ const authSlice = createSlice({
     builder
       .addCase(logoutUser.pending, (state) => {
         state.loading = true;
+        state.signingOut = true;
       })
       .addCase(logoutUser.fulfilled, (state) => {
         state.loading = false;
+        state.signingOut = false;
         state.user = null;
         state.session = null;
         state.isAuthenticated = false;
+        state.identities = [];
+        state.passwordRecovery = false;
       })
       .addCase(logoutUser.rejected, (state, action) => {
         state.loading = false;
+        state.signingOut = false;
         state.error = action.payload as string;
       });
 
     // Check Session
     builder
       .addCase(checkSession.fulfilled, (state, action) => {
-        state.user = action.payload.user as unknown as User;
+        state.initialized = true;
+        state.user = action.payload.user;
         state.session = action.payload.session;
         state.isAuthenticated = !!action.payload.session;
+      })
+      .addCase(checkSession.rejected, (state) => {
+        state.initialized = true;
+      });
+
+    // Auth events
+    builder
+      .addCase(syncAuthState.pending, (state, action) => {
+        if (action.meta.arg.event === 'PASSWORD_RECOVERY') {
+          state.passwordRecovery = true;
+        }
+      })
+      .addCase(syncAuthState.fulfilled, (state, action) => {
+        const { session, user } = action.payload;
+        if (!session) {
+          // Not from our own logout: the session ended under the user
+          if (state.isAuthenticated && !state.signingOut) {
+            state.sessionExpired = true;
+          }
+          state.user = null;
+          state.session = null;
+          state.isAuthenticated = false;
+          state.identities = [];
+          state.passwordRecovery = false;
+          return;
+        }
+        state.session = session;
+        state.isAuthenticated = true;
+        state.sessionExpired = false;
+        if (user) {
+          state.user = user;
+        }
+      })
+      .addCase(syncAuthState.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Password reset email
+    builder
+      .addCase(requestPasswordReset.pending, (state) => {
+        state.passwordReset = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(requestPasswordReset.fulfilled, (state) => {
+        state.passwordReset = { pending: false, error: null, succeeded: true };
+      })
+      .addCase(requestPasswordReset.rejected, (state, action) => {
+        state.passwordReset = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // Recovery link
+    builder
+      .addCase(recoverSession.pending, (state) => {
+        state.recovery = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(recoverSession.fulfilled, (state, action) => {
+        state.recovery = { pending: false, error: null, succeeded: true };
+        state.user = action.payload.user;
+        state.session = action.payload.session;
+        state.isAuthenticated = true;
+      })
+      .addCase(recoverSession.rejected, (state, action) => {
+        state.recovery = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // Magic link
+    builder
+      .addCase(sendMagicLink.pending, (state) => {
+        state.magicLink = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(sendMagicLink.fulfilled, (state) => {
+        state.magicLink = { pending: false, error: null, succeeded: true };
+      })
+      .addCase(sendMagicLink.rejected, (state, action) => {
+        state.magicLink = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // Email change
+    builder
+      .addCase(changeEmail.pending, (state) => {
+        state.emailChange = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(changeEmail.fulfilled, (state) => {
+        state.emailChange = { pending: false, error: null, succeeded: true };
+      })
+      .addCase(changeEmail.rejected, (state, action) => {
+        state.emailChange = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // Password update
+    builder
+      .addCase(updatePassword.pending, (state) => {
+        state.passwordUpdate = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(updatePassword.fulfilled, (state) => {
+        state.passwordUpdate = { pending: false, error: null, succeeded: true };
+        state.passwordRecovery = false; // the reset link is used up
+      })
+      .addCase(updatePassword.rejected, (state, action) => {
+        state.passwordUpdate = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // OAuth sign-in: the redirect to the provider...
+    builder
+      .addCase(signInWithProvider.pending, (state) => {
+        state.oauth = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(signInWithProvider.rejected, (state, action) => {
+        state.oauth = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // ...and the way back
+    builder
+      .addCase(completeOAuthSignIn.pending, (state) => {
+        state.oauth = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(completeOAuthSignIn.fulfilled, (state, action) => {
+        state.oauth = { pending: false, error: null, succeeded: true };
+        state.user = action.payload.user;
+        state.session = action.payload.session;
+        state.isAuthenticated = true;
+      })
+      .addCase(completeOAuthSignIn.rejected, (state, action) => {
+        state.oauth = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // Identities
+    builder
+      .addCase(fetchIdentities.fulfilled, (state, action) => {
+        state.identities = action.payload;
+      })
+      .addCase(fetchIdentities.rejected, (state, action) => {
+        state.identityLink = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    builder
+      .addCase(linkIdentity.pending, (state) => {
+        state.identityLink = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(linkIdentity.rejected, (state, action) => {
+        state.identityLink = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    builder
+      .addCase(unlinkIdentity.pending, (state) => {
+        state.identityLink = { pending: true, error: null, succeeded: false };
+      })
+      .addCase(unlinkIdentity.fulfilled, (state, action) => {
+        state.identityLink = { pending: false, error: null, succeeded: true };
+        state.identities = state.identities.filter((identity) => identity.identity_id !== action.payload);
+      })
+      .addCase(unlinkIdentity.rejected, (state, action) => {
+        state.identityLink = { pending: false, error: action.payload as string, succeeded: false };
+      });
+
+    // Keep the current user's profile in sync with edits from the settings page
+    builder
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        if (state.user?.id === action.payload.id) {
+          state.user.profile = action.payload;
+        }
       });
   },
 });
 
-export const { clearError } = authSlice.actions;
+export const { clearError, clearSessionExpired, resetAuthRequest } = authSlice.actions;
+
+// Follow auth events for as long as the app runs; returns a function that stops listening
+export const watchAuthState = (): ThunkAction<() => void, unknown, unknown, UnknownAction> =>
+  (dispatch, _getState, extra) =>
+    (extra as Repositories).auth.onAuthStateChange((event, session) => dispatch(syncAuthState({ event, session })));
 export default authSlice.reducer;
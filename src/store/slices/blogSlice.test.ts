@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import blogReducer, { blogPublished, clearNewBlogs, fetchTags, watchNewBlogs } from './blogSlice';
+import { blogApi } from '../api/blogApi';
+import { Blog } from '../../lib/supabase';
+import { BlogInput } from '../../lib/repositories/types';
+import { setupStore } from '../../test/utils';
+import { AUTHOR, publishedBlogs, testSeed } from '../../test/fixtures';
+
+const failure = new Error('Network request failed');
+
+const liveBlog = (title: string): BlogInput => ({
+  title,
+  content: '',
+  gallery: [],
+  user_id: AUTHOR.id,
+  status: 'published',
+  publish_at: new Date().toISOString(),
+});
+
+describe('blogSlice', () => {
+  describe('fetchTags', () => {
+    it('loads tags with their post counts', async () => {
+      const [first, second] = publishedBlogs(2);
+      const seed = testSeed({ blogs: [{ ...first, tags: ['React'] }, { ...second, tags: ['React', 'Redux'] }] });
+      const { store } = await setupStore({ seed });
+      await store.dispatch(fetchTags());
+
+      expect(store.getState().blogs.tags.map(({ name, post_count }) => [name, post_count])).toEqual([
+        ['React', 2],
+        ['Redux', 1],
+      ]);
+    });
+
+    it('keeps the catalogue when loading fails', async () => {
+      const { store, repositories } = await setupStore();
+      vi.spyOn(repositories.blogs, 'listTags').mockRejectedValue(failure);
+      const result = await store.dispatch(fetchTags());
+
+      expect(result.payload).toBe(failure.message);
+      expect(store.getState().blogs.tags).toEqual([]);
+    });
+  });
+
+  describe('watchNewBlogs', () => {
+    it('collects posts that go live elsewhere', async () => {
+      const { store, repositories } = await setupStore();
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate({ page: 1, limit: 5 }));
+      const stop = store.dispatch(watchNewBlogs());
+
+      await repositories.auth.signIn(AUTHOR.email, AUTHOR.password);
+      const blog = await repositories.blogs.create(liveBlog('Breaking'), []);
+      await vi.waitFor(() => expect(store.getState().blogs.newBlogIds).toEqual([blog.id]));
+      stop();
+    });
+
+    it("doesn't count our own post as new when its realtime event came first", async () => {
+      const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+      const stop = store.dispatch(watchNewBlogs());
+      // Let the realtime event arrive before the saved post comes back
+      const create = repositories.blogs.create;
+      vi.spyOn(repositories.blogs, 'create').mockImplementation(async (...args) => {
+        const blog = await create(...args);
+        await vi.waitFor(() => expect(store.getState().blogs.newBlogIds).toEqual([blog.id]));
+        return blog;
+      });
+      await store.dispatch(blogApi.endpoints.createBlog.initiate({ title: 'Mine', content: '' }));
+
+      expect(store.getState().blogs.newBlogIds).toEqual([]);
+      stop();
+    });
+
+    it('forgets the new posts once the latest posts are loaded', async () => {
+      const { store } = await setupStore();
+      store.dispatch(blogPublished({ id: 'fresh' } as Blog));
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate({ page: 1, limit: 5, sort: 'newest' }));
+
+      expect(store.getState().blogs.newBlogIds).toEqual([]);
+    });
+
+    it('keeps the new posts when another list is loaded', async () => {
+      const { store } = await setupStore();
+      store.dispatch(blogPublished({ id: 'fresh' } as Blog));
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate({ page: 1, limit: 5, userId: AUTHOR.id }));
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate({ page: 2, limit: 5 }));
+      await store.dispatch(blogApi.endpoints.getBlogs.initiate({ page: 1, limit: 5, sort: 'oldest' }));
+
+      expect(store.getState().blogs.newBlogIds).toEqual(['fresh']);
+    });
+  });
+
+  describe('reducers', () => {
+    const state = blogReducer(undefined, { type: 'init' });
+
+    it('records each newly published post once', () => {
+      let next = blogReducer(state, blogPublished({ id: 'a' } as Blog));
+      next = blogReducer(next, blogPublished({ id: 'a' } as Blog));
+
+      expect(next.newBlogIds).toEqual(['a']);
+    });
+
+    it('clears new posts', () => {
+      expect(blogReducer({ ...state, newBlogIds: ['a'] }, clearNewBlogs()).newBlogIds).toEqual([]);
+    });
+  });
+});
@@ -1,157 +1,33 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { supabase, Blog } from '../../lib/supabase';
+import { createSlice, createAsyncThunk, PayloadAction, ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { Blog, TagWithCount } from '../../lib/supabase';
+import { Repositories } from '../../lib/repositories/types';
+import { blogApi, BlogListQuery } from '../api/blogApi';
 
+// Posts themselves are cached by blogApi
 interface BlogState {
-  blogs: Blog[];
-  currentBlog: Blog | null;
-  pagination: {
-    page: number; // Current page (dispatch updates it)
-    limit: number; // Records per page (5)
-    total: number; // Server says "there are 47 total blogs"
-  };
-  loading: boolean;
-  error: string | null;
+  tags: TagWithCount[]; // tag catalogue, most used first
+  newBlogIds: string[]; // went live since the list was loaded, not shown yet
 }
 
 const initialState: BlogState = {
-  blogs: [],
-  currentBlog: null,
-  pagination: {
-    page: 1,
-    limit: 5,
-    total: 0,
-  },
-  loading: false,
-  error: null,
+  tags: [],
+  newBlogIds: [],
 };
 
-// Fetch blogs with pagination
-export const fetchBlogs = createAsyncThunk(
-  'blogs/fetchBlogs',
-  async ({ page, limit }: { page: number; limit: number }, { rejectWithValue }) => {
-    try {
-      const from = (page - 1) * limit;
-      const to = from + limit - 1;
-
-      // Get total count
-      const { count } = await supabase
-        .from('blogs')
-        .select('*', { count: 'exact', head: true });
-
-      // Get paginated blogs
-      const { data, error } = await supabase
-        .from('blogs')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .range(from, to);
-
-      if (error) throw error;
-
-      return {
-        blogs: data || [],
-        total: count || 0,
-      };
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-// Fetch single blog
-export const fetchBlogById = createAsyncThunk(
-  'blogs/fetchBlogById',
-  async (id: string, { rejectWithValue }) => {
-    try {
-      const { data, error } = await supabase
-        .from('blogs')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
-      return data;
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-// Create blog
-export const createBlog = createAsyncThunk(
-  'blogs/createBlog',
-  async (
-    { title, content, imageUrl }: { title: string; content: string; imageUrl: string | null },
-    { rejectWithValue, getState }
-  ) => {
-    try {
-      const state = getState() as { auth: { user: { id: string } | null } };
-      const userId = state.auth.user?.id;
-
-      if (!userId) {
-        throw new Error('User not authenticated');
-      }
-
-      const { data, error } = await supabase
-        .from('blogs')
-        .insert([
-          {
-            title,
-            content,
-            image_url: imageUrl,
-            user_id: userId,
-          },
-        ])
-        .select()
-        .single();
+// Posts per page in the blog lists
+export const BLOGS_PER_PAGE = 5;
 
-      if (error) throw error;
-      return data;
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
+// The first page of all posts, newest first: where new posts show up
+const isLatestPosts = ({ page, search, tag, userId, from, to, statuses, sort = 'newest' }: BlogListQuery) =>
+  page === 1 && !search && !tag && !userId && !from && !to && !statuses && sort === 'newest';
 
-// Update blog
-export const updateBlog = createAsyncThunk(
-  'blogs/updateBlog',
-  async (
-    { id, title, content, imageUrl }: { id: string; title: string; content: string; imageUrl: string | null },
-    { rejectWithValue }
-  ) => {
+// Fetch the tag catalogue with per-tag post counts
+export const fetchTags = createAsyncThunk(
+  'blogs/fetchTags',
+  async (_, { rejectWithValue, extra }) => {
     try {
-      const { data, error } = await supabase
-        .from('blogs')
-        .update({
-          title,
-          content,
-          image_url: imageUrl,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-// Delete blog
-export const deleteBlog = createAsyncThunk(
-  'blogs/deleteBlog',
-  async (id: string, { rejectWithValue }) => {
-    try {
-      const { error } = await supabase
-        .from('blogs')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-      return id;
+      const { blogs } = extra as Repositories;
+      return await blogs.listTags();
     } catch (error: any) {
       return rejectWithValue(error.message);
     }
@@ -162,105 +38,41 @@ const blogSlice = createSlice({
   name: 'blogs',
   initialState,
   reducers: {
-    setPage: (state, action: PayloadAction<number>) => {
-      state.pagination.page = action.payload;
-    },
-    clearCurrentBlog: (state) => {
-      state.currentBlog = null;
+    // A post went live while the list was open (realtime)
+    blogPublished: (state, action: PayloadAction<Blog>) => {
+      const { id } = action.payload;
+      if (!state.newBlogIds.includes(id)) {
+        state.newBlogIds.push(id);
+      }
     },
-    clearError: (state) => {
-      state.error = null;
+    clearNewBlogs: (state) => {
+      state.newBlogIds = [];
     },
   },
   extraReducers: (builder) => {
-    // Fetch blogs
-    builder
-      .addCase(fetchBlogs.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(fetchBlogs.fulfilled, (state, action) => {
-        state.loading = false;
-        state.blogs = action.payload.blogs;
-        state.pagination.total = action.payload.total;
-      })
-      .addCase(fetchBlogs.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Fetch blog by ID
-    builder
-      .addCase(fetchBlogById.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(fetchBlogById.fulfilled, (state, action) => {
-        state.loading = false;
-        state.currentBlog = action.payload;
-      })
-      .addCase(fetchBlogById.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Create blog
-    builder
-      .addCase(createBlog.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(createBlog.fulfilled, (state, action) => {
-        state.loading = false;
-        state.blogs.unshift(action.payload);
-        state.pagination.total += 1;
-      })
-      .addCase(createBlog.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Update blog
-    builder
-      .addCase(updateBlog.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(updateBlog.fulfilled, (state, action) => {
-        state.loading = false;
-        const index = state.blogs.findIndex((blog) => blog.id === action.payload.id);
-        if (index !== -1) {
-          state.blogs[index] = action.payload;
-        }
-        if (state.currentBlog?.id === action.payload.id) {
-          state.currentBlog = action.payload;
-        }
-      })
-      .addCase(updateBlog.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Delete blog
-    builder
-      .addCase(deleteBlog.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(deleteBlog.fulfilled, (state, action) => {
-        state.loading = false;
-        state.blogs = state.blogs.filter((blog) => blog.id !== action.payload);
-        state.pagination.total -= 1;
-        if (state.currentBlog?.id === action.payload) {
-          state.currentBlog = null;
-        }
-      })
-      .addCase(deleteBlog.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
+    // Fetch tags
+    builder.addCase(fetchTags.fulfilled, (state, action) => {
+      state.tags = action.payload;
+    });
+
+    // A freshly loaded list of the latest posts has the new ones; other lists,
+    // like an author's posts or page 2, don't
+    builder.addMatcher(blogApi.endpoints.getBlogs.matchFulfilled, (state, action) => {
+      if (isLatestPosts(action.meta.arg.originalArgs)) state.newBlogIds = [];
+    });
+
+    // Our own post is not news, even if its realtime event came first
+    builder.addMatcher(blogApi.endpoints.createBlog.matchFulfilled, (state, action) => {
+      state.newBlogIds = state.newBlogIds.filter((id) => id !== action.payload.id);
+    });
   },
 });
 
-export const { setPage, clearCurrentBlog, clearError } = blogSlice.actions;
+export const { blogPublished, clearNewBlogs } = blogSlice.actions;
+
+// Put posts that go live while the list is open into newBlogIds; returns a function that stops listening
+export const watchNewBlogs = (): ThunkAction<() => void, unknown, unknown, UnknownAction> =>
+  (dispatch, _getState, extra) =>
+    (extra as Repositories).blogs.subscribeToNewBlogs((blog) => dispatch(blogPublished(blog)));
+
 export default blogSlice.reducer;
@@ -1,194 +0,0 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { supabase, Comment } from '../../lib/supabase';
-
-interface CommentState {
-  comments: Comment[];
-  loading: boolean;
-  error: string | null;
-}
-
-const initialState: CommentState = {
-  comments: [],
-  loading: false,
-  error: null,
-};
-
-// Fetch comments for a blog
-export const fetchComments = createAsyncThunk(
-  'comments/fetchComments',
-  async (blogId: string, { rejectWithValue }) => {
-    try {
-      const { data, error } = await supabase
-        .from('comments')
-        .select('*')
-        .eq('blog_id', blogId)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      return data || [];
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-// Create comment
-export const createComment = createAsyncThunk(
-  'comments/createComment',
-  async (
-    { blogId, content, fileUrl }: { blogId: string; content: string; fileUrl: string | null },
-    { rejectWithValue, getState }
-  ) => {
-    try {
-      const state = getState() as { auth: { user: { id: string } | null } };
-      const userId = state.auth.user?.id;
-
-      if (!userId) {
-        throw new Error('User not authenticated');
-      }
-
-      const { data, error } = await supabase
-        .from('comments')
-        .insert([
-          {
-            blog_id: blogId,
-            user_id: userId,
-            content,
-            file_url: fileUrl,
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-// Update comment
-export const updateComment = createAsyncThunk(
-  'comments/updateComment',
-  async (
-    { id, content, fileUrl }: { id: string; content: string; fileUrl: string | null },
-    { rejectWithValue }
-  ) => {
-    try {
-      const { data, error } = await supabase
-        .from('comments')
-        .update({
-          content,
-          file_url: fileUrl,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-// Delete comment
-export const deleteComment = createAsyncThunk(
-  'comments/deleteComment',
-  async (id: string, { rejectWithValue }) => {
-    try {
-      const { error } = await supabase
-        .from('comments')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-      return id;
-    } catch (error: any) {
-      return rejectWithValue(error.message);
-    }
-  }
-);
-
-const commentSlice = createSlice({
-  name: 'comments',
-  initialState,
-  reducers: {
-    clearComments: (state) => {
-      state.comments = [];
-    },
-    clearError: (state) => {
-      state.error = null;
-    },
-  },
-  extraReducers: (builder) => {
-    // Fetch comments
-    builder
-      .addCase(fetchComments.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(fetchComments.fulfilled, (state, action) => {
-        state.loading = false;
-        state.comments = action.payload;
-      })
-      .addCase(fetchComments.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Create comment
-    builder
-      .addCase(createComment.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(createComment.fulfilled, (state, action) => {
-        state.loading = false;
-        state.comments.unshift(action.payload);
-      })
-      .addCase(createComment.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Update comment
-    builder
-      .addCase(updateComment.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(updateComment.fulfilled, (state, action) => {
-        state.loading = false;
-        const index = state.comments.findIndex((comment) => comment.id === action.payload.id);
-        if (index !== -1) {
-          state.comments[index] = action.payload;
-        }
-      })
-      .addCase(updateComment.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-
-    // Delete comment
-    builder
-      .addCase(deleteComment.pending, (state) => {
-        state.loading = true;
-        state.error = null;
-      })
-      .addCase(deleteComment.fulfilled, (state, action) => {
-        state.loading = false;
-        state.comments = state.comments.filter((comment) => comment.id !== action.payload);
-      })
-      .addCase(deleteComment.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.payload as string;
-      });
-  },
-});
-
-export const { clearComments, clearError } = commentSlice.actions;
-export default commentSlice.reducer;
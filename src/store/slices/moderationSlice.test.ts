@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fetchHeldComments,
+  fetchModerationLog,
+  fetchReports,
+  moderateHeldComment,
+  moderateReport,
+  reportContent,
+} from './moderationSlice';
+import { loginUser } from './authSlice';
+import { setupStore } from '../../test/utils';
+import { MODERATOR, READER, testSeed } from '../../test/fixtures';
+
+const seed = testSeed({
+  comments: [
+    { id: 'comment-1', blog_id: 'blog-1', user_id: READER.id, content: 'Rude' },
+    {
+      id: 'comment-2',
+      blog_id: 'blog-1',
+      user_id: READER.id,
+      content: 'Held',
+      hidden_at: new Date().toISOString(),
+      held_reason: 'Comments can contain at most 2 links.',
+    },
+  ],
+});
+
+describe('moderationSlice', () => {
+  it('puts reports in the queue and settles them with the decision', async () => {
+    const { store } = await setupStore({ seed, signedInAs: READER.id });
+    await store.dispatch(reportContent({ blogId: 'blog-1', commentId: 'comment-1', reason: 'Rude' }));
+    await store.dispatch(reportContent({ blogId: 'blog-1', commentId: 'comment-1', reason: 'Offensive' }));
+    await store.dispatch(loginUser(MODERATOR));
+
+    await store.dispatch(fetchReports());
+    const [report] = store.getState().moderation.reports;
+    expect(store.getState().moderation.reports).toHaveLength(2);
+    expect(report.comment).toMatchObject({ id: 'comment-1', content: 'Rude' });
+
+    await store.dispatch(moderateReport({ report, decision: 'hide' }));
+    expect(store.getState().moderation.reports).toEqual([]);
+    await store.dispatch(fetchReports());
+    await store.dispatch(fetchModerationLog());
+    expect(store.getState().moderation.reports).toEqual([]);
+    expect(store.getState().moderation.log).toEqual([
+      expect.objectContaining({ moderator_id: MODERATOR.id, comment_id: 'comment-1', action: 'hide', reason: 'Rude' }),
+    ]);
+  });
+
+  it('approves held comments', async () => {
+    const { store } = await setupStore({ seed, signedInAs: MODERATOR.id });
+    await store.dispatch(fetchHeldComments());
+    expect(store.getState().moderation.heldComments).toEqual([
+      expect.objectContaining({ id: 'comment-2', blog: { id: 'blog-1', title: 'Post 1' } }),
+    ]);
+
+    await store.dispatch(moderateHeldComment({ id: 'comment-2', decision: 'approve' }));
+    await store.dispatch(fetchHeldComments());
+    expect(store.getState().moderation.heldComments).toEqual([]);
+  });
+
+  it('keeps the queue and the audit trail from other users', async () => {
+    const { store } = await setupStore({ seed, signedInAs: READER.id });
+    await store.dispatch(reportContent({ blogId: 'blog-1', reason: 'Spam' }));
+    await store.dispatch(fetchReports());
+    await store.dispatch(fetchModerationLog());
+    const result = await store.dispatch(moderateHeldComment({ id: 'comment-2', decision: 'approve' }));
+
+    expect(store.getState().moderation.reports).toEqual([]);
+    expect(store.getState().moderation.log).toEqual([]);
+    expect(result.payload).toBe('Only moderators can review held comments');
+  });
+});
@@ -0,0 +1,242 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { ModerationAction, ModerationDecision, HeldCommentDecision } from '../../lib/supabase';
+import { HeldComment, Repositories, ReportWithContent } from '../../lib/repositories/types';
+import { api } from '../api/baseApi';
+
+interface ModerationState {
+  reports: ReportWithContent[]; // open reports, oldest first
+  heldComments: HeldComment[]; // oldest first
+  log: ModerationAction[]; // audit trail, newest first
+  resolving: Record<string, boolean>; // by report or held comment id
+  reporting: boolean;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: ModerationState = {
+  reports: [],
+  heldComments: [],
+  log: [],
+  resolving: {},
+  reporting: false,
+  loading: false,
+  error: null,
+};
+
+const LOG_LIMIT = 50;
+
+// Report a post, or one of its comments
+export const reportContent = createAsyncThunk(
+  'moderation/reportContent',
+  async (
+    { blogId, commentId = null, reason }: { blogId: string; commentId?: string | null; reason: string },
+    { rejectWithValue, getState, extra }
+  ) => {
+    try {
+      const { moderation } = extra as Repositories;
+      const state = getState() as { auth: { user: { id: string } | null } };
+      const userId = state.auth.user?.id;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      await moderation.report({ reporter_id: userId, blog_id: blogId, comment_id: commentId, reason });
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Fetch the moderation queue
+export const fetchReports = createAsyncThunk(
+  'moderation/fetchReports',
+  async (_, { rejectWithValue, extra }) => {
+    try {
+      const { moderation } = extra as Repositories;
+      return await moderation.openReports();
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Fetch comments waiting for approval
+export const fetchHeldComments = createAsyncThunk(
+  'moderation/fetchHeldComments',
+  async (_, { rejectWithValue, extra }) => {
+    try {
+      const { moderation } = extra as Repositories;
+      return await moderation.heldComments();
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Fetch the latest moderation decisions
+export const fetchModerationLog = createAsyncThunk(
+  'moderation/fetchModerationLog',
+  async (_, { rejectWithValue, extra }) => {
+    try {
+      const { moderation } = extra as Repositories;
+      return await moderation.log(LOG_LIMIT);
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Hide or delete the reported content, or dismiss the report. This also
+// closes the report and writes the audit entry.
+export const moderateReport = createAsyncThunk(
+  'moderation/moderateReport',
+  async (
+    { report, decision }: { report: ReportWithContent; decision: ModerationDecision },
+    { rejectWithValue, dispatch, extra }
+  ) => {
+    try {
+      const { moderation } = extra as Repositories;
+      await moderation.moderateReport(report.id, decision);
+
+      dispatch(fetchModerationLog());
+      // Cached copies of hidden or deleted content are refetched
+      if (decision !== 'dismiss') {
+        dispatch(
+          api.util.invalidateTags(
+            report.comment_id
+              ? [{ type: 'Comment', id: report.blog_id }]
+              : [
+                  { type: 'Blog', id: report.blog_id },
+                  { type: 'Blog', id: 'LIST' },
+                ]
+          )
+        );
+      }
+      return { report, decision };
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Approve (publish) or delete a held comment; also recorded in the audit trail
+export const moderateHeldComment = createAsyncThunk(
+  'moderation/moderateHeldComment',
+  async (
+    { id, decision }: { id: string; decision: HeldCommentDecision },
+    { rejectWithValue, dispatch, getState, extra }
+  ) => {
+    try {
+      const { moderation } = extra as Repositories;
+      await moderation.moderateHeldComment(id, decision);
+
+      dispatch(fetchModerationLog());
+      const state = getState() as { moderation: ModerationState };
+      const held = state.moderation.heldComments.find((comment) => comment.id === id);
+      if (held) {
+        dispatch(api.util.invalidateTags([{ type: 'Comment', id: held.blog_id }]));
+      }
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+const moderationSlice = createSlice({
+  name: 'moderation',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Report content
+    builder
+      .addCase(reportContent.pending, (state) => {
+        state.reporting = true;
+        state.error = null;
+      })
+      .addCase(reportContent.fulfilled, (state) => {
+        state.reporting = false;
+      })
+      .addCase(reportContent.rejected, (state, action) => {
+        state.reporting = false;
+        state.error = action.payload as string;
+      });
+
+    // Fetch reports
+    builder
+      .addCase(fetchReports.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchReports.fulfilled, (state, action) => {
+        state.loading = false;
+        state.reports = action.payload;
+      })
+      .addCase(fetchReports.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Fetch held comments
+    builder
+      .addCase(fetchHeldComments.fulfilled, (state, action) => {
+        state.heldComments = action.payload;
+      })
+      .addCase(fetchHeldComments.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Fetch moderation log
+    builder
+      .addCase(fetchModerationLog.fulfilled, (state, action) => {
+        state.log = action.payload;
+      })
+      .addCase(fetchModerationLog.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Moderate report
+    builder
+      .addCase(moderateReport.pending, (state, action) => {
+        state.resolving[action.meta.arg.report.id] = true;
+        state.error = null;
+      })
+      .addCase(moderateReport.fulfilled, (state, action) => {
+        const { report, decision } = action.payload;
+        delete state.resolving[report.id];
+        // Hiding or deleting settles every report on the same content
+        state.reports = state.reports.filter(
+          (r) =>
+            r.id !== report.id &&
+            (decision === 'dismiss' || r.blog_id !== report.blog_id || r.comment_id !== report.comment_id)
+        );
+      })
+      .addCase(moderateReport.rejected, (state, action) => {
+        delete state.resolving[action.meta.arg.report.id];
+        state.error = action.payload as string;
+      });
+
+    // Moderate held comment
+    builder
+      .addCase(moderateHeldComment.pending, (state, action) => {
+        state.resolving[action.meta.arg.id] = true;
+        state.error = null;
+      })
+      .addCase(moderateHeldComment.fulfilled, (state, action) => {
+        delete state.resolving[action.payload];
+        state.heldComments = state.heldComments.filter((comment) => comment.id !== action.payload);
+      })
+      .addCase(moderateHeldComment.rejected, (state, action) => {
+        delete state.resolving[action.meta.arg.id];
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearError } = moderationSlice.actions;
+export default moderationSlice.reducer;
@@ -0,0 +1,162 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Profile } from '../../lib/supabase';
+import { uploadImage, deleteUploads, AVATAR_UPLOAD_OPTIONS } from '../../lib/imageUpload';
+import { ProfileChanges, Repositories } from '../../lib/repositories/types';
+
+interface ProfileState {
+  byId: Record<string, Profile | null>; // null: looked up, user has no profile row
+  pending: Record<string, string>; // profile id -> id of the request fetching it
+  authorIds: string[]; // everyone with a profile, for author pickers
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: ProfileState = {
+  byId: {},
+  pending: {},
+  authorIds: [],
+  saving: false,
+  error: null,
+};
+
+// Fallback used wherever an author is shown without a display name
+export const displayName = (profile: Profile | null | undefined, userId: string) =>
+  profile?.display_name?.trim() || `User ${userId.substring(0, 8)}`;
+
+const missingIds = (state: ProfileState, ids: string[]) =>
+  [...new Set(ids)].filter((id) => !(id in state.byId) && !(id in state.pending));
+
+// Fetch the profiles of several authors at once, skipping ones already loaded
+export const fetchProfiles = createAsyncThunk(
+  'profiles/fetchProfiles',
+  async (ids: string[], { rejectWithValue, getState, requestId, extra }) => {
+    try {
+      const { profiles } = extra as Repositories;
+      // Only fetch the ids this request claimed in the pending reducer
+      const state = getState() as { profiles: ProfileState };
+      const toFetch = ids.filter((id) => state.profiles.pending[id] === requestId);
+
+      return { ids: toFetch, profiles: await profiles.list(toFetch) };
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  },
+  {
+    condition: (ids, { getState }) => {
+      const state = getState() as { profiles: ProfileState };
+      return missingIds(state.profiles, ids).length > 0;
+    },
+  }
+);
+
+// Fetch all profiles for the author filter, alphabetically
+export const fetchAuthors = createAsyncThunk(
+  'profiles/fetchAuthors',
+  async (_, { rejectWithValue, extra }) => {
+    try {
+      const { profiles } = extra as Repositories;
+      return await profiles.listAll(200);
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Update the current user's profile, uploading a new avatar first if one was picked
+export const updateProfile = createAsyncThunk(
+  'profiles/updateProfile',
+  async (
+    { displayName, bio, avatarFile }: { displayName: string; bio: string; avatarFile: File | null },
+    { rejectWithValue, getState, extra }
+  ) => {
+    try {
+      const { profiles, storage } = extra as Repositories;
+      const state = getState() as { auth: { user: { id: string } | null } };
+      const userId = state.auth.user?.id;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const changes: ProfileChanges = {
+        display_name: displayName.trim() || null,
+        bio: bio.trim() || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      // The old avatar is deleted once the new one is saved
+      let replacedPath: string | null = null;
+      if (avatarFile) {
+        replacedPath = await profiles.avatarPath(userId);
+
+        const avatar = await uploadImage(storage, avatarFile, `avatars/${userId}`, { options: AVATAR_UPLOAD_OPTIONS });
+        changes.avatar_url = avatar.url;
+        changes.avatar_path = avatar.path;
+      }
+
+      const profile = await profiles.save(userId, changes);
+      await deleteUploads(storage, [replacedPath]);
+      return profile;
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+const profileSlice = createSlice({
+  name: 'profiles',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch profiles
+    builder
+      .addCase(fetchProfiles.pending, (state, action) => {
+        missingIds(state, action.meta.arg).forEach((id) => {
+          state.pending[id] = action.meta.requestId;
+        });
+      })
+      .addCase(fetchProfiles.fulfilled, (state, action) => {
+        const { ids, profiles } = action.payload;
+        ids.forEach((id) => {
+          delete state.pending[id];
+          state.byId[id] = profiles.find((profile) => profile.id === id) ?? null;
+        });
+      })
+      .addCase(fetchProfiles.rejected, (state, action) => {
+        Object.keys(state.pending).forEach((id) => {
+          if (state.pending[id] === action.meta.requestId) delete state.pending[id];
+        });
+      });
+
+    // Fetch authors
+    builder
+      .addCase(fetchAuthors.fulfilled, (state, action) => {
+        state.authorIds = action.payload.map((profile) => profile.id);
+        action.payload.forEach((profile) => {
+          state.byId[profile.id] = profile;
+        });
+      });
+
+    // Update profile
+    builder
+      .addCase(updateProfile.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        state.saving = false;
+        state.byId[action.payload.id] = action.payload;
+      })
+      .addCase(updateProfile.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearError } = profileSlice.actions;
+export default profileSlice.reducer;
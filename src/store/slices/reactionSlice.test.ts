@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fetchReactions, selectMyReactions, selectReactionCounts, toggleReaction } from './reactionSlice';
+import { blogApi } from '../api/blogApi';
+import { setupStore } from '../../test/utils';
+import { AUTHOR, READER } from '../../test/fixtures';
+
+const failure = new Error('Network request failed');
+const post = { blogId: 'blog-1' };
+
+describe('reactionSlice', () => {
+  it("counts everyone's reactions and marks the current user's own", async () => {
+    const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+    await repositories.reactions.add(AUTHOR.id, post, 'love');
+    await repositories.auth.signIn(READER.email, READER.password);
+    await repositories.reactions.add(READER.id, post, 'like');
+    await repositories.auth.signIn(AUTHOR.email, AUTHOR.password);
+    await store.dispatch(fetchReactions('blog-1'));
+
+    expect(selectReactionCounts(store.getState(), post)).toEqual({ like: 1, love: 1 });
+    expect(selectMyReactions(store.getState(), post)).toEqual(['love']);
+  });
+
+  it("adds and removes a like, keeping the post's like count in step", async () => {
+    const { store } = await setupStore({ signedInAs: READER.id });
+    const likeCount = async () =>
+      (await store.dispatch(blogApi.endpoints.getBlog.initiate('blog-1', { forceRefetch: true }))).data?.like_count;
+
+    await store.dispatch(toggleReaction({ target: post, type: 'like' }));
+    expect(selectMyReactions(store.getState(), post)).toEqual(['like']);
+    expect(await likeCount()).toBe(1);
+
+    await store.dispatch(toggleReaction({ target: post, type: 'like' }));
+    expect(selectReactionCounts(store.getState(), post)).toEqual({ like: 0 });
+    expect(await likeCount()).toBe(0);
+  });
+
+  it('rolls the toggle back when saving it fails', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: READER.id });
+    vi.spyOn(repositories.reactions, 'add').mockRejectedValue(failure);
+    await store.dispatch(toggleReaction({ target: post, type: 'like' }));
+
+    expect(selectMyReactions(store.getState(), post)).toEqual([]);
+    expect(selectReactionCounts(store.getState(), post)).toEqual({ like: 0 });
+    expect(store.getState().reactions.error).toBe(failure.message);
+  });
+});
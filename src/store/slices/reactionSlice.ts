@@ -0,0 +1,162 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Reaction, ReactionType } from '../../lib/supabase';
+import { ReactionTarget, reactionTargetKey } from '../../lib/reactions';
+import { Repositories } from '../../lib/repositories/types';
+
+type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+interface ReactionState {
+  counts: Record<string, ReactionCounts>; // by target key
+  mine: Record<string, ReactionType[]>; // the current user's reactions, by target key
+  pending: Record<string, boolean>; // toggles in flight, by `${targetKey}:${type}`
+  error: string | null;
+}
+
+const initialState: ReactionState = {
+  counts: {},
+  mine: {},
+  pending: {},
+  error: null,
+};
+
+const pendingKey = (target: ReactionTarget, type: ReactionType) => `${reactionTargetKey(target)}:${type}`;
+
+// Flip the current user's reaction locally, adjusting the count to match
+const applyToggle = (state: ReactionState, target: ReactionTarget, type: ReactionType) => {
+  const key = reactionTargetKey(target);
+  const mine = state.mine[key] ?? [];
+  const counts = (state.counts[key] ??= {});
+  if (mine.includes(type)) {
+    state.mine[key] = mine.filter((t) => t !== type);
+    counts[type] = Math.max((counts[type] ?? 1) - 1, 0);
+  } else {
+    state.mine[key] = [...mine, type];
+    counts[type] = (counts[type] ?? 0) + 1;
+  }
+};
+
+// Fetch reaction counts for a blog and its comments, plus the current user's own reactions
+export const fetchReactions = createAsyncThunk(
+  'reactions/fetchReactions',
+  async (blogId: string, { rejectWithValue, getState, extra }) => {
+    try {
+      const { reactions } = extra as Repositories;
+      const state = getState() as { auth: { user: { id: string } | null } };
+      const userId = state.auth.user?.id;
+
+      const counts = await reactions.counts(blogId);
+      const mine: Reaction[] = userId ? await reactions.listByUser(blogId, userId) : [];
+
+      return { counts, mine };
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Add or remove one of the current user's reactions. The change is applied
+// as soon as the request starts and rolled back if the write fails.
+export const toggleReaction = createAsyncThunk(
+  'reactions/toggleReaction',
+  async (
+    { target, type }: { target: ReactionTarget; type: ReactionType },
+    { rejectWithValue, getState, extra }
+  ) => {
+    try {
+      const { reactions } = extra as Repositories;
+      const state = getState() as {
+        auth: { user: { id: string } | null };
+        reactions: ReactionState;
+      };
+      const userId = state.auth.user?.id;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      // The optimistic toggle has already run, so the state says where we're going
+      const adding = (state.reactions.mine[reactionTargetKey(target)] ?? []).includes(type);
+
+      if (adding) {
+        await reactions.add(userId, target, type);
+      } else {
+        await reactions.remove(userId, target, type);
+      }
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  },
+  {
+    // One toggle per reaction at a time, so rollbacks can't interleave
+    condition: ({ target, type }, { getState }) => {
+      const { reactions } = getState() as { reactions: ReactionState };
+      return !reactions.pending[pendingKey(target, type)];
+    },
+  }
+);
+
+const reactionSlice = createSlice({
+  name: 'reactions',
+  initialState,
+  reducers: {
+    clearReactions: () => initialState,
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch reactions
+    builder
+      .addCase(fetchReactions.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(fetchReactions.fulfilled, (state, action) => {
+        state.counts = {};
+        state.mine = {};
+        action.payload.counts.forEach((row) => {
+          const key = reactionTargetKey({ blogId: row.blog_id, commentId: row.comment_id });
+          (state.counts[key] ??= {})[row.type] = row.count;
+        });
+        action.payload.mine.forEach((reaction) => {
+          const key = reactionTargetKey({ blogId: reaction.blog_id, commentId: reaction.comment_id });
+          (state.mine[key] ??= []).push(reaction.type);
+        });
+      })
+      .addCase(fetchReactions.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Toggle reaction
+    builder
+      .addCase(toggleReaction.pending, (state, action) => {
+        const { target, type } = action.meta.arg;
+        state.error = null;
+        state.pending[pendingKey(target, type)] = true;
+        applyToggle(state, target, type);
+      })
+      .addCase(toggleReaction.fulfilled, (state, action) => {
+        const { target, type } = action.meta.arg;
+        delete state.pending[pendingKey(target, type)];
+      })
+      .addCase(toggleReaction.rejected, (state, action) => {
+        const { target, type } = action.meta.arg;
+        delete state.pending[pendingKey(target, type)];
+        // Roll back the optimistic toggle
+        applyToggle(state, target, type);
+        state.error = action.payload as string;
+      });
+  },
+});
+
+const EMPTY_COUNTS: ReactionCounts = {};
+const EMPTY_TYPES: ReactionType[] = [];
+
+// Selectors
+export const selectReactionCounts = (state: { reactions: ReactionState }, target: ReactionTarget) =>
+  state.reactions.counts[reactionTargetKey(target)] ?? EMPTY_COUNTS;
+
+export const selectMyReactions = (state: { reactions: ReactionState }, target: ReactionTarget) =>
+  state.reactions.mine[reactionTargetKey(target)] ?? EMPTY_TYPES;
+
+export const { clearReactions, clearError } = reactionSlice.actions;
+export default reactionSlice.reducer;
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  NEW_BLOG,
+  requestDismissed,
+  requestsCleared,
+  selectFailedComments,
+  selectIsDeleting,
+  selectIsSaving,
+  selectRequest,
+} from './requestSlice';
+import { blogApi } from '../api/blogApi';
+import { commentApi } from '../api/commentApi';
+import { Blog } from '../../lib/supabase';
+import { setupStore } from '../../test/utils';
+import { AUTHOR, READER, testSeed } from '../../test/fixtures';
+
+const failure = new Error('Network request failed');
+
+describe('requestSlice', () => {
+  it('tracks a request while it is pending, for its own entity only', async () => {
+    const { store } = await setupStore({ signedInAs: AUTHOR.id });
+    const request = store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+
+    expect(selectRequest(store.getState(), 'deleteBlog', 'blog-1').status).toBe('pending');
+    expect(selectIsDeleting(store.getState(), 'blog-1')).toBe(true);
+    expect(selectIsDeleting(store.getState(), 'blog-2')).toBe(false);
+
+    await request;
+    expect(selectRequest(store.getState(), 'deleteBlog', 'blog-1').status).toBe('succeeded');
+    expect(selectIsDeleting(store.getState(), 'blog-1')).toBe(false);
+  });
+
+  it('keeps why a request failed next to the entity', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+    vi.spyOn(repositories.blogs, 'update').mockRejectedValue(failure);
+    await store.dispatch(blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-2', status: 'draft' }));
+
+    expect(selectRequest(store.getState(), 'updateBlogStatus', 'blog-2')).toMatchObject({
+      status: 'failed',
+      error: failure.message,
+    });
+    expect(selectRequest(store.getState(), 'updateBlogStatus', 'blog-1').status).toBe('idle');
+  });
+
+  it('marks requests refused for what they were sent with', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: READER.id });
+    vi.spyOn(repositories.comments, 'create').mockRejectedValueOnce(failure);
+    const post = async (content: string) => {
+      const request = store.dispatch(commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content }));
+      await request;
+      return selectRequest(store.getState(), 'createComment', request.requestId);
+    };
+
+    expect(await post('Hello')).toMatchObject({ status: 'failed', refused: false });
+    await post('Hello');
+    expect(await post('Hello')).toMatchObject({
+      status: 'failed',
+      error: 'You already posted this comment.',
+      refused: true,
+    });
+    expect(selectFailedComments(store.getState(), 'blog-1')).toHaveLength(1);
+  });
+
+  it('keeps what a failed request was sent with until it is dismissed', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+    vi.spyOn(repositories.comments, 'create').mockRejectedValue(failure);
+    const arg = { blogId: 'blog-1', content: 'Hello' };
+    const request = store.dispatch(commentApi.endpoints.createComment.initiate(arg));
+    const { requestId } = request;
+    await request;
+
+    expect(selectRequest(store.getState(), 'createComment', requestId)).toMatchObject({ status: 'failed', arg });
+    store.dispatch(requestDismissed({ operation: 'createComment', id: requestId }));
+    expect(selectRequest(store.getState(), 'createComment', requestId)).toMatchObject({ status: 'idle', arg: null });
+  });
+
+  it('clears the error when the request is retried', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+    vi.spyOn(repositories.blogs, 'remove').mockRejectedValueOnce(failure);
+    await store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+    const retry = store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+
+    expect(selectRequest(store.getState(), 'deleteBlog', 'blog-1')).toMatchObject({ status: 'pending', error: null });
+    await retry;
+    expect(selectRequest(store.getState(), 'deleteBlog', 'blog-1')).toMatchObject({ status: 'succeeded', error: null });
+  });
+
+  it('forgets the settled requests about an entity, but not pending ones, when its view closes', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+    await store.dispatch(blogApi.endpoints.updateBlog.initiate({ id: 'blog-1', title: 'Post 1', content: 'Hi' }));
+    vi.spyOn(repositories.blogs, 'update').mockRejectedValue(failure);
+    vi.spyOn(repositories.blogs, 'remove').mockReturnValue(new Promise(() => {}));
+    await store.dispatch(blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-1', status: 'draft' }));
+    await store.dispatch(blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-2', status: 'draft' }));
+    store.dispatch(blogApi.endpoints.deleteBlog.initiate('blog-1'));
+
+    expect(selectRequest(store.getState(), 'updateBlog', 'blog-1').status).toBe('succeeded');
+    store.dispatch(requestsCleared('blog-1'));
+    expect(selectRequest(store.getState(), 'updateBlog', 'blog-1').status).toBe('idle');
+    expect(selectRequest(store.getState(), 'updateBlogStatus', 'blog-1').status).toBe('idle');
+    expect(selectRequest(store.getState(), 'updateBlogStatus', 'blog-2').status).toBe('failed');
+    expect(selectIsDeleting(store.getState(), 'blog-1')).toBe(true);
+  });
+
+  it('ignores the answer to a request that was superseded', async () => {
+    const { store, repositories } = await setupStore({ signedInAs: AUTHOR.id });
+    let failFirst: (error: Error) => void = () => {};
+    const update = repositories.blogs.update.bind(repositories.blogs);
+    vi.spyOn(repositories.blogs, 'update')
+      .mockImplementationOnce(() => new Promise<Blog>((_resolve, reject) => (failFirst = reject)))
+      .mockImplementation(update);
+
+    const first = store.dispatch(blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-1', status: 'draft' }));
+    await vi.waitFor(() => expect(repositories.blogs.update).toHaveBeenCalledTimes(1));
+    await store.dispatch(blogApi.endpoints.updateBlogStatus.initiate({ id: 'blog-1', status: 'draft' }));
+    failFirst(failure);
+    await first;
+
+    expect(selectRequest(store.getState(), 'updateBlogStatus', 'blog-1')).toMatchObject({
+      status: 'succeeded',
+      error: null,
+    });
+  });
+
+  it('reports saving while a post or comment is being updated', async () => {
+    const seed = testSeed({ comments: [{ id: 'comment-1', blog_id: 'blog-1', user_id: READER.id, content: 'Hi' }] });
+    const { store } = await setupStore({ seed, signedInAs: READER.id });
+    const request = store.dispatch(
+      commentApi.endpoints.updateComment.initiate({ id: 'comment-1', blogId: 'blog-1', content: 'Hello' })
+    );
+
+    expect(selectIsSaving(store.getState(), 'comment-1')).toBe(true);
+    expect(selectIsDeleting(store.getState(), 'comment-1')).toBe(false);
+    await request;
+    expect(selectIsSaving(store.getState(), 'comment-1')).toBe(false);
+  });
+
+  it('keys new posts as one and new comments by their own request', async () => {
+    const { store } = await setupStore({ signedInAs: AUTHOR.id });
+    const post = store.dispatch(blogApi.endpoints.createBlog.initiate({ title: 'Hello', content: 'World' }));
+    const comment = store.dispatch(commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content: 'Hi' }));
+
+    expect(selectRequest(store.getState(), 'createBlog', NEW_BLOG).status).toBe('pending');
+    expect(selectRequest(store.getState(), 'createComment', comment.requestId).status).toBe('pending');
+    await Promise.all([post, comment]);
+  });
+
+  it('keeps every failed comment, however quickly they were posted', async () => {
+    const seed = testSeed({ comments: [{ id: 'comment-1', blog_id: 'blog-1', user_id: READER.id, content: 'Hi' }] });
+    const { store, repositories } = await setupStore({ seed, signedInAs: AUTHOR.id });
+    vi.spyOn(repositories.comments, 'create').mockRejectedValue(failure);
+    const post = (content: string, parentId?: string) =>
+      store.dispatch(commentApi.endpoints.createComment.initiate({ blogId: 'blog-1', content, parentId }));
+    const requests = [post('First'), post('Second'), post('A reply', 'comment-1')];
+    await Promise.all(requests);
+
+    const [first, second, reply] = requests.map(({ requestId }) => requestId);
+    expect(selectFailedComments(store.getState(), 'blog-1')).toEqual([first, second]);
+    expect(selectFailedComments(store.getState(), 'comment-1')).toEqual([reply]);
+
+    // Leaving the post forgets them, replies included
+    store.dispatch(requestsCleared('blog-1'));
+    expect(selectFailedComments(store.getState(), 'blog-1')).toEqual([]);
+    expect(selectFailedComments(store.getState(), 'comment-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { ActionReducerMapBuilder, createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { blogApi, CreateBlogArgs, UpdateBlogArgs } from '../api/blogApi';
+import { commentApi, CreateCommentArgs, DeleteCommentArgs, UpdateCommentArgs } from '../api/commentApi';
+import { wasRefused } from '../api/baseApi';
+
+export type RequestStatus = 'idle' | 'pending' | 'succeeded' | 'failed';
+
+export interface RequestState<Arg = unknown> {
+  status: RequestStatus;
+  error: string | null;
+  refused: boolean; // failed on what was sent, e.g. a comment the content filters reject, so not worth retrying
+  requestId: string | null; // the latest request; answers to older ones are ignored
+  arg: Arg | null; // what it was sent with, to retry it
+}
+
+// Saves to posts and comments, with what each is sent. Loading is tracked
+// per query argument by RTK Query.
+export interface OperationArgs {
+  createBlog: CreateBlogArgs;
+  updateBlog: UpdateBlogArgs;
+  updateBlogStatus: typeof blogApi.endpoints.updateBlogStatus.Types.QueryArg;
+  deleteBlog: string;
+  createComment: CreateCommentArgs;
+  updateComment: UpdateCommentArgs;
+  deleteComment: DeleteCommentArgs;
+}
+
+export type Operation = keyof OperationArgs;
+
+// By operation, then by the id of the entity the request is about, or for new
+// comments the request's own id
+type RequestsState = { [O in Operation]: Record<string, RequestState<OperationArgs[O]>> };
+
+const initialState: RequestsState = {
+  createBlog: {},
+  updateBlog: {},
+  updateBlogStatus: {},
+  deleteBlog: {},
+  createComment: {},
+  updateComment: {},
+  deleteComment: {},
+};
+
+// New posts aren't about an existing one
+export const NEW_BLOG = 'new';
+
+// What a new comment answers: the comment replied to, or the post
+const commentTarget = ({ blogId, parentId }: CreateCommentArgs) => parentId ?? blogId;
+
+const IDLE: RequestState<never> = { status: 'idle', error: null, refused: false, requestId: null, arg: null };
+
+interface EndpointMatchers<Arg> {
+  matchPending: (action: unknown) => action is { meta: { requestId: string; arg: { originalArgs: Arg } } };
+  matchFulfilled: (action: unknown) => action is { meta: { requestId: string; arg: { originalArgs: Arg } } };
+  matchRejected: (
+    action: unknown
+  ) => action is {
+    payload: unknown;
+    error: { message?: string };
+    meta: { requestId: string; arg: { originalArgs: Arg }; baseQueryMeta?: unknown };
+  };
+}
+
+// One operation's requests; TypeScript can't index the mapped state with a generic operation
+const requestsOf = <O extends Operation>(state: RequestsState, operation: O) =>
+  state[operation] as Record<string, RequestState<OperationArgs[O]>>;
+
+// Follow one endpoint's requests under `operation`, keyed by `entityOf(arg, requestId)`
+const track = <O extends Operation>(
+  builder: ActionReducerMapBuilder<RequestsState>,
+  operation: O,
+  endpoint: EndpointMatchers<OperationArgs[O]>,
+  entityOf: (arg: OperationArgs[O], requestId: string) => string
+) => {
+  builder
+    .addMatcher(endpoint.matchPending, (state, action) => {
+      const arg = action.meta.arg.originalArgs;
+      requestsOf(state, operation)[entityOf(arg, action.meta.requestId)] = {
+        status: 'pending',
+        error: null,
+        refused: false,
+        requestId: action.meta.requestId,
+        arg,
+      };
+    })
+    .addMatcher(endpoint.matchFulfilled, (state, action) => {
+      const request = requestsOf(state, operation)[entityOf(action.meta.arg.originalArgs, action.meta.requestId)];
+      if (request?.requestId === action.meta.requestId) {
+        request.status = 'succeeded';
+      }
+    })
+    .addMatcher(endpoint.matchRejected, (state, action) => {
+      const request = requestsOf(state, operation)[entityOf(action.meta.arg.originalArgs, action.meta.requestId)];
+      if (request?.requestId === action.meta.requestId) {
+        request.status = 'failed';
+        request.error = typeof action.payload === 'string' ? action.payload : (action.error.message ?? null);
+        request.refused = wasRefused(action.meta.baseQueryMeta);
+      }
+    });
+};
+
+const requestSlice = createSlice({
+  name: 'requests',
+  initialState,
+  reducers: {
+    // Forget a failed request, e.g. once its error has been dismissed
+    requestDismissed: (state, action: PayloadAction<{ operation: Operation; id: string }>) => {
+      delete state[action.payload.operation][action.payload.id];
+    },
+    // Forget the settled requests about a post, and about its comments, when
+    // the view showing them closes, so they aren't shown again on the next
+    // visit. Pending ones are kept: if they fail, that still needs telling.
+    requestsCleared: (state, action: PayloadAction<string>) => {
+      for (const requests of Object.values(state) as Record<string, RequestState>[]) {
+        if (requests[action.payload] && requests[action.payload].status !== 'pending') delete requests[action.payload];
+      }
+      // Not when a comment unmounts: collapsing its thread keeps them
+      for (const operation of ['createComment', 'updateComment', 'deleteComment'] as const) {
+        const requests = requestsOf(state, operation);
+        for (const [id, request] of Object.entries(requests)) {
+          if (request.status !== 'pending' && request.arg?.blogId === action.payload) delete requests[id];
+        }
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    const { endpoints: blogs } = blogApi;
+    const { endpoints: comments } = commentApi;
+
+    track(builder, 'createBlog', blogs.createBlog, () => NEW_BLOG);
+    track(builder, 'updateBlog', blogs.updateBlog, ({ id }) => id);
+    track(builder, 'updateBlogStatus', blogs.updateBlogStatus, ({ id }) => id);
+    track(builder, 'deleteBlog', blogs.deleteBlog, (id) => id);
+    // Each new comment on its own, so a quick second one can't hide the first one's failure
+    track(builder, 'createComment', comments.createComment, (_arg, requestId) => requestId);
+    track(builder, 'updateComment', comments.updateComment, ({ id }) => id);
+    track(builder, 'deleteComment', comments.deleteComment, ({ id }) => id);
+  },
+});
+
+// Selectors
+export const selectRequest = <O extends Operation>(
+  state: { requests: RequestsState },
+  operation: O,
+  id: string
+): RequestState<OperationArgs[O]> => state.requests[operation][id] ?? IDLE;
+
+const isPending = (state: { requests: RequestsState }, operations: Operation[], id: string) =>
+  operations.some((operation) => selectRequest(state, operation, id).status === 'pending');
+
+// Whether the post or comment with this id is being deleted
+export const selectIsDeleting = (state: { requests: RequestsState }, id: string) =>
+  isPending(state, ['deleteBlog', 'deleteComment'], id);
+
+// Whether changes to the post or comment with this id are being saved
+export const selectIsSaving = (state: { requests: RequestsState }, id: string) =>
+  isPending(state, ['updateBlog', 'updateBlogStatus', 'updateComment'], id);
+
+// Request ids of the new comments on a post, or replies to a comment, that
+// failed and can be retried, oldest first. Refused ones are the form's to show.
+export const selectFailedComments = createSelector(
+  [(state: { requests: RequestsState }) => state.requests.createComment, (_state, targetId: string) => targetId],
+  (requests, targetId) =>
+    Object.keys(requests).filter((requestId) => {
+      const { status, refused, arg } = requests[requestId];
+      return status === 'failed' && !refused && !!arg && commentTarget(arg) === targetId;
+    })
+);
+
+export const { requestDismissed, requestsCleared } = requestSlice.actions;
+export default requestSlice.reducer;
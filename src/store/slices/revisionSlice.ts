@@ -0,0 +1,155 @@
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { Blog, BlogRevision } from '../../lib/supabase';
+import { Repositories } from '../../lib/repositories/types';
+import { diffLines } from '../../lib/diff';
+import { blogApi } from '../api/blogApi';
+
+// Stands for the blog as it is now when comparing against a revision
+export const CURRENT_VERSION = 'current';
+
+interface RevisionState {
+  blogId: string | null;
+  revisions: BlogRevision[]; // newest first
+  compare: {
+    fromId: string | null; // older side of the diff
+    toId: string; // newer side, a revision id or CURRENT_VERSION
+  };
+  loading: boolean;
+  restoring: boolean;
+  error: string | null;
+}
+
+const initialState: RevisionState = {
+  blogId: null,
+  revisions: [],
+  compare: {
+    fromId: null,
+    toId: CURRENT_VERSION,
+  },
+  loading: false,
+  restoring: false,
+  error: null,
+};
+
+// Fetch the revision history of a blog
+export const fetchRevisions = createAsyncThunk(
+  'revisions/fetchRevisions',
+  async (blogId: string, { rejectWithValue, extra }) => {
+    try {
+      const { revisions } = extra as Repositories;
+      return await revisions.list(blogId);
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+// Restore an old revision by saving it as a new update, so the version it
+// replaces is itself kept in the history
+export const restoreRevision = createAsyncThunk(
+  'revisions/restoreRevision',
+  async (revision: BlogRevision, { rejectWithValue, dispatch }) => {
+    try {
+      const blog = await dispatch(
+        blogApi.endpoints.updateBlog.initiate({
+          id: revision.blog_id,
+          title: revision.title,
+          content: revision.content,
+          // Some of its images may have been deleted since; then the current gallery stays
+          gallery: revision.image_deleted ? undefined : revision.gallery,
+        })
+      ).unwrap();
+
+      await dispatch(fetchRevisions(revision.blog_id));
+      return blog;
+    } catch (error: any) {
+      // updateBlog rejects with its error message
+      return rejectWithValue(typeof error === 'string' ? error : error.message);
+    }
+  }
+);
+
+const revisionSlice = createSlice({
+  name: 'revisions',
+  initialState,
+  reducers: {
+    setCompare: (state, action: PayloadAction<{ fromId: string | null; toId: string }>) => {
+      state.compare = action.payload;
+    },
+    clearRevisions: () => initialState,
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch revisions
+    builder
+      .addCase(fetchRevisions.pending, (state, action) => {
+        state.loading = true;
+        state.error = null;
+        if (state.blogId !== action.meta.arg) {
+          state.blogId = action.meta.arg;
+          state.revisions = [];
+        }
+      })
+      .addCase(fetchRevisions.fulfilled, (state, action) => {
+        state.loading = false;
+        state.revisions = action.payload;
+        // Default to comparing the latest revision with the current version
+        state.compare = {
+          fromId: action.payload[0]?.id ?? null,
+          toId: CURRENT_VERSION,
+        };
+      })
+      .addCase(fetchRevisions.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
+    // Restore revision
+    builder
+      .addCase(restoreRevision.pending, (state) => {
+        state.restoring = true;
+        state.error = null;
+      })
+      .addCase(restoreRevision.fulfilled, (state) => {
+        state.restoring = false;
+      })
+      .addCase(restoreRevision.rejected, (state, action) => {
+        state.restoring = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+type VersionSource = Pick<Blog, 'title' | 'content'>;
+type BlogCacheState = Parameters<ReturnType<typeof blogApi.endpoints.getBlog.select>>[0];
+
+// The post whose history is shown, as cached by blogApi
+const selectCurrentBlog = (state: BlogCacheState & { revisions: RevisionState }) =>
+  state.revisions.blogId ? (blogApi.endpoints.getBlog.select(state.revisions.blogId)(state).data ?? null) : null;
+
+const findVersion = (id: string | null, revisions: BlogRevision[], current: VersionSource | null) =>
+  id === CURRENT_VERSION ? current : revisions.find((revision) => revision.id === id) ?? null;
+
+// Line diff of the two versions picked in `compare`
+export const selectRevisionDiff = createSelector(
+  [
+    (state: { revisions: RevisionState }) => state.revisions.revisions,
+    (state: { revisions: RevisionState }) => state.revisions.compare,
+    selectCurrentBlog,
+  ],
+  (revisions, compare, currentBlog) => {
+    const from = findVersion(compare.fromId, revisions, currentBlog);
+    const to = findVersion(compare.toId, revisions, currentBlog);
+    if (!from || !to) return null;
+
+    return {
+      title: from.title === to.title ? null : { from: from.title, to: to.title },
+      lines: diffLines(from.content, to.content),
+    };
+  }
+);
+
+export const { setCompare, clearRevisions, clearError } = revisionSlice.actions;
+export default revisionSlice.reducer;
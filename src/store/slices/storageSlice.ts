@@ -0,0 +1,89 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { OrphanedUpload } from '../../lib/supabase';
+import { Repositories } from '../../lib/repositories/types';
+
+interface StorageState {
+  orphans: OrphanedUpload[];
+  checked: boolean; // a check has run, so an empty list means nothing was found
+  checking: boolean;
+  deleting: boolean;
+  error: string | null;
+}
+
+const initialState: StorageState = {
+  orphans: [],
+  checked: false,
+  checking: false,
+  deleting: false,
+  error: null,
+};
+
+// Uploads under a user's prefix that nothing refers to any more; admins can
+// pass null to check everyone's
+export const findOrphanedUploads = createAsyncThunk(
+  'storage/findOrphanedUploads',
+  async (userId: string | null, { rejectWithValue, extra }) => {
+    try {
+      const { storage } = extra as Repositories;
+      return await storage.findOrphaned(userId);
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+export const deleteOrphanedUploads = createAsyncThunk(
+  'storage/deleteOrphanedUploads',
+  async (paths: string[], { rejectWithValue, extra }) => {
+    try {
+      const { storage } = extra as Repositories;
+      // Objects the user may not delete are left out of the result
+      return await storage.remove(paths);
+    } catch (error: any) {
+      return rejectWithValue(error.message);
+    }
+  }
+);
+
+const storageSlice = createSlice({
+  name: 'storage',
+  initialState,
+  reducers: {
+    clearOrphanedUploads: () => initialState,
+  },
+  extraReducers: (builder) => {
+    // Find
+    builder
+      .addCase(findOrphanedUploads.pending, (state) => {
+        state.checking = true;
+        state.error = null;
+      })
+      .addCase(findOrphanedUploads.fulfilled, (state, action) => {
+        state.checking = false;
+        state.checked = true;
+        state.orphans = action.payload;
+      })
+      .addCase(findOrphanedUploads.rejected, (state, action) => {
+        state.checking = false;
+        state.error = action.payload as string;
+      });
+
+    // Delete
+    builder
+      .addCase(deleteOrphanedUploads.pending, (state) => {
+        state.deleting = true;
+        state.error = null;
+      })
+      .addCase(deleteOrphanedUploads.fulfilled, (state, action) => {
+        state.deleting = false;
+        state.orphans = state.orphans.filter((orphan) => !action.payload.includes(orphan.path));
+      })
+      .addCase(deleteOrphanedUploads.rejected, (state, action) => {
+        state.deleting = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearOrphanedUploads } = storageSlice.actions;
+export default storageSlice.reducer;
@@ -1,15 +1,52 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './slices/authSlice';
 import blogReducer from './slices/blogSlice';
-import commentReducer from './slices/commentSlice';
-
-export const store = configureStore({
-  reducer: {
-    auth: authReducer,
-    blogs: blogReducer,
-    comments: commentReducer,
-  },
-});
-
-export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
+import profileReducer from './slices/profileSlice';
+import revisionReducer from './slices/revisionSlice';
+import reactionReducer from './slices/reactionSlice';
+import moderationReducer from './slices/moderationSlice';
+import storageReducer from './slices/storageSlice';
+import requestReducer from './slices/requestSlice';
+import { api } from './api/baseApi';
+import { getSupabase, isSupabaseConfigured } from '../lib/supabase';
+import { Repositories } from '../lib/repositories/types';
+import { createSupabaseRepositories } from '../lib/repositories/supabase';
+import { createMemoryRepositories } from '../lib/repositories/memory';
+import { DEMO_SEED } from '../lib/repositories/demoSeed';
+
+// Thunks and the API's queries reach the backend through `extra`, so tests can
+// pass in-memory repositories
+export const createAppStore = (repositories: Repositories) =>
+  configureStore({
+    reducer: {
+      auth: authReducer,
+      blogs: blogReducer,
+      profiles: profileReducer,
+      revisions: revisionReducer,
+      reactions: reactionReducer,
+      moderation: moderationReducer,
+      storage: storageReducer,
+      requests: requestReducer,
+      [api.reducerPath]: api.reducer,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware({ thunk: { extraArgument: repositories } }).concat(api.middleware),
+  });
+
+// Demo data kept in memory only when asked for with VITE_DATA_BACKEND=memory,
+// or on the dev server without a Supabase project. A production build missing
+// the Supabase settings fails at startup rather than serving demo data.
+const createRepositories = (): Repositories => {
+  if (import.meta.env.VITE_DATA_BACKEND === 'memory') return createMemoryRepositories(DEMO_SEED);
+  if (isSupabaseConfigured) return createSupabaseRepositories(getSupabase());
+  if (import.meta.env.DEV) return createMemoryRepositories(DEMO_SEED);
+  throw new Error('Missing Supabase environment variables; set VITE_DATA_BACKEND=memory to run on demo data');
+};
+
+export const repositories = createRepositories();
+
+export const store = createAppStore(repositories);
+
+export type AppStore = ReturnType<typeof createAppStore>;
+export type RootState = ReturnType<AppStore['getState']>;
+export type AppDispatch = AppStore['dispatch'];
@@ -0,0 +1,24 @@
+import { MemorySeed } from '../lib/repositories/memory';
+
+// Accounts and posts the tests start from. Every account's password is "password".
+
+export const READER = { id: 'reader', email: 'reader@example.com', password: 'password', role: 'reader' as const };
+export const AUTHOR = { id: 'author', email: 'author@example.com', password: 'password', role: 'author' as const };
+export const OTHER_AUTHOR = { id: 'other-author', email: 'other@example.com', password: 'password', role: 'author' as const };
+export const MODERATOR = { id: 'moderator', email: 'moderator@example.com', password: 'password', role: 'moderator' as const };
+
+// `count` published posts by AUTHOR, one a day up to yesterday, so "Post 1" is the newest
+export const publishedBlogs = (count: number): NonNullable<MemorySeed['blogs']> =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `blog-${i + 1}`,
+    title: `Post ${i + 1}`,
+    content: `Content of post ${i + 1}`,
+    user_id: AUTHOR.id,
+    created_at: new Date(Date.now() - (i + 1) * 24 * 60 * 60 * 1000).toISOString(),
+  }));
+
+export const testSeed = (overrides: MemorySeed = {}): MemorySeed => ({
+  users: [READER, AUTHOR, OTHER_AUTHOR, MODERATOR],
+  blogs: publishedBlogs(3),
+  ...overrides,
+});
@@ -0,0 +1,9 @@
+import '@testing-library/jest-dom/vitest';
+// Drafts are autosaved to IndexedDB, which jsdom doesn't have
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+afterEach(() => {
+  cleanup();
+});
@@ -0,0 +1,42 @@
+import { render } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Provider } from 'react-redux';
+import { createMemoryRouter, parsePath, RouteObject, RouterProvider } from 'react-router-dom';
+import { createMemoryRepositories, MemorySeed } from '../lib/repositories/memory';
+import { RepositoriesContext } from '../hooks/useRepositories';
+import { createAppStore } from '../store/store';
+import { checkSession } from '../store/slices/authSlice';
+import { testSeed } from './fixtures';
+
+interface SetupOptions {
+  seed?: MemorySeed;
+  signedInAs?: string; // user id
+  sessionChecked?: boolean; // checkSession has run, as shortly after startup (default)
+}
+
+// A store on in-memory repositories
+export const setupStore = async ({ seed = testSeed(), signedInAs, sessionChecked = true }: SetupOptions = {}) => {
+  const repositories = createMemoryRepositories({ ...seed, signedInAs });
+  const store = createAppStore(repositories);
+  if (sessionChecked) await store.dispatch(checkSession());
+  return { store, repositories };
+};
+
+// Render routes inside a memory router, as the app does, starting at `path`
+export const renderRoutes = async (
+  routes: RouteObject[],
+  { path = '/', state, ...options }: SetupOptions & { path?: string; state?: unknown } = {}
+) => {
+  const { store, repositories } = await setupStore(options);
+  const router = createMemoryRouter(routes, { initialEntries: [{ ...parsePath(path), state }] });
+  const user = userEvent.setup();
+
+  render(
+    <Provider store={store}>
+      <RepositoriesContext.Provider value={repositories}>
+        <RouterProvider router={router} />
+      </RepositoriesContext.Provider>
+    </Provider>
+  );
+  return { store, repositories, router, user };
+};
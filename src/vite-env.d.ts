@@ -3,4 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_BLOCKED_WORDS?: string // comma-separated words rejected in comments
+  readonly VITE_OAUTH_PROVIDERS?: string // comma-separated, e.g. github,google
+  readonly VITE_CACHE_LIFETIME?: string // seconds unused posts and comments stay cached (default 60)
+  readonly VITE_DATA_BACKEND?: 'supabase' | 'memory' // memory: demo data, nothing is saved
 }
@@ -0,0 +1,6 @@
+-- Threaded replies: a comment may reply to another comment on the same blog.
+alter table public.comments
+  add column parent_id uuid references public.comments (id) on delete cascade,
+  add column deleted_at timestamptz;
+
+create index comments_parent_id_idx on public.comments (parent_id);
@@ -0,0 +1,41 @@
+-- Public author profiles, one row per auth user.
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text check (char_length(display_name) <= 50),
+  bio text check (char_length(bio) <= 500),
+  avatar_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Profiles are public" on public.profiles
+  for select using (true);
+
+create policy "Users insert their own profile" on public.profiles
+  for insert with check (auth.uid() = id);
+
+create policy "Users update their own profile" on public.profiles
+  for update using (auth.uid() = id);
+
+-- Create an empty profile for every new user
+create function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id) values (new.id);
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Backfill existing users
+insert into public.profiles (id)
+select id from auth.users
+on conflict (id) do nothing;
@@ -0,0 +1,49 @@
+-- Ranked full-text search over blog titles and content.
+alter table public.blogs
+  add column search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) stored;
+
+create index blogs_search_vector_idx on public.blogs using gin (search_vector);
+
+-- Returns matching blogs best match first. The client chains the same
+-- author/date filters, range and count onto this as onto the blogs table.
+create function public.search_blogs(search_query text)
+returns setof public.blogs
+language sql stable
+as $$
+  select b.*
+  from public.blogs b
+  where b.search_vector @@ websearch_to_tsquery('english', search_query)
+  order by ts_rank(b.search_vector, websearch_to_tsquery('english', search_query)) desc,
+           b.created_at desc;
+$$;
+
+-- Denormalized comment count for the "most commented" sort.
+alter table public.blogs
+  add column comment_count integer not null default 0;
+
+update public.blogs b
+set comment_count = (select count(*) from public.comments c where c.blog_id = b.id);
+
+create function public.update_blog_comment_count()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update blogs set comment_count = comment_count + 1 where id = new.blog_id;
+  elsif tg_op = 'DELETE' then
+    update blogs set comment_count = comment_count - 1 where id = old.blog_id;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger comments_count_blog
+  after insert or delete on public.comments
+  for each row execute function public.update_blog_comment_count();
+
+create index blogs_comment_count_idx on public.blogs (comment_count desc, created_at desc);
@@ -0,0 +1,45 @@
+-- Tags on blog posts.
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 1 and 30),
+  slug text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table public.blog_tags (
+  blog_id uuid not null references public.blogs (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  primary key (blog_id, tag_id)
+);
+
+create index blog_tags_tag_id_idx on public.blog_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.blog_tags enable row level security;
+
+create policy "Tags are public" on public.tags
+  for select using (true);
+
+create policy "Signed-in users create tags" on public.tags
+  for insert to authenticated with check (true);
+
+create policy "Blog tags are public" on public.blog_tags
+  for select using (true);
+
+create policy "Authors tag their own blogs" on public.blog_tags
+  for insert with check (
+    exists (select 1 from public.blogs b where b.id = blog_id and b.user_id = auth.uid())
+  );
+
+create policy "Authors untag their own blogs" on public.blog_tags
+  for delete using (
+    exists (select 1 from public.blogs b where b.id = blog_id and b.user_id = auth.uid())
+  );
+
+-- Tag catalogue with the number of posts using each tag
+create view public.tag_counts
+with (security_invoker = true) as
+  select t.id, t.name, t.slug, count(bt.blog_id)::integer as post_count
+  from public.tags t
+  left join public.blog_tags bt on bt.tag_id = t.id
+  group by t.id;
@@ -0,0 +1,33 @@
+-- Post lifecycle: draft -> scheduled/published -> archived.
+alter table public.blogs
+  add column status text not null default 'draft'
+    check (status in ('draft', 'scheduled', 'published', 'archived')),
+  add column publish_at timestamptz;
+
+-- Everything written before this was published on creation
+update public.blogs set status = 'published', publish_at = created_at;
+
+create index blogs_live_idx on public.blogs (status, publish_at desc);
+
+-- A post is live once it is published or scheduled and its time has come.
+-- Readers only see live posts; authors always see their own.
+drop policy if exists "Blogs are public" on public.blogs;
+drop policy if exists "Enable read access for all users" on public.blogs;
+
+create policy "Live blogs are public, authors see their own" on public.blogs
+  for select using (
+    (status in ('published', 'scheduled') and publish_at <= now())
+    or auth.uid() = user_id
+  );
+
+-- Only count live posts in the tag catalogue
+create or replace view public.tag_counts
+with (security_invoker = true) as
+  select t.id, t.name, t.slug,
+         count(b.id) filter (
+           where b.status in ('published', 'scheduled') and b.publish_at <= now()
+         )::integer as post_count
+  from public.tags t
+  left join public.blog_tags bt on bt.tag_id = t.id
+  left join public.blogs b on b.id = bt.blog_id
+  group by t.id;
@@ -0,0 +1,46 @@
+-- Revision history: each update that changes a blog's title, content or image
+-- keeps a snapshot of the version it replaced.
+create table public.blog_revisions (
+  id uuid primary key default gen_random_uuid(),
+  blog_id uuid not null references public.blogs (id) on delete cascade,
+  editor_id uuid references auth.users (id) on delete set null,
+  title text not null,
+  content text not null,
+  image_url text,
+  created_at timestamptz not null default now()
+);
+
+create index blog_revisions_blog_id_idx on public.blog_revisions (blog_id, created_at desc);
+
+alter table public.blog_revisions enable row level security;
+
+-- Anyone who can see the blog can see its history. Rows are only written by
+-- the trigger below, so there are no insert/update/delete policies.
+create policy "Revisions follow blog visibility" on public.blog_revisions
+  for select using (
+    exists (select 1 from public.blogs b where b.id = blog_id)
+  );
+
+create or replace function public.record_blog_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.blog_revisions (blog_id, editor_id, title, content, image_url)
+  values (old.id, auth.uid(), old.title, old.content, old.image_url);
+  return new;
+end;
+$$;
+
+-- Status changes and comment_count bumps are not content edits
+create trigger blogs_record_revision
+  before update on public.blogs
+  for each row
+  when (
+    old.title is distinct from new.title
+    or old.content is distinct from new.content
+    or old.image_url is distinct from new.image_url
+  )
+  execute function public.record_blog_revision();
@@ -0,0 +1,8 @@
+-- Broadcast comment and blog changes to subscribed clients. Realtime applies
+-- the select policies, so readers only receive rows they are allowed to see.
+alter publication supabase_realtime add table public.comments, public.blogs;
+
+-- Send the full old row with updates and deletes: clients need the old
+-- status to tell when a draft gets published, and the id of deleted comments
+alter table public.blogs replica identity full;
+alter table public.comments replica identity full;
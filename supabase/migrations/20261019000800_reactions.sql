@@ -0,0 +1,66 @@
+-- Reactions on posts and comments. Every reaction carries the post it belongs
+-- to; comment_id is set for reactions on one of that post's comments.
+create table public.reactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  blog_id uuid not null references public.blogs (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade,
+  type text not null check (type in ('like', 'love', 'laugh', 'celebrate', 'sad')),
+  created_at timestamptz not null default now(),
+  -- One reaction of each type per user per target
+  unique nulls not distinct (user_id, blog_id, comment_id, type)
+);
+
+create index reactions_blog_id_idx on public.reactions (blog_id);
+
+alter table public.reactions enable row level security;
+
+create policy "Reactions are public" on public.reactions
+  for select using (true);
+
+create policy "Users can react as themselves" on public.reactions
+  for insert with check (
+    auth.uid() = user_id
+    and (
+      comment_id is null
+      or exists (
+        select 1 from public.comments c
+        where c.id = comment_id and c.blog_id = reactions.blog_id
+      )
+    )
+  );
+
+create policy "Users can remove their own reactions" on public.reactions
+  for delete using (auth.uid() = user_id);
+
+-- Aggregate counts per target, so clients don't download every reaction
+create view public.reaction_counts
+with (security_invoker = true) as
+  select blog_id, comment_id, type, count(*)::integer as count
+  from public.reactions
+  group by blog_id, comment_id, type;
+
+-- Denormalized like count for the "most liked" sort
+alter table public.blogs
+  add column like_count integer not null default 0;
+
+create function public.update_blog_like_count()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.type = 'like' and new.comment_id is null then
+    update blogs set like_count = like_count + 1 where id = new.blog_id;
+  elsif tg_op = 'DELETE' and old.type = 'like' and old.comment_id is null then
+    update blogs set like_count = like_count - 1 where id = old.blog_id;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger reactions_count_blog_likes
+  after insert or delete on public.reactions
+  for each row execute function public.update_blog_like_count();
+
+create index blogs_like_count_idx on public.blogs (like_count desc, created_at desc);
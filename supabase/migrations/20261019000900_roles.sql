@@ -0,0 +1,80 @@
+-- Roles, from least to most privileged: reader < author < moderator < admin.
+-- Kept out of profiles so users can't promote themselves by editing their profile.
+create table public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null default 'author'
+    check (role in ('reader', 'author', 'moderator', 'admin')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_roles enable row level security;
+
+-- Roles are visible (e.g. for staff badges); only admins change them
+create policy "Roles are public" on public.user_roles
+  for select using (true);
+
+create function public.role_rank(role text)
+returns integer
+language sql immutable
+as $$
+  select case role
+    when 'reader' then 0
+    when 'author' then 1
+    when 'moderator' then 2
+    when 'admin' then 3
+  end;
+$$;
+
+-- Whether the current user has `required` or a higher role
+create function public.has_role(required text)
+returns boolean
+language sql stable
+security definer set search_path = public
+as $$
+  select coalesce(
+    (select role_rank(r.role) >= role_rank(required)
+     from user_roles r where r.user_id = auth.uid()),
+    false
+  );
+$$;
+
+create policy "Admins manage roles" on public.user_roles
+  for all using (public.has_role('admin')) with check (public.has_role('admin'));
+
+-- Every new user starts as an author, as everyone could post before roles existed
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id) values (new.id);
+  insert into public.user_roles (user_id) values (new.id);
+  return new;
+end;
+$$;
+
+insert into public.user_roles (user_id)
+select id from auth.users
+on conflict (user_id) do nothing;
+
+-- Only authors and up can write posts
+create policy "Only authors create blogs" on public.blogs
+  as restrictive for insert with check (public.has_role('author'));
+
+-- Admins can see, edit and delete any post
+create policy "Admins see all blogs" on public.blogs
+  for select using (public.has_role('admin'));
+
+create policy "Admins update any blog" on public.blogs
+  for update using (public.has_role('admin'));
+
+create policy "Admins delete any blog" on public.blogs
+  for delete using (public.has_role('admin'));
+
+-- Moderators (and admins) can edit or delete any comment
+create policy "Moderators update any comment" on public.comments
+  for update using (public.has_role('moderator'));
+
+create policy "Moderators delete any comment" on public.comments
+  for delete using (public.has_role('moderator'));
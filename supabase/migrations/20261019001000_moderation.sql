@@ -0,0 +1,122 @@
+-- Reporting and moderation. Moderators can hide reported posts and comments;
+-- hidden content stays visible to its author and to moderators only.
+alter table public.blogs add column hidden_at timestamptz;
+alter table public.comments add column hidden_at timestamptz;
+
+create policy "Hidden blogs are only visible to their author and moderators" on public.blogs
+  as restrictive for select using (
+    hidden_at is null or auth.uid() = user_id or public.has_role('moderator')
+  );
+
+create policy "Hidden comments are only visible to their author and moderators" on public.comments
+  as restrictive for select using (
+    hidden_at is null or auth.uid() = user_id or public.has_role('moderator')
+  );
+
+-- Moderators can see every post so they can review reported drafts too
+create policy "Moderators see all blogs" on public.blogs
+  for select using (public.has_role('moderator'));
+
+create table public.reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  blog_id uuid not null references public.blogs (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade, -- null when the post itself is reported
+  reason text not null check (char_length(reason) between 1 and 500),
+  status text not null default 'open' check (status in ('open', 'resolved', 'dismissed')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id) on delete set null
+);
+
+create index reports_open_idx on public.reports (created_at) where status = 'open';
+
+alter table public.reports enable row level security;
+
+create policy "Users can report content" on public.reports
+  for insert with check (auth.uid() = reporter_id and status = 'open');
+
+create policy "Moderators see reports" on public.reports
+  for select using (public.has_role('moderator'));
+
+-- Audit trail of moderation decisions. It references the content by id only,
+-- so entries outlive the posts and comments they are about.
+create table public.moderation_actions (
+  id uuid primary key default gen_random_uuid(),
+  moderator_id uuid references auth.users (id) on delete set null,
+  report_id uuid references public.reports (id) on delete set null,
+  blog_id uuid not null,
+  comment_id uuid,
+  action text not null check (action in ('hide', 'delete', 'dismiss')),
+  reason text, -- the report's reason at the time of the decision
+  created_at timestamptz not null default now()
+);
+
+alter table public.moderation_actions enable row level security;
+
+-- Only written by moderate_report below
+create policy "Moderators see the audit trail" on public.moderation_actions
+  for select using (public.has_role('moderator'));
+
+-- Apply a decision to a report's target, close the report and record it in
+-- the audit trail, all in one transaction. Deleting a post needs an admin.
+create function public.moderate_report(report_id uuid, decision text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  r reports%rowtype;
+begin
+  if not has_role('moderator') then
+    raise exception 'Only moderators can act on reports';
+  end if;
+
+  select * into r from reports where id = report_id and status = 'open';
+  if not found then
+    raise exception 'Report not found or already handled';
+  end if;
+
+  if decision = 'hide' then
+    if r.comment_id is not null then
+      update comments set hidden_at = now() where id = r.comment_id;
+    else
+      update blogs set hidden_at = now() where id = r.blog_id;
+    end if;
+  elsif decision = 'delete' then
+    if r.comment_id is not null then
+      -- Same as a user deleting a comment: keep a placeholder if it has replies
+      if exists (select 1 from comments where parent_id = r.comment_id) then
+        update comments
+        set content = '', file_url = null, deleted_at = now(), updated_at = now()
+        where id = r.comment_id;
+      else
+        delete from comments where id = r.comment_id;
+      end if;
+    else
+      if not has_role('admin') then
+        raise exception 'Only admins can delete posts';
+      end if;
+      delete from blogs where id = r.blog_id;
+    end if;
+  elsif decision <> 'dismiss' then
+    raise exception 'Unknown decision %', decision;
+  end if;
+
+  -- Deleting the content also deletes its reports, so don't link to them
+  insert into moderation_actions (moderator_id, report_id, blog_id, comment_id, action, reason)
+  values (auth.uid(), case when decision = 'delete' then null else r.id end,
+          r.blog_id, r.comment_id, decision, r.reason);
+
+  -- Hiding or deleting settles every open report on the same content
+  update reports
+  set status = case when decision = 'dismiss' then 'dismissed' else 'resolved' end,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  where id = r.id
+     or (decision <> 'dismiss'
+         and status = 'open'
+         and blog_id = r.blog_id
+         and comment_id is not distinct from r.comment_id);
+end;
+$$;
@@ -0,0 +1,93 @@
+-- Comments held by the client-side content filters are saved hidden, with the
+-- reason, and wait in the moderation queue until approved or deleted.
+alter table public.comments add column held_reason text;
+
+create index comments_held_idx on public.comments (created_at) where held_reason is not null;
+
+alter table public.moderation_actions
+  drop constraint moderation_actions_action_check,
+  add constraint moderation_actions_action_check
+    check (action in ('hide', 'delete', 'dismiss', 'approve'));
+
+-- Authors may hold their own comment (hide it with a reason) but only
+-- moderators may hide without a reason, or unhide anything.
+create function public.protect_comment_visibility()
+returns trigger
+language plpgsql
+as $$
+begin
+  if has_role('moderator') then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+     and ((old.hidden_at is not null and new.hidden_at is null)
+          or (old.held_reason is not null and new.held_reason is null)) then
+    raise exception 'Only moderators can unhide comments';
+  end if;
+
+  if new.hidden_at is not null and new.held_reason is null
+     and (tg_op = 'INSERT' or old.hidden_at is null) then
+    raise exception 'Only moderators can hide comments';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger comments_protect_visibility
+  before insert or update on public.comments
+  for each row execute function public.protect_comment_visibility();
+
+create function public.protect_blog_visibility()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.hidden_at is distinct from old.hidden_at and not has_role('moderator') then
+    raise exception 'Only moderators can hide or unhide posts';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger blogs_protect_visibility
+  before update on public.blogs
+  for each row execute function public.protect_blog_visibility();
+
+-- Approve or delete a held comment and record the decision in the audit trail
+create function public.moderate_held_comment(comment_id uuid, decision text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  c comments%rowtype;
+begin
+  if not has_role('moderator') then
+    raise exception 'Only moderators can review held comments';
+  end if;
+
+  select * into c from comments where id = comment_id and held_reason is not null;
+  if not found then
+    raise exception 'Comment not found or not held';
+  end if;
+
+  if decision = 'approve' then
+    update comments set hidden_at = null, held_reason = null where id = c.id;
+  elsif decision = 'delete' then
+    if exists (select 1 from comments where parent_id = c.id) then
+      update comments
+      set content = '', file_url = null, deleted_at = now(), updated_at = now(), held_reason = null
+      where id = c.id;
+    else
+      delete from comments where id = c.id;
+    end if;
+  else
+    raise exception 'Unknown decision %', decision;
+  end if;
+
+  insert into moderation_actions (moderator_id, blog_id, comment_id, action, reason)
+  values (auth.uid(), c.blog_id, c.id, decision, c.held_reason);
+end;
+$$;
@@ -0,0 +1,28 @@
+-- Uploaded images are resized to WebP on the client, with a small thumbnail
+-- for the blog list and a tiny placeholder (a data URL) shown while the full
+-- image loads. Posts written before this keep only image_url.
+alter table public.blogs
+  add column thumbnail_url text,
+  add column image_placeholder text;
+
+alter table public.blog_revisions
+  add column thumbnail_url text,
+  add column image_placeholder text;
+
+-- Keep the image variants with each snapshot so a restore brings them back too
+create or replace function public.record_blog_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.blog_revisions (
+    blog_id, editor_id, title, content, image_url, thumbnail_url, image_placeholder
+  )
+  values (
+    old.id, auth.uid(), old.title, old.content, old.image_url, old.thumbnail_url, old.image_placeholder
+  );
+  return new;
+end;
+$$;
@@ -0,0 +1,145 @@
+-- Storage paths of uploaded objects, kept next to their public URLs so the
+-- objects can be deleted when they are replaced or their owner is deleted.
+alter table public.blogs
+  add column image_path text,
+  add column thumbnail_path text;
+
+alter table public.blog_revisions
+  add column image_path text,
+  add column thumbnail_path text,
+  -- the snapshot's image was deleted from storage; restoring keeps the current one
+  add column image_deleted boolean not null default false;
+
+alter table public.comments add column file_path text;
+
+alter table public.profiles add column avatar_path text;
+
+-- Rows written before this only have the public URL
+update public.blogs
+set image_path = substring(image_url from '/object/public/blog-images/(.+)$')
+where image_url is not null;
+
+update public.blog_revisions
+set image_path = substring(image_url from '/object/public/blog-images/(.+)$')
+where image_url is not null;
+
+update public.comments
+set file_path = substring(file_url from '/object/public/blog-images/(.+)$')
+where file_url is not null;
+
+update public.profiles
+set avatar_path = substring(avatar_url from '/object/public/blog-images/(.+)$')
+where avatar_url is not null;
+
+create or replace function public.record_blog_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.blog_revisions (
+    blog_id, editor_id, title, content,
+    image_url, thumbnail_url, image_placeholder, image_path, thumbnail_path
+  )
+  values (
+    old.id, auth.uid(), old.title, old.content,
+    old.image_url, old.thumbnail_url, old.image_placeholder, old.image_path, old.thumbnail_path
+  );
+  return new;
+end;
+$$;
+
+-- A replaced image is deleted right after the update that recorded it in a
+-- revision, so the revision must not offer it for restore any more
+create function public.forget_deleted_upload()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.bucket_id = 'blog-images' then
+    update blog_revisions
+    set image_url = null,
+        thumbnail_url = null,
+        image_placeholder = null,
+        image_path = null,
+        thumbnail_path = null,
+        image_deleted = true
+    where image_path = old.name;
+  end if;
+  return old;
+end;
+$$;
+
+create trigger blog_images_forget_deleted
+  after delete on storage.objects
+  for each row execute function public.forget_deleted_upload();
+
+-- Uploads are stored under <user id>/, comments/<user id>/ and avatars/<user id>/.
+-- Users delete their own; moderators may also delete comment attachments, and
+-- admins anything in the bucket.
+drop policy if exists "Users delete their own uploads" on storage.objects;
+create policy "Users delete their own uploads" on storage.objects
+  for delete using (bucket_id = 'blog-images' and owner = auth.uid());
+
+drop policy if exists "Moderators delete comment attachments" on storage.objects;
+create policy "Moderators delete comment attachments" on storage.objects
+  for delete using (
+    bucket_id = 'blog-images' and name like 'comments/%' and public.has_role('moderator')
+  );
+
+drop policy if exists "Admins delete any upload" on storage.objects;
+create policy "Admins delete any upload" on storage.objects
+  for delete using (bucket_id = 'blog-images' and public.has_role('admin'));
+
+-- Objects nothing points at any more: left behind by failed cleanups, deletes
+-- done in the database (moderation, cascades from a deleted post) or forms that
+-- uploaded and were never saved. Uploads from the last day are skipped, as
+-- their form may still be open. Users can check their own uploads, admins
+-- anyone's (or everyone's, with target_user null).
+create function public.find_orphaned_uploads(target_user uuid default null)
+returns table (owner_id text, path text, size bigint, created_at timestamptz)
+language plpgsql
+stable
+security definer set search_path = public, storage
+as $$
+begin
+  -- Anonymous callers have no auth.uid(); `<>` against null would let them through
+  if auth.uid() is null or (target_user is distinct from auth.uid() and not has_role('admin')) then
+    raise exception 'Only admins can check other users'' uploads';
+  end if;
+
+  return query
+  with uploads as (
+    select
+      o.name,
+      o.created_at,
+      (o.metadata ->> 'size')::bigint as size,
+      case
+        when o.name like 'comments/%' or o.name like 'avatars/%' then split_part(o.name, '/', 2)
+        else split_part(o.name, '/', 1)
+      end as owner_id
+    from storage.objects o
+    where o.bucket_id = 'blog-images'
+  ),
+  referenced as (
+    select b.image_path as path from public.blogs b where b.image_url is not null
+    union select b.thumbnail_path from public.blogs b where b.thumbnail_url is not null
+    union select r.image_path from public.blog_revisions r where r.image_url is not null
+    union select r.thumbnail_path from public.blog_revisions r where r.thumbnail_url is not null
+    union select c.file_path from public.comments c where c.file_url is not null
+    union select p.avatar_path from public.profiles p where p.avatar_url is not null
+  )
+  select u.owner_id, u.name, u.size, u.created_at
+  from uploads u
+  where (target_user is null or u.owner_id = target_user::text)
+    and u.created_at < now() - interval '1 day'
+    and not exists (select 1 from referenced r where r.path = u.name)
+  order by u.owner_id, u.created_at;
+end;
+$$;
+
+revoke execute on function public.find_orphaned_uploads(uuid) from anon, public;
+grant execute on function public.find_orphaned_uploads(uuid) to authenticated;
@@ -0,0 +1,279 @@
+-- Posts carry an ordered gallery of images with captions and alt text, and
+-- comments a list of attachments, both as jsonb arrays on the row so they are
+-- saved, revised and sent over realtime together with it.
+alter table public.blogs add column gallery jsonb not null default '[]'::jsonb;
+alter table public.blog_revisions add column gallery jsonb not null default '[]'::jsonb;
+alter table public.comments add column attachments jsonb not null default '[]'::jsonb;
+
+-- Existing single images become one-image galleries
+update public.blogs
+set gallery = jsonb_build_array(jsonb_build_object(
+  'url', image_url,
+  'thumbnail_url', thumbnail_url,
+  'placeholder', image_placeholder,
+  'path', image_path,
+  'thumbnail_path', thumbnail_path,
+  'caption', '',
+  'alt', title
+))
+where image_url is not null;
+
+update public.blog_revisions
+set gallery = jsonb_build_array(jsonb_build_object(
+  'url', image_url,
+  'thumbnail_url', thumbnail_url,
+  'placeholder', image_placeholder,
+  'path', image_path,
+  'thumbnail_path', thumbnail_path,
+  'caption', '',
+  'alt', title
+))
+where image_url is not null;
+
+update public.comments
+set attachments = jsonb_build_array(jsonb_build_object(
+  'url', file_url,
+  'path', file_path,
+  'name', regexp_replace(file_url, '^.*/', ''),
+  'size', null,
+  'type', case
+    when file_url ~* '\.jpe?g$' then 'image/jpeg'
+    when file_url ~* '\.(png|gif|webp)$' then 'image/' || lower(substring(file_url from '\.([A-Za-z]+)$'))
+    else 'application/octet-stream'
+  end
+))
+where file_url is not null;
+
+-- The first gallery image is the post's cover, used for the blog list. The
+-- cover columns are kept in step here instead of by every writer.
+create function public.sync_blog_cover()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.image_url := new.gallery -> 0 ->> 'url';
+  new.thumbnail_url := new.gallery -> 0 ->> 'thumbnail_url';
+  new.image_placeholder := new.gallery -> 0 ->> 'placeholder';
+  new.image_path := new.gallery -> 0 ->> 'path';
+  new.thumbnail_path := new.gallery -> 0 ->> 'thumbnail_path';
+  return new;
+end;
+$$;
+
+create trigger blogs_sync_cover
+  before insert or update of gallery on public.blogs
+  for each row execute function public.sync_blog_cover();
+
+-- Revisions now snapshot the whole gallery
+create or replace function public.record_blog_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.blog_revisions (
+    blog_id, editor_id, title, content, gallery,
+    image_url, thumbnail_url, image_placeholder, image_path, thumbnail_path
+  )
+  values (
+    old.id, auth.uid(), old.title, old.content, old.gallery,
+    old.image_url, old.thumbnail_url, old.image_placeholder, old.image_path, old.thumbnail_path
+  );
+  return new;
+end;
+$$;
+
+drop trigger blogs_record_revision on public.blogs;
+create trigger blogs_record_revision
+  before update on public.blogs
+  for each row
+  when (
+    old.title is distinct from new.title
+    or old.content is distinct from new.content
+    or old.gallery is distinct from new.gallery
+  )
+  execute function public.record_blog_revision();
+
+-- A revision whose gallery lost an image can't be restored with its gallery
+create or replace function public.forget_deleted_upload()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.bucket_id = 'blog-images' then
+    update blog_revisions
+    set image_deleted = true
+    where not image_deleted
+      and (image_path = old.name
+           or gallery @> jsonb_build_array(jsonb_build_object('path', old.name)));
+  end if;
+  return old;
+end;
+$$;
+
+-- A deleted comment's placeholder keeps no attachments, however it was deleted
+create function public.clear_deleted_comment_attachments()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is not null then
+    new.attachments := '[]'::jsonb;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger comments_clear_deleted_attachments
+  before update of deleted_at on public.comments
+  for each row execute function public.clear_deleted_comment_attachments();
+
+-- The moderation functions no longer clear file_url; the trigger above does it
+create or replace function public.moderate_report(report_id uuid, decision text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  r reports%rowtype;
+begin
+  if not has_role('moderator') then
+    raise exception 'Only moderators can act on reports';
+  end if;
+
+  select * into r from reports where id = report_id and status = 'open';
+  if not found then
+    raise exception 'Report not found or already handled';
+  end if;
+
+  if decision = 'hide' then
+    if r.comment_id is not null then
+      update comments set hidden_at = now() where id = r.comment_id;
+    else
+      update blogs set hidden_at = now() where id = r.blog_id;
+    end if;
+  elsif decision = 'delete' then
+    if r.comment_id is not null then
+      -- Same as a user deleting a comment: keep a placeholder if it has replies
+      if exists (select 1 from comments where parent_id = r.comment_id) then
+        update comments
+        set content = '', deleted_at = now(), updated_at = now()
+        where id = r.comment_id;
+      else
+        delete from comments where id = r.comment_id;
+      end if;
+    else
+      if not has_role('admin') then
+        raise exception 'Only admins can delete posts';
+      end if;
+      delete from blogs where id = r.blog_id;
+    end if;
+  elsif decision <> 'dismiss' then
+    raise exception 'Unknown decision %', decision;
+  end if;
+
+  -- Deleting the content also deletes its reports, so don't link to them
+  insert into moderation_actions (moderator_id, report_id, blog_id, comment_id, action, reason)
+  values (auth.uid(), case when decision = 'delete' then null else r.id end,
+          r.blog_id, r.comment_id, decision, r.reason);
+
+  -- Hiding or deleting settles every open report on the same content
+  update reports
+  set status = case when decision = 'dismiss' then 'dismissed' else 'resolved' end,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  where id = r.id
+     or (decision <> 'dismiss'
+         and status = 'open'
+         and blog_id = r.blog_id
+         and comment_id is not distinct from r.comment_id);
+end;
+$$;
+
+create or replace function public.moderate_held_comment(comment_id uuid, decision text)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  c comments%rowtype;
+begin
+  if not has_role('moderator') then
+    raise exception 'Only moderators can review held comments';
+  end if;
+
+  select * into c from comments where id = comment_id and held_reason is not null;
+  if not found then
+    raise exception 'Comment not found or not held';
+  end if;
+
+  if decision = 'approve' then
+    update comments set hidden_at = null, held_reason = null where id = c.id;
+  elsif decision = 'delete' then
+    if exists (select 1 from comments where parent_id = c.id) then
+      update comments
+      set content = '', deleted_at = now(), updated_at = now(), held_reason = null
+      where id = c.id;
+    else
+      delete from comments where id = c.id;
+    end if;
+  else
+    raise exception 'Unknown decision %', decision;
+  end if;
+
+  insert into moderation_actions (moderator_id, blog_id, comment_id, action, reason)
+  values (auth.uid(), c.blog_id, c.id, decision, c.held_reason);
+end;
+$$;
+
+alter table public.comments
+  drop column file_url,
+  drop column file_path;
+
+create or replace function public.find_orphaned_uploads(target_user uuid default null)
+returns table (owner_id text, path text, size bigint, created_at timestamptz)
+language plpgsql
+stable
+security definer set search_path = public, storage
+as $$
+begin
+  if auth.uid() is null or (target_user is distinct from auth.uid() and not has_role('admin')) then
+    raise exception 'Only admins can check other users'' uploads';
+  end if;
+
+  return query
+  with uploads as (
+    select
+      o.name,
+      o.created_at,
+      (o.metadata ->> 'size')::bigint as size,
+      case
+        when o.name like 'comments/%' or o.name like 'avatars/%' then split_part(o.name, '/', 2)
+        else split_part(o.name, '/', 1)
+      end as owner_id
+    from storage.objects o
+    where o.bucket_id = 'blog-images'
+  ),
+  gallery_images as (
+    select g.image from public.blogs b, jsonb_array_elements(b.gallery) as g(image)
+    union all
+    select g.image from public.blog_revisions r, jsonb_array_elements(r.gallery) as g(image)
+  ),
+  referenced as (
+    select gi.image ->> 'path' as path from gallery_images gi
+    union select gi.image ->> 'thumbnail_path' from gallery_images gi
+    union select a.attachment ->> 'path'
+      from public.comments c, jsonb_array_elements(c.attachments) as a(attachment)
+    union select p.avatar_path from public.profiles p where p.avatar_url is not null
+  )
+  select u.owner_id, u.name, u.size, u.created_at
+  from uploads u
+  where (target_user is null or u.owner_id = target_user::text)
+    and u.created_at < now() - interval '1 day'
+    and not exists (select 1 from referenced r where r.path = u.name)
+  order by u.owner_id, u.created_at;
+end;
+$$;